@@ -1,301 +1,510 @@
 // src/AI.ts
-import { Boid } from './Boid';
-import { Track } from './Track';
-import type { NeuralNetworkJSON } from './brain-js';
+import { Boid, type BrainJSON } from './Boid';
+import type { FeedForwardNetwork } from './Network';
 import { random } from './rng';
+import { NeatGenome, isNeatGenomeJSON, neatInnovations } from './Neat';
+import { Optimizer, type EvolutionMode } from './Optimizer';
+import { type Species, assignSpecies, cullStagnantSpecies, shareFitness, allocateOffspring } from './Speciation';
+import { NoveltyArchive, describeBehaviour } from './Novelty';
+import { activeFitnessLabel } from './Fitness';
+import { type SelectionSettings, type SelectionStrategy, DEFAULT_SELECTION, createSelection } from './Selection';
+import { type CrossoverSettings, CROSSOVER_OPERATORS, DEFAULT_CROSSOVER } from './Crossover';
+import {
+    type MutationSettings, DEFAULT_MUTATION, sampleNoise, noiseStd, scheduleScale, inheritSigma,
+} from './Mutation';
+import {
+    type ObjectiveKey, type ParetoPoint, OBJECTIVE_KEYS, measureObjectives, toMaximize, paretoScores,
+} from './MultiObjective';
+import type { StagnationEvent, StagnationMonitor } from './Stagnation';
+import { type BoidOrigin, type LineageRegistry, lineage } from './Lineage';
+
+/**
+ * What selection optimises:
+ * 'fitness' — checkpoint fitness, 'novelty' — behavioural novelty only,
+ * 'hybrid'  — weighted blend of the two (see noveltyWeight),
+ * 'pareto'  — NSGA-II over the objective vector (see MultiObjective.ts).
+ */
+export type SelectionObjective = 'fitness' | 'novelty' | 'hybrid' | 'pareto';
+
+/** The GA's live-tunable parameters (kept in SimState, so a restarted run keeps what the Config panel shows). */
+export interface GASettings {
+    mutationRate: number;
+    eliteCount: number;
+    complexityPenalty: number;
+    useSpeciation: boolean;
+    targetSpeciesCount: number;
+    speciesStagnationLimit: number;
+    objective: SelectionObjective;
+    noveltyWeight: number;
+    noveltyK: number;
+    paretoObjectives: ObjectiveKey[];
+    paretoSurvivorShare: number;
+}
 
-export class GeneticAlgorithm {
-    populationSize: number = 50;
+export const DEFAULT_GA_SETTINGS: GASettings = {
+    mutationRate: 0.1,
+    eliteCount: 1,
+    complexityPenalty: 25,
+    useSpeciation: false,
+    targetSpeciesCount: 6,
+    speciesStagnationLimit: 15,
+    objective: 'fitness',
+    noveltyWeight: 0.5,
+    noveltyK: 10,
+    paretoObjectives: [...OBJECTIVE_KEYS],
+    paretoSurvivorShare: 0.5,
+};
+
+export class GeneticAlgorithm extends Optimizer {
+    readonly kind = 'ga';
     mutationRate: number = 0.1;
-    boids: Boid[] = [];
-    generation: number = 1;
-    timer: number = 0;
-    maxLifespan: number = 2000; // frames before forcing next generation
+    mutationSettings: MutationSettings; // Noise, σ adaptation and rate schedule (see Mutation.ts)
+    rateScale: number = 1;              // current schedule multiplier on the mutation rates
+    staleGenerations: number = 0;       // generations since bestFitnessEver last improved
+    bestFitnessEver: number = 0;
+    private runStartGeneration: number | null = null; // set on the first breed, once `generation` is final
+    stagnation: StagnationMonitor | null = null; // runs a restart strategy when progress stalls (see Stagnation.ts)
+    private genealogy: LineageRegistry | null = this.persistent ? lineage : null; // headless runs keep none
     eliteCount: number = 1;      // Number of top performers preserved unchanged
-    tournamentSize: number = 3;  // Tournament selection size
-    topParentsCount: number = 5; // Number of top boids eligible for crossover
-    lastGenEndStats: { generation: number; survivorCount: number; bestFitness: number; diversity: number } | null = null;
-    bestFitnessThisGen: number = 0;
-    lastImprovementTimer: number = 0;
-    bestBoidDiedAt: number = -1; // timer frame when all-time-best boid died; -1 = still alive
-
-    constructor(size: number, startX: number, startY: number, startAngle: number) {
-        this.populationSize = size;
-
-        const savedBrain = localStorage.getItem('best_boid_brain');
-        const savedGen = localStorage.getItem('current_generation');
-        if (savedGen) this.generation = parseInt(savedGen);
+    selection: SelectionStrategy; // How crossover parents are drawn (see Selection.ts)
+    crossoverSettings: CrossoverSettings; // Operator + probability (see Crossover.ts)
+
+    // NEAT settings (only used when evolutionMode === 'neat')
+    addNodeRate: number = 0.03;        // chance per offspring of splitting a connection
+    addConnectionRate: number = 0.05;  // chance per offspring of adding a connection
+    complexityPenalty: number = 25;    // score cost per hidden node — growth has to earn its keep
+
+    // Speciation settings
+    useSpeciation: boolean = false;
+    compatibilityThreshold: number;     // max brain distance to a species representative
+    targetSpeciesCount: number = 6;     // threshold is nudged each generation to approach this
+    speciesStagnationLimit: number = 15; // generations without improvement before a species is culled
+    species: Species[] = [];
+
+    // Novelty search settings
+    objective: SelectionObjective = 'fitness';
+    noveltyWeight: number = 0.5;  // share of novelty in the 'hybrid' objective
+    novelty: NoveltyArchive = new NoveltyArchive();
+
+    // NSGA-II settings ('pareto' objective)
+    paretoObjectives: ObjectiveKey[] = [...OBJECTIVE_KEYS];
+    paretoSurvivorShare: number = 0.5; // share of the next generation kept unchanged from the best fronts
+    paretoPoints: ParetoPoint[] = [];  // the last finished generation, ranked
+
+    constructor(
+        size: number,
+        startX: number,
+        startY: number,
+        startAngle: number,
+        mode: EvolutionMode = 'weights',
+        selection: SelectionSettings = DEFAULT_SELECTION,
+        crossover: CrossoverSettings = DEFAULT_CROSSOVER,
+        mutation: MutationSettings = DEFAULT_MUTATION,
+    ) {
+        super(size);
+        this.evolutionMode = mode;
+        this.selection = createSelection(selection);
+        this.crossoverSettings = crossover;
+        this.mutationSettings = mutation;
+        if (mode === 'neat') neatInnovations.reset();
+        // NEAT compatibility distances are much smaller than raw weight-vector distances
+        this.compatibilityThreshold = mode === 'neat' ? 3 : 8;
+
+        // Only reuse the saved brain if it is the same kind this run evolves
+        const parsedBrain = this.loadSavedBrain();
+        const savedBrain = parsedBrain && isNeatGenomeJSON(parsedBrain) === (mode === 'neat')
+            ? parsedBrain
+            : null;
 
         for (let i = 0; i < size; i++) {
-            const boid = new Boid(startX, startY, startAngle);
+            const seeded = savedBrain !== null && i < size * 0.2;
+            const boid = this.spawnRandom(startX, startY, startAngle, seeded ? 'immigrant' : 'random', this.generation);
             if (savedBrain && i === 0) {
                 // Seed the first boid with the best saved brain
-                boid.network.fromJSON(JSON.parse(savedBrain));
+                boid.loadBrain(savedBrain);
             } else if (savedBrain && i < size * 0.2) {
                 // Seed 20% of population with slightly mutated saved brain
-                const brainJSON = JSON.parse(savedBrain);
-                this.mutate(brainJSON, 0.2);
-                boid.network.fromJSON(brainJSON);
+                boid.loadBrain(savedBrain);
+                this.mutateBrain(boid, mutation.eliteRate);
             }
             this.boids.push(boid);
         }
     }
 
-    update(track: Track) {
-        this.timer++;
-        let allDead = true;
-        let currentBestFitness = 0;
-        let bestAliveFitness = 0;
-        for (const boid of this.boids) {
-            boid.update(track);
-            if (!boid.isDead) {
-                allDead = false;
-                if (boid.fitness > bestAliveFitness) bestAliveFitness = boid.fitness;
-            }
-            if (boid.fitness > currentBestFitness) currentBestFitness = boid.fitness;
-        }
+    /** Take on `settings`; the elite count is capped to leave room for at least one crossover child. */
+    applySettings(settings: GASettings) {
+        this.mutationRate = settings.mutationRate;
+        this.eliteCount = Math.min(settings.eliteCount, this.populationSize - 2);
+        this.complexityPenalty = settings.complexityPenalty;
+        this.useSpeciation = settings.useSpeciation;
+        if (!settings.useSpeciation) this.species = [];
+        this.targetSpeciesCount = settings.targetSpeciesCount;
+        this.speciesStagnationLimit = settings.speciesStagnationLimit;
+        this.objective = settings.objective;
+        this.noveltyWeight = settings.noveltyWeight;
+        this.novelty.k = settings.noveltyK;
+        this.paretoObjectives = [...settings.paretoObjectives];
+        this.paretoSurvivorShare = settings.paretoSurvivorShare;
+    }
 
-        if (currentBestFitness > this.bestFitnessThisGen) {
-            this.bestFitnessThisGen = currentBestFitness;
-            this.lastImprovementTimer = this.timer;
-        }
+    /** Put an imported brain into the first boid; it joins the lineage as an immigrant. */
+    seedBrain(json: BrainJSON) {
+        super.seedBrain(json);
+        if (this.boids[0]) this.genealogy?.register(this.boids[0], 'immigrant', [], this.generation);
+    }
 
-        // Detect when the all-time-best boid has died with no alive boid matching it.
-        // Reset the clock if an alive boid catches up (new best emerged).
-        if (this.bestFitnessThisGen > 0) {
-            if (bestAliveFitness >= this.bestFitnessThisGen) {
-                this.bestBoidDiedAt = -1; // a live boid is leading — no countdown
-            } else if (this.bestBoidDiedAt === -1) {
-                this.bestBoidDiedAt = this.timer; // best just died, start countdown
-            }
-        }
+    /**
+     * Draw `pairs` parent pairs from `pool` with the active selection strategy.
+     */
+    selectParents(pairs: number, pool: Boid[] = this.boids): [Boid, Boid][] {
+        const picks = this.selection.select(pool, pairs * 2);
+        const result: [Boid, Boid][] = [];
+        for (let i = 0; i < pairs; i++) result.push([picks[2 * i], this.hallOfFameMate() ?? picks[2 * i + 1]]);
+        return result;
+    }
 
-        const noEliteFor500 = (this.maxLifespan - this.timer) <= 500
-            && (this.timer - this.lastImprovementTimer) >= 500;
-        const bestDeadFor500 = this.bestBoidDiedAt !== -1
-            && (this.timer - this.bestBoidDiedAt) >= 500;
+    /** With probability hallOfFame.settings.parentRate, a hall-of-fame member to mate with instead. */
+    private hallOfFameMate(): Boid | null {
+        const rate = this.hallOfFame?.settings.parentRate ?? 0;
+        if (rate <= 0 || random() >= rate) return null;
+        return this.hallOfFame!.sampleBoid(this.evolutionMode === 'neat', activeFitnessLabel(), 0, 0, 0);
+    }
 
-        if (allDead || this.timer > this.maxLifespan || noEliteFor500 || bestDeadFor500) {
-            this.nextGeneration(track.startPoint.x, track.startPoint.y, track.startAngle);
-            this.timer = 0;
+    /**
+     * After every `stagnationGenerations` generations without a new best, replace the last
+     * `reseedShare` of the new population (crossover children — elites sit in front) with
+     * mutated hall-of-fame members.
+     */
+    private reseedFromHallOfFame(newBoids: Boid[], x: number, y: number, angle: number) {
+        const hof = this.hallOfFame;
+        if (!hof?.settings.reseedOnStagnation) return;
+        const every = Math.max(1, hof.settings.stagnationGenerations);
+        if (this.staleGenerations === 0 || this.staleGenerations % every !== 0) return;
+        const count = Math.floor(newBoids.length * hof.settings.reseedShare);
+        for (let i = newBoids.length - count; i < newBoids.length; i++) {
+            const member = hof.sampleBoid(this.evolutionMode === 'neat', activeFitnessLabel(), x, y, angle);
+            if (!member) return;
+            const boid = this.spawnCopy(member, x, y, angle, 'immigrant');
+            this.mutateBrain(boid, this.mutationSettings.eliteRate);
+            newBoids[i] = boid;
         }
     }
 
     /**
-     * Select a parent using tournament selection.
-     * Picks `tournamentSize` random boids and returns the fittest.
+     * Crossover two parent networks into a child genome
+     * with the operator selected in `crossoverSettings`.
      */
-    selectParent(): Boid {
-        let best: Boid | null = null;
-        for (let i = 0; i < this.tournamentSize; i++) {
-            const idx = Math.floor(random() * this.boids.length);
-            const candidate = this.boids[idx];
-            if (!best || candidate.fitness > best.fitness) {
-                best = candidate;
-            }
-        }
-        return best!;
+    crossover(parent1: FeedForwardNetwork, parent2: FeedForwardNetwork): Float32Array {
+        const operator = CROSSOVER_OPERATORS[this.crossoverSettings.kind];
+        return operator(parent1, parent2, this.crossoverSettings);
     }
 
     /**
-     * Crossover two parent networks to create a child network.
-     * Uses arithmetic crossover: childWeight = (p1Weight + p2Weight) / 2
-     * Preserves the full JSON structure that brain.js expects.
+     * Selection score for each boid: the selection objective, minus `complexityPenalty`
+     * per hidden node in NEAT mode so larger brains only win when they drive better.
+     * Pareto scores are ranks, not fitness units, so they aren't penalised.
      */
-    crossover(parent1JSON: NeuralNetworkJSON, parent2JSON: NeuralNetworkJSON): NeuralNetworkJSON {
-        // Deep clone parent1's JSON to preserve the full structure (options, etc.)
-        const childJSON: NeuralNetworkJSON = JSON.parse(JSON.stringify(parent1JSON));
-
-        for (let i = 0; i < childJSON.layers.length; i++) {
-            const childLayer = childJSON.layers[i];
-            const p2Layer = parent2JSON.layers[i];
-
-            // Crossover weights
-            if (childLayer.weights && p2Layer?.weights) {
-                for (let j = 0; j < childLayer.weights.length; j++) {
-                    for (let k = 0; k < childLayer.weights[j].length; k++) {
-                        // Arithmetic crossover with random blend factor
-                        const blend = random();
-                        childLayer.weights[j][k] = (childLayer.weights[j][k] * blend) + 
-                                                    (p2Layer.weights[j][k] * (1 - blend));
-                    }
-                }
-            }
+    assignScores() {
+        const pareto = this.activeObjective() === 'pareto';
+        const objective = pareto ? this.paretoRanking() : this.objectiveScores();
+        this.boids.forEach((boid, i) => {
+            const penalty = boid.genome && !pareto
+                ? boid.genome.hiddenCount() * this.complexityPenalty
+                : 0;
+            boid.score = objective[i] - penalty;
+        });
+    }
 
-            // Crossover biases
-            if (childLayer.biases && p2Layer?.biases) {
-                for (let j = 0; j < childLayer.biases.length; j++) {
-                    const blend = random();
-                    childLayer.biases[j] = (childLayer.biases[j] * blend) + 
-                                           (p2Layer.biases[j] * (1 - blend));
-                }
-            }
-        }
+    /**
+     * Raw objective per boid. Novelty is rescaled into fitness units (the population's best
+     * fitness, at least one checkpoint's worth) so the hybrid blend and the complexity
+     * penalty mean the same thing whichever objective is active.
+     */
+    private objectiveScores(): number[] {
+        const objective = this.activeObjective();
+        const fitness = this.boids.map(b => b.fitness);
+        if (objective === 'fitness') return fitness;
+
+        const descriptors = this.boids.map(b => describeBehaviour(b, this.checkpointTotal));
+        const novelty = this.novelty.scorePopulation(descriptors);
+        const scale = Math.max(1000, ...fitness) / (Math.max(...novelty) || 1);
+        const w = objective === 'novelty' ? 1 : this.noveltyWeight;
+        return fitness.map((f, i) => (1 - w) * f + w * novelty[i] * scale);
+    }
 
-        return childJSON;
+    /**
+     * NSGA-II crowded-comparison score per boid over `paretoObjectives`, and a ranked
+     * snapshot of the generation in `paretoPoints` for the Pareto panel.
+     */
+    private paretoRanking(): number[] {
+        const values = this.boids.map(b => b.objectives ?? measureObjectives(b));
+        const { rank, crowding, score } = paretoScores(values.map(v => toMaximize(v, this.paretoObjectives)));
+        this.paretoPoints = this.boids.map((boid, i) => ({
+            generation: this.generation,
+            objectives: values[i],
+            rank: rank[i],
+            crowding: crowding[i],
+            fitness: boid.fitness,
+            brain: rank[i] === 0 ? boid.brainJSON() : null,
+        }));
+        return score;
     }
 
-    nextGeneration(x: number, y: number, angle: number) {
-        // Reset per-generation improvement tracking
-        this.bestFitnessThisGen = 0;
-        this.lastImprovementTimer = 0;
-        this.bestBoidDiedAt = -1;
+    protected breed(x: number, y: number, angle: number): Boid[] {
+        this.genealogy?.recordFitness(this.boids, this.generation);
+        this.updateSchedule();
+        const stagnation = this.checkStagnation();
+
+        // Sort by score (descending)
+        this.assignScores();
+        this.boids.sort((a, b) => b.score - a.score);
+        const newBoids = this.activeObjective() === 'pareto'
+            ? this.breedPareto(x, y, angle)
+            : this.breedSingleObjective(x, y, angle);
+        this.reseedFromHallOfFame(newBoids, x, y, angle);
+        if (stagnation) this.respondToStagnation(stagnation, newBoids, x, y, angle);
+        return newBoids;
+    }
 
-        // Snapshot end-of-generation stats before any replacement
-        this.lastGenEndStats = {
-            generation: this.generation,
-            survivorCount: this.boids.filter(b => !b.isDead).length,
-            bestFitness: Math.max(...this.boids.map(b => b.fitness)),
-            diversity: this.calculateDiversity(),
-        };
+    /** The objective selection runs on: `objective`, unless a stagnation novelty switch is in effect. */
+    private activeObjective(): SelectionObjective {
+        return this.stagnation?.isActive('novelty', this.generation) ? 'novelty' : this.objective;
+    }
 
-        // Sort by fitness (descending)
-        this.boids.sort((a, b) => b.fitness - a.fitness);
+    /**
+     * Let the stagnation monitor judge the generation just finished and record any event in its
+     * stats. While a hypermutation burst lasts, the mutation rates are multiplied on top of the
+     * schedule; a novelty switch takes effect through activeObjective().
+     */
+    private checkStagnation(): StagnationEvent | null {
+        const monitor = this.stagnation;
+        if (!monitor) return null;
+        const event = monitor.check(this.generation, this.staleGenerations, this.lastGenEndStats?.diversity ?? Infinity);
+        if (this.lastGenEndStats) this.lastGenEndStats.stagnation = event;
+        if (monitor.isActive('hypermutation', this.generation)) this.rateScale *= monitor.settings.burstFactor;
+        return event;
+    }
 
+    /**
+     * Population responses to a stagnation event, applied to the bred generation: random
+     * immigrants replace the last `immigrantShare` (crossover children — elites sit in front),
+     * and a restart keeps only the `eliteCount` elites.
+     */
+    private respondToStagnation(event: StagnationEvent, newBoids: Boid[], x: number, y: number, angle: number) {
+        let count = 0;
+        if (event.strategy === 'immigrants') {
+            count = Math.floor(newBoids.length * this.stagnation!.settings.immigrantShare);
+        } else if (event.strategy === 'restart') {
+            count = newBoids.length - Math.max(1, this.eliteCount);
+            this.species = [];
+        }
+        for (let i = Math.max(0, newBoids.length - count); i < newBoids.length; i++) {
+            newBoids[i] = this.spawnRandom(x, y, angle, 'immigrant', this.generation + 1);
+        }
+    }
+
+    /** Elites, mutated copies of the best and crossover children — or species by species. */
+    private breedSingleObjective(x: number, y: number, angle: number): Boid[] {
         const newBoids: Boid[] = [];
         const best = this.boids[0];
 
         // 1. Elite: Preserve top performers unchanged
         for (let i = 0; i < this.eliteCount && i < this.boids.length; i++) {
-            const elite = new Boid(x, y, angle);
-            elite.network.fromJSON(this.boids[i].network.toJSON());
-            newBoids.push(elite);
+            newBoids.push(this.spawnCopy(this.boids[i], x, y, angle));
         }
 
-        // 2. Slightly mutated copies of elite (20% of population)
-        const mutatedEliteCount = Math.floor(this.populationSize * 0.2);
-        for (let i = newBoids.length; i < mutatedEliteCount; i++) {
-            const child = new Boid(x, y, angle);
-            const eliteJSON = best.network.toJSON() as NeuralNetworkJSON;
-            this.mutate(eliteJSON, 0.2); // Higher mutation for diversity
-            child.network.fromJSON(eliteJSON);
-            newBoids.push(child);
-        }
+        if (this.useSpeciation) {
+            // 2+3. Per-species mutated champions and crossover children
+            this.breedBySpecies(newBoids, x, y, angle);
+            if (this.lastGenEndStats) this.lastGenEndStats.speciesCount = this.species.length;
+        } else {
+            // 2. Slightly mutated copies of elite (20% of population)
+            const mutatedEliteCount = Math.floor(this.populationSize * 0.2);
+            for (let i = newBoids.length; i < mutatedEliteCount; i++) {
+                const child = this.spawnCopy(best, x, y, angle, 'mutant');
+                this.mutateBrain(child, this.mutationSettings.eliteRate); // Higher mutation for diversity
+                newBoids.push(child);
+            }
 
-        // 3. Crossover children from top parents (remaining population)
-        while (newBoids.length < this.populationSize) {
-            const child = new Boid(x, y, angle);
-            
-            // Select two parents using tournament selection
-            const parent1 = this.selectParent();
-            const parent2 = this.selectParent();
-            
-            // Crossover to create child
-            const parent1JSON = parent1.network.toJSON() as NeuralNetworkJSON;
-            const parent2JSON = parent2.network.toJSON() as NeuralNetworkJSON;
-            const childJSON = this.crossover(parent1JSON, parent2JSON);
-            
-            // Mutate the child
-            this.mutate(childJSON, this.mutationRate);
-            
-            child.network.fromJSON(childJSON);
-            newBoids.push(child);
+            // 3. Crossover children from selected parents (remaining population)
+            const pairs = this.selectParents(Math.max(0, this.populationSize - newBoids.length));
+            for (const [parent1, parent2] of pairs) {
+                // Crossover to create child, then mutate it
+                const child = this.spawnChild(parent1, parent2, x, y, angle);
+                this.mutateBrain(child, this.mutationRate);
+                newBoids.push(child);
+            }
         }
 
-        this.boids = newBoids;
-        this.generation++;
+        return newBoids;
+    }
 
-        // Save progress to local storage
-        localStorage.setItem('best_boid_brain', JSON.stringify(best.network.toJSON()));
-        localStorage.setItem('current_generation', this.generation.toString());
+    /**
+     * NSGA-II generation on a population already sorted by crowded comparison: the best
+     * `paretoSurvivorShare` (whole fronts, the last one cut by crowding) survive unchanged
+     * and the rest are crossover children of parents drawn by the selection strategy.
+     * Replaces the elite copies and speciation of the single-objective modes.
+     */
+    private breedPareto(x: number, y: number, angle: number): Boid[] {
+        const survivors = Math.max(1, Math.floor(this.populationSize * this.paretoSurvivorShare));
+        const newBoids = this.boids.slice(0, survivors).map(b => this.spawnCopy(b, x, y, angle));
+        for (const [parent1, parent2] of this.selectParents(this.populationSize - newBoids.length)) {
+            const child = this.spawnChild(parent1, parent2, x, y, angle);
+            this.mutateBrain(child, this.mutationRate);
+            newBoids.push(child);
+        }
+        return newBoids;
     }
 
-    mutate(networkJSON: NeuralNetworkJSON, rate: number) {
-        for (let i = 0; i < networkJSON.layers.length; i++) {
-            const layer = networkJSON.layers[i];
-            if (!layer.weights) continue;
-
-            for (let j = 0; j < layer.weights.length; j++) {
-                for (let k = 0; k < layer.weights[j].length; k++) {
-                    if (random() < rate) {
-                        layer.weights[j][k] += (random() * 2 - 1); // Mutate by adding -1 to 1
-                    }
-                }
-            }
+    /**
+     * Speciate the current population, share fitness within species, drop stagnant
+     * species and fill the rest of `newBoids` species by species. Each species spends
+     * ~20% of its quota on mutated copies of its own champion and the rest on
+     * crossover between its members, so one dominant brain can't take over.
+     */
+    private breedBySpecies(newBoids: Boid[], x: number, y: number, angle: number) {
+        this.species = assignSpecies(
+            this.boids, this.species, this.compatibilityThreshold,
+            (a, b) => this.brainDistance(a, b),
+        );
+
+        // Nudge the threshold so the species count drifts toward the target
+        if (this.species.length < this.targetSpeciesCount) {
+            this.compatibilityThreshold = Math.max(0.1, this.compatibilityThreshold * 0.9);
+        } else if (this.species.length > this.targetSpeciesCount) {
+            this.compatibilityThreshold *= 1.1;
+        }
 
-            if (layer.biases) {
-                for (let j = 0; j < layer.biases.length; j++) {
-                    if (random() < rate) {
-                        layer.biases[j] += (random() * 2 - 1);
-                    }
-                }
+        this.species = cullStagnantSpecies(this.species, this.speciesStagnationLimit);
+        shareFitness(this.species);
+        allocateOffspring(this.species, this.populationSize - newBoids.length);
+
+        for (const s of this.species) {
+            s.members.sort((a, b) => b.score - a.score);
+            const champion = s.members[0];
+            const mutantCount = Math.floor(s.offspring * 0.2);
+            for (let i = 0; i < mutantCount; i++) {
+                const child = this.spawnCopy(champion, x, y, angle, 'mutant');
+                this.mutateBrain(child, this.mutationSettings.eliteRate);
+                newBoids.push(child);
+            }
+            for (const [parent1, parent2] of this.selectParents(s.offspring - mutantCount, s.members)) {
+                const child = this.spawnChild(parent1, parent2, x, y, angle);
+                this.mutateBrain(child, this.mutationRate);
+                newBoids.push(child);
             }
         }
     }
 
-    getBestActiveBoid(): Boid | null {
-        let best = null;
-        let maxFit = -1;
-        for (let b of this.boids) {
-            // Select the boid with highest fitness, regardless of alive/dead status
-            // This ensures the best performer is always visualized
-            if (b.fitness > maxFit) {
-                maxFit = b.fitness;
-                best = b;
-            }
+    /**
+     * Track stagnation and refresh the schedule multiplier applied to
+     * mutationRate and eliteRate while breeding the next generation.
+     */
+    private updateSchedule() {
+        const best = Math.max(...this.boids.map(b => b.fitness));
+        if (best > this.bestFitnessEver) {
+            this.bestFitnessEver = best;
+            this.staleGenerations = 0;
+        } else {
+            this.staleGenerations++;
         }
-        return best;
+        this.runStartGeneration ??= this.generation;
+        this.rateScale = scheduleScale(
+            this.mutationSettings,
+            this.generation - this.runStartGeneration,
+            this.staleGenerations,
+        );
+    }
+
+    protected restartSchedule() {
+        this.runStartGeneration = null;
     }
 
     /**
-     * Calculate population diversity as average pairwise distance between network weights.
-     * Higher values indicate more diverse population (good for evolution).
-     * Returns a value typically in range [0, 10+]
+     * Effective mutation strength: scheduled per-gene rate × mean σ × noise std,
+     * i.e. the expected perturbation spread per gene of a crossover child.
      */
-    calculateDiversity(): number {
-        if (this.boids.length < 2) return 0;
-
-        // Sample networks for efficiency (use up to 10 boids)
-        const sampleSize = Math.min(10, this.boids.length);
-        const samples: NeuralNetworkJSON[] = [];
-        
-        for (let i = 0; i < sampleSize; i++) {
-            const idx = Math.floor(random() * this.boids.length);
-            samples.push(this.boids[idx].network.toJSON() as NeuralNetworkJSON);
-        }
+    mutationStrength(): number {
+        const m = this.mutationSettings;
+        const sigma = m.adaptation === 'fixed'
+            ? m.sigma
+            : this.boids.reduce((sum, b) => sum + b.mutationSigma, 0) / Math.max(1, this.boids.length);
+        return Math.min(1, this.mutationRate * this.rateScale) * sigma * noiseStd(m.noise);
+    }
+
+    /** New boid at the start line with a fresh random brain, like the first generation's. */
+    private spawnRandom(x: number, y: number, angle: number, origin: BoidOrigin, generation: number): Boid {
+        const boid = new Boid(x, y, angle);
+        boid.mutationSigma = this.mutationSettings.sigma;
+        if (this.evolutionMode === 'neat') boid.genome = NeatGenome.createMinimal(Boid.inputCount(), Boid.OUTPUTS);
+        this.genealogy?.register(boid, origin, [], generation);
+        return boid;
+    }
 
-        let totalDistance = 0;
-        let pairCount = 0;
+    /**
+     * New boid at the start line carrying an exact copy of the parent's brain, born into the
+     * next generation as `origin` — pass 'mutant' when the caller mutates it straight away.
+     */
+    private spawnCopy(parent: Boid, x: number, y: number, angle: number, origin: BoidOrigin = 'elite'): Boid {
+        const boid = new Boid(x, y, angle);
+        boid.loadBrain(parent.brainJSON());
+        this.inheritMutationState(boid, parent);
+        this.genealogy?.register(boid, origin, [parent], this.generation + 1);
+        return boid;
+    }
 
-        // Calculate pairwise distances
-        for (let i = 0; i < samples.length; i++) {
-            for (let j = i + 1; j < samples.length; j++) {
-                totalDistance += this.networkDistance(samples[i], samples[j]);
-                pairCount++;
-            }
+    /**
+     * New boid whose brain is the crossover of two parents (unmutated). With probability
+     * 1 - crossoverSettings.probability it is a plain copy of the first parent instead,
+     * so mutation alone decides how it differs.
+     */
+    private spawnChild(parent1: Boid, parent2: Boid, x: number, y: number, angle: number): Boid {
+        if (random() >= this.crossoverSettings.probability) return this.spawnCopy(parent1, x, y, angle, 'mutant');
+        const child = new Boid(x, y, angle);
+        if (parent1.genome && parent2.genome) {
+            // NEAT: disjoint/excess genes come from the higher-scoring parent
+            const [fitter, other] = parent1.score >= parent2.score ? [parent1, parent2] : [parent2, parent1];
+            child.genome = NeatGenome.crossover(fitter.genome!, other.genome!);
+        } else {
+            child.network.genome.set(this.crossover(parent1.network, parent2.network));
         }
+        this.inheritMutationState(child, parent1);
+        this.genealogy?.register(child, 'crossover', [parent1, parent2], this.generation + 1);
+        return child;
+    }
 
-        return pairCount > 0 ? totalDistance / pairCount : 0;
+    /** Pass σ down from `parent`, adapting it when self-adaptation is on. */
+    private inheritMutationState(child: Boid, parent: Boid) {
+        const improved = parent.parentFitness >= 0 && parent.fitness > parent.parentFitness;
+        const geneCount = parent.genome
+            ? parent.genome.connections.length + parent.genome.nodes.length
+            : parent.network.genome.length;
+        child.mutationSigma = inheritSigma(this.mutationSettings, parent.mutationSigma, improved, geneCount);
+        child.parentFitness = parent.fitness;
     }
 
     /**
-     * Calculate Euclidean distance between two network weight vectors
+     * Mutate a boid's brain in place. NEAT genomes also get a chance
+     * of a structural mutation (new node or new connection).
      */
-    private networkDistance(net1: NeuralNetworkJSON, net2: NeuralNetworkJSON): number {
-        let sumSquares = 0;
-
-        for (let i = 0; i < net1.layers.length; i++) {
-            const layer1 = net1.layers[i];
-            const layer2 = net2.layers[i];
-
-            if (layer1.weights && layer2.weights) {
-                for (let j = 0; j < layer1.weights.length; j++) {
-                    for (let k = 0; k < layer1.weights[j].length; k++) {
-                        const diff = (layer1.weights[j][k] || 0) - (layer2.weights[j]?.[k] || 0);
-                        sumSquares += diff * diff;
-                    }
-                }
-            }
-
-            if (layer1.biases && layer2.biases) {
-                for (let j = 0; j < layer1.biases.length; j++) {
-                    const diff = (layer1.biases[j] || 0) - (layer2.biases[j] || 0);
-                    sumSquares += diff * diff;
-                }
-            }
+    mutateBrain(boid: Boid, rate: number) {
+        const m = this.mutationSettings;
+        const scaledRate = Math.min(1, rate * this.rateScale);
+        const sigma = m.adaptation === 'fixed' ? m.sigma : boid.mutationSigma;
+        if (boid.genome) {
+            boid.genome.mutateWeights(scaledRate, () => sigma * sampleNoise(m.noise));
+            if (random() < this.addNodeRate) boid.genome.mutateAddNode();
+            if (random() < this.addConnectionRate) boid.genome.mutateAddConnection();
+            return;
         }
+        this.mutate(boid.network.genome, scaledRate, sigma);
+    }
 
-        return Math.sqrt(sumSquares);
+    /** Add σ-scaled noise (mutationSettings.noise) to each weight and bias with probability `rate`. */
+    mutate(genome: Float32Array, rate: number, sigma: number = 1) {
+        const noise = this.mutationSettings.noise;
+        for (let i = 0; i < genome.length; i++) {
+            if (random() < rate) genome[i] += sigma * sampleNoise(noise);
+        }
     }
 }
-
@@ -0,0 +1,207 @@
+// src/Benchmark.ts
+// Benchmark suites: named, versioned lists of seeded tracks that exported brains are raced on
+// to compare them objectively. Every race is deterministic — the track comes from its seed and
+// the PRNG is reseeded per race — so the same brain always gets the same report.
+// Bump a suite's version whenever its tracks, laps or frame limit change; reports record it.
+
+import { Boid, type BrainJSON } from './Boid';
+import { Track, type TrackParams, TRACK_PRESETS } from './Track';
+import { seedRng, snapshotRng, restoreRng } from './rng';
+
+export interface BenchmarkTrack {
+    name: string;
+    seed: number; // must be > 0 — seed 0 generates from Math.random()
+    params: TrackParams;
+}
+
+export interface BenchmarkSuite {
+    id: string;
+    version: number;
+    name: string;
+    laps: number;      // laps a brain must finish for the race to count as completed
+    maxFrames: number; // race length limit per track
+    tracks: BenchmarkTrack[];
+}
+
+/** A brain to benchmark and the name it's reported under (usually its file name). */
+export interface NamedBrain {
+    name: string;
+    brain: BrainJSON;
+}
+
+/** One brain's race on one track. */
+export interface BenchmarkRun {
+    brain: string;
+    track: string;
+    seed: number;
+    completed: boolean;
+    laps: number;
+    checkpoints: number;
+    frames: number;
+    crashed: boolean;               // hit a wall (as opposed to running out of life or frames)
+    crashX: number | null;
+    crashY: number | null;
+    crashCheckpoint: number | null; // index of the checkpoint it was heading for when it crashed
+    meanSpeed: number;              // distance per frame
+    fitness: number;
+}
+
+export interface BenchmarkSummary {
+    brain: string;
+    completionRate: number; // 0–1
+    meanLaps: number;
+    crashRate: number;      // 0–1
+    meanSpeed: number;
+    meanFitness: number;
+}
+
+export interface BenchmarkReport {
+    suite: string;
+    version: number;
+    laps: number;
+    maxFrames: number;
+    createdAt: string;
+    summaries: BenchmarkSummary[];
+    runs: BenchmarkRun[];
+}
+
+const EDGE_NARROW: TrackParams = { ...TRACK_PRESETS.technical, trackWidth: 80 };
+const EDGE_WIDE: TrackParams = { ...TRACK_PRESETS.oval, trackWidth: 240 };
+const EDGE_HAIRPINS: TrackParams = { numControlPoints: 12, radiusVariance: 0.6, cornerTightness: 0.5, trackWidth: 110, segmentsPerCurve: 18 };
+const EDGE_SPARSE: TrackParams = { numControlPoints: 6, radiusVariance: 0.6, cornerTightness: 0.3, trackWidth: 110, segmentsPerCurve: 15 };
+
+// Seeds are picked so every track generates its own layout rather than Track's fallback oval
+export const BENCHMARK_SUITES: BenchmarkSuite[] = [
+    {
+        id: 'standard',
+        version: 3,
+        name: 'Standard',
+        laps: 2,
+        maxFrames: 6000,
+        tracks: [
+            { name: 'oval-1', seed: 1101, params: TRACK_PRESETS.oval },
+            { name: 'oval-2', seed: 1102, params: TRACK_PRESETS.oval },
+            { name: 'technical-1', seed: 2102, params: TRACK_PRESETS.technical },
+            { name: 'technical-2', seed: 2105, params: TRACK_PRESETS.technical },
+            { name: 'f1-1', seed: 3101, params: TRACK_PRESETS.f1 },
+            { name: 'f1-2', seed: 3104, params: TRACK_PRESETS.f1 },
+            { name: 'edge-narrow', seed: 4102, params: EDGE_NARROW },
+            { name: 'edge-wide', seed: 4103, params: EDGE_WIDE },
+            { name: 'edge-hairpins', seed: 4105, params: EDGE_HAIRPINS },
+            { name: 'edge-sparse', seed: 4104, params: EDGE_SPARSE },
+        ],
+    },
+    {
+        id: 'quick',
+        version: 2,
+        name: 'Quick',
+        laps: 1,
+        maxFrames: 3000,
+        tracks: [
+            { name: 'oval-1', seed: 1101, params: TRACK_PRESETS.oval },
+            { name: 'technical-1', seed: 2102, params: TRACK_PRESETS.technical },
+            { name: 'f1-1', seed: 3101, params: TRACK_PRESETS.f1 },
+        ],
+    },
+];
+
+export function buildBenchmarkTrack(entry: BenchmarkTrack): Track {
+    const track = new Track(Track.FIXED_SIZE, Track.FIXED_SIZE);
+    track.setParams(entry.params);
+    track.generateSimpleLoopedTrack(Track.FIXED_SIZE, Track.FIXED_SIZE, entry.seed);
+    return track;
+}
+
+/**
+ * Race `brain` alone on `track` until it completes the suite's laps, dies or hits the frame limit.
+ * The PRNG is reseeded from the track's seed for the race and restored afterwards, so a
+ * benchmark run mid-training leaves the training run's random stream untouched.
+ */
+export function runBenchmarkRace(suite: BenchmarkSuite, entry: BenchmarkTrack, track: Track, brain: NamedBrain): BenchmarkRun {
+    const saved = snapshotRng();
+    seedRng(entry.seed);
+
+    const boid = new Boid(track.startPoint.x, track.startPoint.y, track.startAngle);
+    boid.loadBrain(brain.brain);
+    const perLap = track.checkpoints.length;
+    // Laps as the fitness metrics count them: the start line is the first crossing, not a lap's end
+    const laps = () => boid.fitnessMetrics(track).laps;
+    let frames = 0;
+    while (frames < suite.maxFrames && !boid.isDead && laps() < suite.laps) {
+        boid.update(track);
+        frames++;
+    }
+    restoreRng(saved);
+
+    // Boids that run out of life die with life at 0; anything else that died hit a wall
+    const crashed = boid.isDead && boid.life > 0;
+    return {
+        brain: brain.name,
+        track: entry.name,
+        seed: entry.seed,
+        completed: laps() >= suite.laps,
+        laps: laps(),
+        checkpoints: boid.checkpointCount,
+        frames,
+        crashed,
+        crashX: crashed ? Math.round(boid.pos.x) : null,
+        crashY: crashed ? Math.round(boid.pos.y) : null,
+        crashCheckpoint: crashed ? boid.checkpointCount % perLap : null,
+        meanSpeed: boid.frameAge > 0 ? boid.distanceTraveled / boid.frameAge : 0,
+        fitness: boid.fitness,
+    };
+}
+
+/** Run every brain over every track in the suite. */
+export function runBenchmark(suite: BenchmarkSuite, brains: NamedBrain[]): BenchmarkReport {
+    const runs: BenchmarkRun[] = [];
+    for (const entry of suite.tracks) {
+        const track = buildBenchmarkTrack(entry);
+        for (const brain of brains) runs.push(runBenchmarkRace(suite, entry, track, brain));
+    }
+    return createBenchmarkReport(suite, runs);
+}
+
+/** Wrap finished races into a report with one summary per brain, in order of first appearance. */
+export function createBenchmarkReport(suite: BenchmarkSuite, runs: BenchmarkRun[]): BenchmarkReport {
+    const names = [...new Set(runs.map(r => r.brain))];
+    const summaries = names.map(name => {
+        const own = runs.filter(r => r.brain === name);
+        const mean = (f: (r: BenchmarkRun) => number) => own.reduce((s, r) => s + f(r), 0) / own.length;
+        return {
+            brain: name,
+            completionRate: mean(r => (r.completed ? 1 : 0)),
+            meanLaps: mean(r => r.laps),
+            crashRate: mean(r => (r.crashed ? 1 : 0)),
+            meanSpeed: mean(r => r.meanSpeed),
+            meanFitness: mean(r => r.fitness),
+        };
+    });
+    return {
+        suite: suite.id,
+        version: suite.version,
+        laps: suite.laps,
+        maxFrames: suite.maxFrames,
+        createdAt: new Date().toISOString(),
+        summaries,
+        runs,
+    };
+}
+
+/** One CSV row per race, prefixed with the suite id and version. */
+export function benchmarkCSV(report: BenchmarkReport): string {
+    const header = [
+        'suite', 'version', 'brain', 'track', 'seed', 'completed', 'laps', 'checkpoints', 'frames',
+        'crashed', 'crash_x', 'crash_y', 'crash_checkpoint', 'mean_speed', 'fitness',
+    ];
+    const cell = (v: string | number | boolean | null) => {
+        if (v === null) return '';
+        const s = String(v);
+        return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+    };
+    const rows = report.runs.map(r => [
+        report.suite, report.version, r.brain, r.track, r.seed, r.completed, r.laps, r.checkpoints, r.frames,
+        r.crashed, r.crashX, r.crashY, r.crashCheckpoint, r.meanSpeed.toFixed(3), r.fitness.toFixed(1),
+    ].map(cell).join(','));
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
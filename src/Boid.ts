@@ -1,11 +1,29 @@
 // src/Boid.ts
 import { Vector } from './Vector';
-import { getIntersection } from './utils';
+import { getIntersection, clamp01 } from './utils';
 import { Track } from './Track';
-import type { NeuralNetwork } from './brain-js';
-import { random } from './rng';
+import type { NeuralNetworkJSON } from './brain-js';
+import {
+    FeedForwardNetwork, type NetworkArchitecture, DEFAULT_ARCHITECTURE, architectureMismatch, inputsOf,
+    inputsMismatch, savedInputs, sensorsOf, sensorsMismatch, savedSensors,
+} from './Network';
+import { type InputFeature, inputCount, inputLabels, readInputs } from './Inputs';
+import { type SensorConfig, sensorAngles } from './Sensors';
+import { random, randomGaussian } from './rng';
+import { NeatGenome, isNeatGenomeJSON, type NeatGenomeJSON } from './Neat';
+import { PATH_SAMPLES, PATH_SAMPLE_INTERVAL } from './Novelty';
+import type { ObjectiveValues } from './MultiObjective';
+import { type FitnessMetrics, evaluateFitness } from './Fitness';
+import type { BoidOrigin } from './Lineage';
+
+/** Serialised brain of either kind: fixed-topology network (brain.js format) or NEAT genome. */
+export type BrainJSON = NeuralNetworkJSON | NeatGenomeJSON;
 
 export class Boid {
+    static readonly OUTPUTS = 2; // throttle, steering
+    // Hidden layers of every new fixed-topology brain; set when a run starts (see startOptimizer)
+    static architecture: NetworkArchitecture = DEFAULT_ARCHITECTURE;
+
     pos: Vector;
     vel: Vector;
     acc: Vector;
@@ -17,28 +35,49 @@ export class Boid {
 
     isDead: boolean = false;
     fitness: number = 0;
-    distanceTraveled: number = 0; // kept for debug display only, not used in fitness
+    distanceTraveled: number = 0; // not in the default fitness — circling would earn it
     checkpointCount: number = 0;
     frameAge: number = 0; // total frames alive, used for speed bonus
     life: number = 500; // frames to live before dying
-
-    // Sensors config
-    sensorCount: number = 5;
-    sensorRays: Vector[] = [];
-    sensorDistances: number[] = [];
-    sensorAngles: number[] = [
-        -Math.PI / 2, // Left
-        -Math.PI / 4, // Front-Left
-        0,            // Forward
-        Math.PI / 4,  // Front-Right
-        Math.PI / 2   // Right
-    ];
-    sensorLength: number = 100;
-
-    network: NeuralNetwork;
-    lastInputs: number[] = [0, 0, 0, 0, 0];
+    pathSamples: Vector[] = []; // positions every PATH_SAMPLE_INTERVAL frames, for novelty descriptors
+
+    // Continuous progress along the track's centre line, measured from where the boid started
+    progress: number = 0;       // furthest distance reached — backing up doesn't lose it, nor does going back over it earn it twice
+    lapTimes: number[] = [];    // frames taken for each completed lap
+    private travelled: number = 0;    // signed distance along the centre line right now
+    private lastArc: number = 0;      // centre-line position last frame
+    centerSegment: number = -1;       // centre-line segment last frame; -1 until the first update
+    private lapStartFrame: number = 0;
+
+    // Raw measurements behind the multi-objective vector (see MultiObjective.ts)
+    steeringChange: number = 0;      // summed |Δsteering| between consecutive frames
+    minClearance: number = Infinity; // closest any sensor has come to a wall
+    energyUsed: number = 0;          // summed throttle
+    objectives: ObjectiveValues | null = null; // set by the optimizer when the generation's races end
+    lastSteering: number = 0;        // -1 to 1; also last frame's heading change as a fraction of the fastest turn
+
+    // Sensors: rays from the brain's sensor config; noise and dropout come from the run (Boid.architecture)
+    sensors: SensorConfig;
+    sensorRays: Vector[] = [];        // where each ray ends as the brain reads it
+    sensorDistances: number[] = [];   // true distance to the nearest wall along each ray, up to its length
+    sensorReadings: number[] = [];    // sensorDistances with the run's noise and dropout — what the brain is fed
+    private sensorAngles: number[];   // each ray's angle from the heading
+
+    inputs: InputFeature[];      // what the brain is fed, in order (see Inputs.ts)
+    network: FeedForwardNetwork; // its activations from the last decision feed the visualisation; may be recurrent
+    genome: NeatGenome | null = null; // set in NEAT mode — replaces `network` for decisions
+    pilot: ((inputs: number[]) => number[]) | null = null; // drives instead of the brain when set (a person at the keyboard); outputs as the brain's
+    score: number = 0; // selection score assigned by the GA at generation end (fitness after adjustments)
+    mutationSigma: number = 1; // this boid's mutation step size (inherited when the GA self-adapts σ)
+    parentFitness: number = -1; // fitness of the parent it was bred from; -1 for the initial population
+
+    // Genealogy, set by the GA when the boid is bred (see Lineage.ts); genomeId 0 = not tracked
+    genomeId: number = 0;
+    parentIds: number[] = [];
+    origin: BoidOrigin = 'random';
+    birthGeneration: number = 0;
+    lastInputs: number[];
     lastOutputs: number[] = [0, 0];
-    lastHiddenActivations: number[][] = [[0, 0, 0, 0], [0, 0, 0, 0]]; // Store activations for hidden layers
 
     constructor(x: number, y: number, startAngle: number) {
         this.pos = new Vector(x, y);
@@ -47,74 +86,105 @@ export class Boid {
         this.heading = startAngle;
 
         // AI architecture:
-        // Inputs: 5 sensor distances (normalized)
-        // Hidden: 4, 4
+        // Inputs: the features in Boid.architecture (5 sensor distances by default)
+        // Hidden: Boid.architecture
         // Output: 2 (Throttle [0-1], Steering [-1 to 1])
-        this.network = new brain.NeuralNetwork({
-            hiddenLayers: [4, 4],
-            activation: 'sigmoid'
-        });
-
-        // Initialize random weights to make brain.js network 'playable' right away 
-        // Usually brain.js requires training data before it has structure, 
-        // so we fake-train it once with dummy data to build the topology
-        this.network.train([
-            { input: [0, 0, 0, 0, 0], output: [0.5, 0.5] }
-        ], { iterations: 1 });
+        this.network = Boid.createNetwork();
+        this.inputs = this.network.inputs;
+        this.sensors = this.network.sensors;
+        this.sensorAngles = sensorAngles(this.sensors);
+        this.lastInputs = new Array(this.network.sizes[0]).fill(0);
 
         // Scramble weights for genetic evolution
         this.scrambleWeights();
     }
 
+    /** A network with the boids' architecture and every weight zero. */
+    static createNetwork(): FeedForwardNetwork {
+        return FeedForwardNetwork.create(Boid.architecture, Boid.inputCount(), Boid.OUTPUTS);
+    }
+
+    /** Values `arch` (the current architecture by default) feeds a brain. */
+    static inputCount(arch: NetworkArchitecture = Boid.architecture): number {
+        return inputCount(inputsOf(arch), sensorsOf(arch));
+    }
+
+    /** Why a saved brain can't join the current run's population, or null if it can. */
+    static brainMismatch(json: BrainJSON): string | null {
+        if (!isNeatGenomeJSON(json)) return architectureMismatch(json, Boid.architecture, Boid.inputCount(), Boid.OUTPUTS);
+        // NEAT grows its own hidden topology; only what it's fed has to match
+        const features = inputsMismatch(savedInputs(json), inputsOf(Boid.architecture));
+        if (features) return features;
+        const sensors = sensorsMismatch(savedSensors(json), sensorsOf(Boid.architecture));
+        if (sensors) return sensors;
+        if (json.inputCount !== Boid.inputCount()) return `The brain takes ${json.inputCount} inputs, the boids give ${Boid.inputCount()}`;
+        return null;
+    }
+
+    /** Label of each value this boid's brain is fed, for the Debug panel and the network view. */
+    inputLabels(): string[] {
+        return inputLabels(this.inputs, this.sensors);
+    }
+
+    /** Put the boid back on a start line for a new race, keeping its brain but not its memory. */
+    reset(x: number, y: number, startAngle: number) {
+        this.network.resetState();
+        this.pos = new Vector(x, y);
+        this.vel = Vector.fromAngle(startAngle, 0.1);
+        this.acc = new Vector(0, 0);
+        this.heading = startAngle;
+        this.isDead = false;
+        this.fitness = 0;
+        this.distanceTraveled = 0;
+        this.checkpointCount = 0;
+        this.frameAge = 0;
+        this.life = 500;
+        this.pathSamples = [];
+        this.progress = 0;
+        this.lapTimes = [];
+        this.travelled = 0;
+        this.lastArc = 0;
+        this.centerSegment = -1;
+        this.lapStartFrame = 0;
+        this.steeringChange = 0;
+        this.minClearance = Infinity;
+        this.energyUsed = 0;
+        this.lastSteering = 0;
+    }
+
     scrambleWeights() {
-        const json = this.network.toJSON();
-        for (let i = 0; i < json.layers.length; i++) {
-            const layer = json.layers[i];
-            if (!layer.weights) continue;
-            for (let j = 0; j < layer.weights.length; j++) {
-                for (let k = 0; k < layer.weights[j].length; k++) {
-                    // Random weights between -2 and 2
-                    layer.weights[j][k] = (random() * 4) - 2;
-                }
-            }
-            if (layer.biases) {
-                for (let j = 0; j < layer.biases.length; j++) {
-                    layer.biases[j] = (random() * 4) - 2;
-                }
-            }
+        const { genome } = this.network;
+        for (let i = 0; i < genome.length; i++) {
+            // Random weights and biases between -2 and 2
+            genome[i] = (random() * 4) - 2;
         }
-        this.network.fromJSON(json);
+    }
+
+    /** Serialise whichever brain drives this boid, with the sensors it drives with now. */
+    brainJSON(): BrainJSON {
+        const { noise, dropout } = sensorsOf(Boid.architecture);
+        const sensors = { ...this.sensors, noise, dropout };
+        return this.genome
+            ? { ...this.genome.toJSON(), inputs: [...this.inputs], sensors }
+            : { ...this.network.toJSON(), sensors };
     }
 
     /**
-     * Calculate hidden layer activations manually for visualization
-     * brain.js: layers[0] is input placeholder, layers[1] is first hidden
+     * Load a serialised brain; NEAT genomes replace the fixed-topology network for decisions.
+     * The boid feeds it what it was saved with, through the sensor rays it was trained on.
      */
-    calculateHiddenActivations(inputs: number[]): void {
-        const json = this.network.toJSON();
-        let currentActivations = inputs;
-        
-        // Skip layer 0 (input placeholder), start from layer 1
-        for (let i = 1; i < json.layers.length; i++) {
-            const layer = json.layers[i];
-            if (!layer.weights) continue;
-            
-            const newActivations: number[] = [];
-            for (let j = 0; j < layer.weights.length; j++) {
-                let sum = layer.biases ? (layer.biases[j] || 0) : 0;
-                for (let k = 0; k < currentActivations.length; k++) {
-                    sum += (layer.weights[j][k] || 0) * currentActivations[k];
-                }
-                // Sigmoid activation
-                newActivations.push(1 / (1 + Math.exp(-sum)));
-            }
-            currentActivations = newActivations;
-            
-            // Store activations for hidden layers (skip output layer which is last)
-            if (i < json.layers.length - 1) {
-                this.lastHiddenActivations[i - 1] = newActivations;
-            }
+    loadBrain(json: BrainJSON) {
+        if (isNeatGenomeJSON(json)) {
+            this.genome = NeatGenome.fromJSON(json);
+            this.inputs = savedInputs(json);
+            this.sensors = savedSensors(json);
+        } else {
+            this.genome = null;
+            this.network = FeedForwardNetwork.fromJSON(json);
+            this.inputs = this.network.inputs;
+            this.sensors = this.network.sensors;
         }
+        this.sensorAngles = sensorAngles(this.sensors);
     }
 
     update(track: Track) {
@@ -124,20 +194,25 @@ export class Boid {
         this.checkCollisions(track);
 
         if (this.isDead) return;
+        this.minClearance = Math.min(this.minClearance, ...this.sensorDistances);
 
         // AI Decision
-        // Normalize inputs into [0, 1] (0 = touching, 1 = max clearance)
-        const normalizedInputs = this.sensorDistances.map(d => d / this.sensorLength);
-        this.lastInputs = normalizedInputs;
-        const output = this.network.run(normalizedInputs) as number[];
+        // Each input feature scales its values to about [0, 1] or [-1, 1] (see Inputs.ts)
+        const inputs = readInputs(this.inputs, this, track);
+        this.lastInputs = inputs;
+        const output = this.pilot
+            ? this.pilot(inputs)
+            : this.genome
+                ? this.genome.run(inputs)
+                : this.network.run(inputs);
         this.lastOutputs = output;
-        
-        // Calculate hidden layer activations for visualization
-        this.calculateHiddenActivations(normalizedInputs);
 
-        // Outputs from sigmoid are 0 to 1
-        const throttle = output[0];                     // 0 to 1
-        const steering = (output[1] * 2) - 1;           // mapped to -1 to 1
+        // Outputs are read as 0 to 1; activations other than sigmoid can leave that range
+        const throttle = clamp01(output[0]);            // 0 to 1
+        const steering = (clamp01(output[1]) * 2) - 1;  // mapped to -1 to 1
+        if (this.frameAge > 0) this.steeringChange += Math.abs(steering - this.lastSteering);
+        this.lastSteering = steering;
+        this.energyUsed += throttle;
 
         // Apply steering
         this.heading += steering * 0.1;
@@ -164,15 +239,60 @@ export class Boid {
 
         this.checkCheckpoints(track, prevPos);
         this.frameAge++;
-        this.distanceTraveled += this.vel.mag(); // tracked for debug only
-
-        // Fitness: checkpoints are the primary driver (ordered — can't game by going backwards).
-        // Speed bonus rewards reaching checkpoints quickly; no raw distance so spinning in place
-        // or circling earns nothing.
-        const speedBonus = this.checkpointCount > 0
-            ? (this.checkpointCount / this.frameAge) * 10000
-            : 0;
-        this.fitness = (this.checkpointCount * 1000) + speedBonus;
+        this.updateProgress(track, prevPos);
+        if (this.frameAge % PATH_SAMPLE_INTERVAL === 0 && this.pathSamples.length < PATH_SAMPLES) {
+            this.pathSamples.push(new Vector(this.pos.x, this.pos.y));
+        }
+        this.distanceTraveled += this.vel.mag();
+
+        this.fitness = evaluateFitness(this.fitnessMetrics(track));
+    }
+
+    /** The values a fitness definition can read (see Fitness.ts). */
+    fitnessMetrics(track: Track): FitnessMetrics {
+        const perLap = track.checkpoints.length;
+        return {
+            checkpointCount: this.checkpointCount,
+            checkpointsPerLap: perLap,
+            // The start line is the first crossing, so a lap is done on returning to it
+            laps: perLap > 0 ? Math.floor(Math.max(0, this.checkpointCount - 1) / perLap) : 0,
+            frameAge: this.frameAge,
+            distanceTraveled: this.distanceTraveled,
+            progress: this.progress,
+            lapProgress: track.lapLength > 0 ? this.progress / track.lapLength : 0,
+            bestLapTime: this.lapTimes.length > 0 ? Math.min(...this.lapTimes) : 0,
+            life: this.life,
+            energyUsed: this.energyUsed,
+        };
+    }
+
+    /**
+     * Advance `progress` by how far the boid moved along the centre line this frame.
+     * The arc position wraps at the start of the centre line, so a step of more than half a lap
+     * is taken to be the wrap rather than a real jump.
+     */
+    updateProgress(track: Track, prevPos: Vector) {
+        const lap = track.lapLength;
+        if (lap <= 0) return;
+        if (this.centerSegment < 0) {
+            const start = track.projectOntoCenterLine(prevPos);
+            this.centerSegment = start.segment;
+            this.lastArc = start.arc;
+        }
+        const now = track.projectOntoCenterLine(this.pos, this.centerSegment);
+        let delta = now.arc - this.lastArc;
+        if (delta > lap / 2) delta -= lap;
+        else if (delta < -lap / 2) delta += lap;
+        this.travelled += delta;
+        this.lastArc = now.arc;
+        this.centerSegment = now.segment;
+
+        if (this.travelled <= this.progress) return;
+        this.progress = this.travelled;
+        while (this.progress >= (this.lapTimes.length + 1) * lap) {
+            this.lapTimes.push(this.frameAge - this.lapStartFrame);
+            this.lapStartFrame = this.frameAge;
+        }
     }
 
     checkCheckpoints(track: Track, prevPos: Vector) {
@@ -192,35 +312,40 @@ export class Boid {
     updateSensors(track: Track) {
         this.sensorRays = [];
         this.sensorDistances = [];
+        this.sensorReadings = [];
 
         const allWalls = [...track.innerWalls, ...track.outerWalls];
+        const { lengths } = this.sensors;
+        const { noise, dropout } = sensorsOf(Boid.architecture);
 
-        for (let i = 0; i < this.sensorCount; i++) {
+        for (let i = 0; i < this.sensorAngles.length; i++) {
             const angle = this.heading + this.sensorAngles[i];
-            const dir = Vector.fromAngle(angle, this.sensorLength);
+            const length = lengths[i];
+            const dir = Vector.fromAngle(angle, length);
             // Non-mutating addition to get the ray end point
             const rayEnd = new Vector(this.pos.x + dir.x, this.pos.y + dir.y);
 
-            let closestIntersect = null;
-            let recordDist = this.sensorLength;
+            let recordDist = length;
 
             for (const wall of allWalls) {
                 const intersection = getIntersection(this.pos, rayEnd, wall[0], wall[1]);
                 if (intersection) {
                     const d = this.pos.dist(new Vector(intersection.x, intersection.y));
-                    if (d < recordDist) {
-                        recordDist = d;
-                        closestIntersect = new Vector(intersection.x, intersection.y);
-                    }
+                    if (d < recordDist) recordDist = d;
                 }
             }
 
-            this.sensorDistances.push(recordDist);
-            if (closestIntersect) {
-                this.sensorRays.push(closestIntersect);
-            } else {
-                this.sensorRays.push(rayEnd);
+            // Only draw from the PRNG when the run corrupts readings, so clean runs replay as before
+            let reading = recordDist;
+            if (dropout > 0 && random() < dropout) {
+                reading = length; // a dropped ray sees nothing
+            } else if (noise > 0) {
+                reading = Math.min(length, Math.max(0, reading + randomGaussian() * noise * length));
             }
+
+            this.sensorDistances.push(recordDist);
+            this.sensorReadings.push(reading);
+            this.sensorRays.push(Vector.fromAngle(angle, reading).add(this.pos));
         }
     }
 
@@ -248,14 +373,14 @@ export class Boid {
         }
     }
 
-    draw(ctx: CanvasRenderingContext2D, drawSensors: boolean = false) {
+    draw(ctx: CanvasRenderingContext2D, drawSensors: boolean = false, color?: string) {
         if (this.isDead) return;
 
         if (drawSensors) {
             ctx.lineWidth = 1;
             for (let i = 0; i < this.sensorRays.length; i++) {
                 // Gradient color: Red if close, Green if far
-                const ratio = this.sensorDistances[i] / this.sensorLength;
+                const ratio = this.sensorReadings[i] / this.sensors.lengths[i];
                 const r = Math.floor(255 * (1 - ratio));
                 const g = Math.floor(255 * ratio);
                 ctx.strokeStyle = `rgba(${r}, ${g}, 0, 0.5)`;
@@ -270,7 +395,7 @@ export class Boid {
         ctx.translate(this.pos.x, this.pos.y);
         ctx.rotate(this.heading);
 
-        ctx.fillStyle = drawSensors ? '#00ff00' : 'rgba(200, 200, 200, 0.5)';
+        ctx.fillStyle = color ?? (drawSensors ? '#00ff00' : 'rgba(200, 200, 200, 0.5)');
         ctx.beginPath();
         ctx.moveTo(this.radius, 0);                 // nose
         ctx.lineTo(-this.radius, -this.radius / 1.5); // left rear
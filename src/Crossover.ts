@@ -0,0 +1,115 @@
+// src/Crossover.ts
+// Crossover operators on the genomes of fixed-topology networks, looked up by kind in CROSSOVER_OPERATORS.
+// NEAT genomes keep their own innovation-aligned crossover (Neat.ts); only crossoverProbability applies to them.
+
+import type { FeedForwardNetwork } from './Network';
+import { random } from './rng';
+
+export type CrossoverKind = 'arithmetic' | 'uniform' | 'n-point' | 'neuron' | 'sbx';
+
+export const CROSSOVER_LABELS: Record<CrossoverKind, string> = {
+    'arithmetic': 'Arithmetic blend',
+    'uniform': 'Uniform',
+    'n-point': 'N-point',
+    'neuron': 'Neuron-wise',
+    'sbx': 'SBX',
+};
+
+/** Serializable crossover choice + parameters (kept in SimState). */
+export interface CrossoverSettings {
+    kind: CrossoverKind;
+    probability: number; // chance a child is a crossover; otherwise it's a mutated clone of one parent
+    points: number;      // n-point: cut points along the flattened genome
+    sbxEta: number;      // SBX distribution index — higher keeps children closer to their parents
+}
+
+export const DEFAULT_CROSSOVER: CrossoverSettings = {
+    kind: 'arithmetic',
+    probability: 1,
+    points: 2,
+    sbxEta: 15,
+};
+
+export type CrossoverOperator = (
+    parent1: FeedForwardNetwork,
+    parent2: FeedForwardNetwork,
+    settings: CrossoverSettings,
+) => Float32Array;
+
+/**
+ * Per-gene arithmetic crossover with a random blend factor:
+ * child = p1 * blend + p2 * (1 - blend).
+ */
+const arithmetic: CrossoverOperator = (parent1, parent2) => {
+    const p2 = parent2.genome;
+    return parent1.genome.map((w, i) => {
+        const blend = random();
+        return w * blend + p2[i] * (1 - blend);
+    });
+};
+
+/** Each gene is copied unchanged from either parent with equal chance. */
+const uniform: CrossoverOperator = (parent1, parent2) => {
+    const p2 = parent2.genome;
+    return parent1.genome.map((w, i) => (random() < 0.5 ? w : p2[i]));
+};
+
+/**
+ * `points` distinct cut points along the genome; the child copies
+ * alternating segments from each parent, starting with parent1.
+ */
+const nPoint: CrossoverOperator = (parent1, parent2, settings) => {
+    const p1 = parent1.genome;
+    const p2 = parent2.genome;
+    const cuts = new Set<number>();
+    const count = Math.min(Math.max(1, Math.round(settings.points)), p1.length - 1);
+    while (cuts.size < count) cuts.add(1 + Math.floor(random() * (p1.length - 1)));
+
+    let fromFirst = true;
+    return p1.map((w, i) => {
+        if (cuts.has(i)) fromFirst = !fromFirst;
+        return fromFirst ? w : p2[i];
+    });
+};
+
+/**
+ * Whole-neuron crossover: each neuron's parameters — incoming weights, bias, and any recurrent
+ * weights and gates — are inherited together from one parent, so co-adapted weights stay intact.
+ */
+const neuron: CrossoverOperator = (parent1, parent2) => {
+    const child = parent1.genome.slice();
+    const { sizes } = parent1;
+    for (let l = 1; l < sizes.length; l++) {
+        for (let j = 0; j < sizes[l]; j++) {
+            if (random() < 0.5) continue;
+            const p = parent1.neuronOffset(l, j);
+            child.set(parent2.genome.subarray(p, p + parent1.neuronSpan(l)), p);
+        }
+    }
+    return child;
+};
+
+/**
+ * Simulated binary crossover (Deb & Agrawal), unbounded form. Each gene is spread
+ * around the parents' pair with a polynomial distribution controlled by `sbxEta`.
+ */
+const sbx: CrossoverOperator = (parent1, parent2, settings) => {
+    const p2 = parent2.genome;
+    const exponent = 1 / (settings.sbxEta + 1);
+    return parent1.genome.map((x1, i) => {
+        const x2 = p2[i];
+        if (random() < 0.5) return x1;
+        const u = random();
+        const beta = u <= 0.5 ? Math.pow(2 * u, exponent) : Math.pow(1 / (2 * (1 - u)), exponent);
+        const sign = random() < 0.5 ? 1 : -1;
+        return 0.5 * ((x1 + x2) + sign * beta * (x1 - x2));
+    });
+};
+
+export const CROSSOVER_OPERATORS: Record<CrossoverKind, CrossoverOperator> = {
+    'arithmetic': arithmetic,
+    'uniform': uniform,
+    'n-point': nPoint,
+    'neuron': neuron,
+    'sbx': sbx,
+};
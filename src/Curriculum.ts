@@ -0,0 +1,86 @@
+// src/Curriculum.ts
+// Curriculum learning: train on easy tracks first and move to harder track shapes once enough
+// of the population completes a lap; step back down when the population collapses.
+
+import { type TrackParams, TRACK_PRESETS } from './Track';
+
+export interface CurriculumStage {
+    name: string;
+    params: TrackParams;
+}
+
+export interface CurriculumSettings {
+    enabled: boolean;
+    stages: CurriculumStage[];      // easiest first
+    successRate: number;            // share of the population that must complete a lap (0–1)
+    successGenerations: number;     // consecutive generations at that rate before moving up
+    collapseRate: number;           // lap share counted as a collapse (0–1)
+    collapseGenerations: number;    // consecutive collapsed generations before stepping back
+}
+
+export const DEFAULT_CURRICULUM_STAGES: CurriculumStage[] = [
+    { name: 'Wide oval', params: { ...TRACK_PRESETS.oval, trackWidth: 200 } },
+    { name: 'Oval', params: TRACK_PRESETS.oval },
+    { name: 'Flowing', params: { numControlPoints: 10, radiusVariance: 0.3, cornerTightness: 0.15, trackWidth: 130, segmentsPerCurve: 15 } },
+    { name: 'F1', params: TRACK_PRESETS.f1 },
+    { name: 'Technical', params: TRACK_PRESETS.technical },
+];
+
+export const DEFAULT_CURRICULUM: CurriculumSettings = {
+    enabled: false,
+    stages: DEFAULT_CURRICULUM_STAGES,
+    successRate: 0.3,
+    successGenerations: 3,
+    collapseRate: 0.02,
+    collapseGenerations: 15,
+};
+
+/** Which way the curriculum moved after a generation, if at all. */
+export type CurriculumChange = 'advance' | 'retreat' | null;
+
+export class Curriculum {
+    settings: CurriculumSettings;
+    stage: number = 0;
+    racedStage: number = 0; // stage the last observed generation was raced on
+    successStreak: number = 0;  // consecutive generations at the success rate
+    collapseStreak: number = 0; // consecutive generations below the collapse rate
+
+    constructor(settings: CurriculumSettings) {
+        this.settings = settings;
+    }
+
+    get current(): CurriculumStage {
+        return this.settings.stages[this.stage];
+    }
+
+    /** Jump to `stage` (clamped to the schedule) with fresh success/collapse counts. */
+    setStage(stage: number) {
+        this.stage = Math.max(0, Math.min(this.settings.stages.length - 1, stage));
+        this.racedStage = this.stage;
+        this.successStreak = 0;
+        this.collapseStreak = 0;
+    }
+
+    /**
+     * Feed one finished generation's lap share. Moves up a stage after `successGenerations`
+     * generations in a row at `successRate`, and back down after `collapseGenerations`
+     * generations in a row below `collapseRate` (never below the first stage).
+     */
+    observe(lapRate: number): CurriculumChange {
+        const s = this.settings;
+        const raced = this.stage;
+        this.successStreak = lapRate >= s.successRate ? this.successStreak + 1 : 0;
+        this.collapseStreak = lapRate < s.collapseRate ? this.collapseStreak + 1 : 0;
+
+        let change: CurriculumChange = null;
+        if (this.successStreak >= s.successGenerations && this.stage < s.stages.length - 1) {
+            this.setStage(this.stage + 1);
+            change = 'advance';
+        } else if (this.collapseStreak >= s.collapseGenerations && this.stage > 0) {
+            this.setStage(this.stage - 1);
+            change = 'retreat';
+        }
+        this.racedStage = raced;
+        return change;
+    }
+}
@@ -0,0 +1,331 @@
+// src/EvolutionStrategies.ts
+// Evolution strategies over the genome (flat weight vector) of the fixed-topology brain:
+// CMA-ES (full covariance + cumulative step-size adaptation) and OpenAI-style ES
+// (antithetic sampling, centred-rank reward shaping, Adam updates).
+
+import { Boid, type BrainJSON } from './Boid';
+import { FeedForwardNetwork } from './Network';
+import { isNeatGenomeJSON } from './Neat';
+import { Optimizer } from './Optimizer';
+import { randomGaussian } from './rng';
+
+/**
+ * Shared plumbing for optimizers that search ℝⁿ around a mean vector:
+ * each boid drives one candidate vector, `breed` updates the distribution
+ * from their fitness and samples the next set of candidates.
+ */
+abstract class WeightVectorOptimizer extends Optimizer {
+    mean: number[];
+    protected candidates: number[][] = [];
+    abstract sigma: number;
+
+    constructor(size: number) {
+        super(size);
+        const probe = new Boid(0, 0, 0);
+
+        // ES runs always evolve the fixed-topology network; a saved NEAT genome can't seed them
+        const saved = this.loadSavedBrain();
+        this.mean = saved && !isNeatGenomeJSON(saved)
+            ? Array.from(FeedForwardNetwork.fromJSON(saved).genome)
+            : Array.from(probe.network.genome);
+    }
+
+    get dimension(): number {
+        return this.mean.length;
+    }
+
+    /** Create one boid per candidate vector at the start line. */
+    protected spawn(x: number, y: number, angle: number): Boid[] {
+        return this.candidates.map(vec => {
+            const boid = new Boid(x, y, angle);
+            boid.network.genome.set(vec);
+            return boid;
+        });
+    }
+
+    /**
+     * Draw a fresh set of candidates around the mean. With `centreFirst` the
+     * first one gets a zero step, so it drives the mean itself.
+     */
+    protected abstract sample(centreFirst?: boolean): void;
+
+    /** The global step size σ — candidates are mean + σ·noise. */
+    mutationStrength(): number {
+        return this.sigma;
+    }
+
+    /**
+     * Imported brains recentre the search distribution as well as driving boid 0.
+     * The whole sample is redrawn around the new mean, so the next update only
+     * sees steps the boids actually took.
+     */
+    seedBrain(json: BrainJSON) {
+        super.seedBrain(json);
+        if (isNeatGenomeJSON(json)) return;
+        this.mean = Array.from(FeedForwardNetwork.fromJSON(json).genome);
+        this.sample(true);
+        this.boids.forEach((boid, i) => boid.network.genome.set(this.candidates[i]));
+    }
+}
+
+// ── CMA-ES ───────────────────────────────────────────────────────────────────
+
+export class CmaEs extends WeightVectorOptimizer {
+    readonly kind = 'cmaes';
+    sigma: number = 0.5; // global step size
+
+    private readonly n: number;
+    private readonly mu: number;
+    private readonly weights: number[];
+    private readonly mueff: number;
+    private readonly cc: number;
+    private readonly cs: number;
+    private readonly c1: number;
+    private readonly cmu: number;
+    private readonly damps: number;
+    private readonly chiN: number;
+
+    private C: number[][];
+    private B: number[][];
+    private D: number[];
+    private pc: number[];
+    private ps: number[];
+    private steps: number[][] = []; // y = B·D·z of each candidate, reused in the update
+    private updates = 0;
+
+    constructor(size: number, startX: number, startY: number, startAngle: number) {
+        super(size);
+        const n = this.n = this.dimension;
+
+        // Recombination weights (Hansen's defaults)
+        this.mu = Math.floor(size / 2);
+        const raw = Array.from({ length: this.mu }, (_, i) => Math.log(this.mu + 0.5) - Math.log(i + 1));
+        const sum = raw.reduce((a, b) => a + b, 0);
+        this.weights = raw.map(w => w / sum);
+        this.mueff = 1 / this.weights.reduce((a, w) => a + w * w, 0);
+
+        // Adaptation rates
+        this.cc = (4 + this.mueff / n) / (n + 4 + 2 * this.mueff / n);
+        this.cs = (this.mueff + 2) / (n + this.mueff + 5);
+        this.c1 = 2 / ((n + 1.3) ** 2 + this.mueff);
+        this.cmu = Math.min(1 - this.c1, 2 * (this.mueff - 2 + 1 / this.mueff) / ((n + 2) ** 2 + this.mueff));
+        this.damps = 1 + 2 * Math.max(0, Math.sqrt((this.mueff - 1) / (n + 1)) - 1) + this.cs;
+        this.chiN = Math.sqrt(n) * (1 - 1 / (4 * n) + 1 / (21 * n * n));
+
+        this.C = identity(n);
+        this.B = identity(n);
+        this.D = new Array(n).fill(1);
+        this.pc = new Array(n).fill(0);
+        this.ps = new Array(n).fill(0);
+
+        this.sample();
+        this.boids = this.spawn(startX, startY, startAngle);
+    }
+
+    /** x_i = m + σ·B·D·z_i,  z_i ~ N(0, I) */
+    protected sample(centreFirst = false) {
+        this.steps = [];
+        this.candidates = [];
+        for (let i = 0; i < this.populationSize; i++) {
+            const y = centreFirst && i === 0
+                ? new Array(this.n).fill(0)
+                : matVec(this.B, this.D.map(d => d * randomGaussian()));
+            this.steps.push(y);
+            this.candidates.push(this.mean.map((m, k) => m + this.sigma * y[k]));
+        }
+    }
+
+    protected breed(x: number, y: number, angle: number): Boid[] {
+        const n = this.n;
+        const order = this.boids
+            .map((b, i) => ({ i, f: b.fitness }))
+            .sort((a, b) => b.f - a.f)
+            .slice(0, this.mu)
+            .map(e => e.i);
+
+        // Weighted mean step of the μ best
+        const yw = new Array(n).fill(0);
+        order.forEach((idx, r) => {
+            for (let k = 0; k < n; k++) yw[k] += this.weights[r] * this.steps[idx][k];
+        });
+        for (let k = 0; k < n; k++) this.mean[k] += this.sigma * yw[k];
+
+        // Evolution paths: ps uses C^(-1/2)·yw = B·D⁻¹·Bᵀ·yw
+        const bty = matTVec(this.B, yw);
+        const invSqrtCy = matVec(this.B, bty.map((v, k) => v / this.D[k]));
+        const csNorm = Math.sqrt(this.cs * (2 - this.cs) * this.mueff);
+        for (let k = 0; k < n; k++) this.ps[k] = (1 - this.cs) * this.ps[k] + csNorm * invSqrtCy[k];
+
+        this.updates++;
+        const psNorm = Math.sqrt(this.ps.reduce((a, v) => a + v * v, 0));
+        const hsig = psNorm / Math.sqrt(1 - (1 - this.cs) ** (2 * this.updates)) / this.chiN
+            < 1.4 + 2 / (n + 1) ? 1 : 0;
+        const ccNorm = Math.sqrt(this.cc * (2 - this.cc) * this.mueff);
+        for (let k = 0; k < n; k++) this.pc[k] = (1 - this.cc) * this.pc[k] + hsig * ccNorm * yw[k];
+
+        // Covariance: rank-one (pc) + rank-μ (selected steps)
+        const keep = 1 - this.c1 - this.cmu;
+        const hsigFix = (1 - hsig) * this.cc * (2 - this.cc);
+        for (let a = 0; a < n; a++) {
+            for (let b = 0; b <= a; b++) {
+                let rankMu = 0;
+                order.forEach((idx, r) => { rankMu += this.weights[r] * this.steps[idx][a] * this.steps[idx][b]; });
+                const v = keep * this.C[a][b]
+                    + this.c1 * (this.pc[a] * this.pc[b] + hsigFix * this.C[a][b])
+                    + this.cmu * rankMu;
+                this.C[a][b] = v;
+                this.C[b][a] = v;
+            }
+        }
+
+        // Cumulative step-size adaptation
+        this.sigma *= Math.exp((this.cs / this.damps) * (psNorm / this.chiN - 1));
+        this.sigma = Math.min(10, Math.max(1e-8, this.sigma));
+
+        const { values, vectors } = symmetricEigen(this.C);
+        this.B = vectors;
+        this.D = values.map(v => Math.sqrt(Math.max(v, 1e-20)));
+
+        this.sample();
+        return this.spawn(x, y, angle);
+    }
+}
+
+// ── OpenAI-ES ────────────────────────────────────────────────────────────────
+
+export class OpenAiEs extends WeightVectorOptimizer {
+    readonly kind = 'openai-es';
+    sigma: number = 0.1;          // perturbation scale
+    learningRate: number = 0.03;  // Adam step size
+    weightDecay: number = 0.005;  // L2 pull toward zero
+
+    private noise: number[][] = [];  // one ε per antithetic pair
+    private m: number[];
+    private v: number[];
+    private step = 0;
+
+    constructor(size: number, startX: number, startY: number, startAngle: number) {
+        super(size);
+        this.m = new Array(this.dimension).fill(0);
+        this.v = new Array(this.dimension).fill(0);
+        this.sample();
+        this.boids = this.spawn(startX, startY, startAngle);
+    }
+
+    /**
+     * Antithetic pairs θ + σε, θ − σε. With an odd population the last boid
+     * drives the unperturbed mean, which shows how the mean itself performs.
+     * `centreFirst` zeroes the first pair's ε, putting its two boids on the mean.
+     */
+    protected sample(centreFirst = false) {
+        const pairs = Math.floor(this.populationSize / 2);
+        this.noise = [];
+        this.candidates = [];
+        for (let p = 0; p < pairs; p++) {
+            const eps = this.mean.map(() => (centreFirst && p === 0 ? 0 : randomGaussian()));
+            this.noise.push(eps);
+            this.candidates.push(this.mean.map((m, k) => m + this.sigma * eps[k]));
+            this.candidates.push(this.mean.map((m, k) => m - this.sigma * eps[k]));
+        }
+        if (this.populationSize % 2 === 1) this.candidates.push([...this.mean]);
+    }
+
+    protected breed(x: number, y: number, angle: number): Boid[] {
+        const perturbed = this.noise.length * 2;
+        const shaped = centredRanks(this.boids.slice(0, perturbed).map(b => b.fitness));
+
+        // ĝ = 1/(Nσ) Σ (F⁺ − F⁻)·ε
+        const n = this.dimension;
+        const grad = new Array(n).fill(0);
+        this.noise.forEach((eps, p) => {
+            const diff = shaped[2 * p] - shaped[2 * p + 1];
+            for (let k = 0; k < n; k++) grad[k] += diff * eps[k];
+        });
+        for (let k = 0; k < n; k++) {
+            grad[k] = grad[k] / (perturbed * this.sigma) - this.weightDecay * this.mean[k];
+        }
+
+        // Adam ascent step
+        const b1 = 0.9, b2 = 0.999;
+        this.step++;
+        for (let k = 0; k < n; k++) {
+            this.m[k] = b1 * this.m[k] + (1 - b1) * grad[k];
+            this.v[k] = b2 * this.v[k] + (1 - b2) * grad[k] * grad[k];
+            const mHat = this.m[k] / (1 - b1 ** this.step);
+            const vHat = this.v[k] / (1 - b2 ** this.step);
+            this.mean[k] += this.learningRate * mHat / (Math.sqrt(vHat) + 1e-8);
+        }
+
+        this.sample();
+        return this.spawn(x, y, angle);
+    }
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Ranks mapped to [-0.5, 0.5] (best = 0.5), so only fitness order matters. */
+function centredRanks(values: number[]): number[] {
+    const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+    const ranks = new Array(values.length).fill(0);
+    const denom = Math.max(1, values.length - 1);
+    order.forEach((e, r) => { ranks[e.i] = r / denom - 0.5; });
+    return ranks;
+}
+
+function identity(n: number): number[][] {
+    return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)));
+}
+
+function matVec(M: number[][], v: number[]): number[] {
+    return M.map(row => row.reduce((s, m, k) => s + m * v[k], 0));
+}
+
+function matTVec(M: number[][], v: number[]): number[] {
+    const out = new Array(M[0].length).fill(0);
+    for (let i = 0; i < M.length; i++) {
+        for (let k = 0; k < out.length; k++) out[k] += M[i][k] * v[i];
+    }
+    return out;
+}
+
+/**
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations.
+ * Returns eigenvalues and the matrix whose columns are the eigenvectors.
+ */
+function symmetricEigen(S: number[][]): { values: number[]; vectors: number[][] } {
+    const n = S.length;
+    const A = S.map(row => [...row]);
+    const V = identity(n);
+
+    for (let sweep = 0; sweep < 50; sweep++) {
+        let off = 0;
+        for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += A[p][q] * A[p][q];
+        if (off < 1e-18) break;
+
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (Math.abs(A[p][q]) < 1e-15) continue;
+                const theta = (A[q][q] - A[p][p]) / (2 * A[p][q]);
+                const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+                for (let k = 0; k < n; k++) {
+                    const akp = A[k][p], akq = A[k][q];
+                    A[k][p] = c * akp - s * akq;
+                    A[k][q] = s * akp + c * akq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = A[p][k], aqk = A[q][k];
+                    A[p][k] = c * apk - s * aqk;
+                    A[q][k] = s * apk + c * aqk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = V[k][p], vkq = V[k][q];
+                    V[k][p] = c * vkp - s * vkq;
+                    V[k][q] = s * vkp + c * vkq;
+                }
+            }
+        }
+    }
+    return { values: A.map((row, i) => row[i]), vectors: V };
+}
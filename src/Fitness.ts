@@ -0,0 +1,261 @@
+// src/Fitness.ts
+// Fitness function registry: built-in formulas plus user-written expressions over per-boid metrics.
+// Expressions are parsed by a small arithmetic parser — never eval'd — so they can only read the
+// metrics below and call the whitelisted math functions.
+
+/** Per-boid values a fitness function can read, refreshed every frame by Boid.update. */
+export interface FitnessMetrics {
+    checkpointCount: number;    // checkpoints crossed in order (the start line counts as the first)
+    checkpointsPerLap: number;
+    laps: number;               // completed laps
+    frameAge: number;           // frames alive
+    distanceTraveled: number;   // path length driven, including wiggles
+    progress: number;           // furthest distance reached along the centre line (continuous)
+    lapProgress: number;        // progress in laps, e.g. 1.5 = halfway round the second lap
+    bestLapTime: number;        // frames for the fastest completed lap; 0 until one is done
+    life: number;               // frames left before starving (refilled at each checkpoint)
+    energyUsed: number;         // summed throttle
+}
+
+export const FITNESS_METRICS: Record<keyof FitnessMetrics, string> = {
+    checkpointCount: 'checkpoints crossed',
+    checkpointsPerLap: 'checkpoints in one lap',
+    laps: 'completed laps',
+    frameAge: 'frames alive',
+    distanceTraveled: 'path length driven',
+    progress: 'distance along the centre line',
+    lapProgress: 'progress in laps',
+    bestLapTime: 'fastest lap in frames (0 = none yet)',
+    life: 'frames left to live',
+    energyUsed: 'summed throttle',
+};
+
+/** Earlier names of metrics, so expressions in older sessions keep compiling. Not offered in the editor. */
+const METRIC_ALIASES: Record<string, keyof FitnessMetrics> = {
+    centerlineDistance: 'progress', // the centre-line distance, before it became continuous progress
+};
+
+export type FitnessFunction = (m: FitnessMetrics) => number;
+
+export type FitnessKind = 'checkpoint-speed' | 'lap-time' | 'centerline' | 'survival' | 'custom';
+
+export const FITNESS_LABELS: Record<FitnessKind, string> = {
+    'checkpoint-speed': 'Checkpoints + speed',
+    'lap-time': 'Lap time',
+    'centerline': 'Centre-line progress',
+    'survival': 'Survival time',
+    'custom': 'Custom expression',
+};
+
+export function isFitnessKind(value: unknown): value is FitnessKind {
+    return typeof value === 'string' && Object.hasOwn(FITNESS_LABELS, value);
+}
+
+/** Serializable fitness choice (kept in SimState and saved sessions). */
+export interface FitnessSettings {
+    kind: FitnessKind;
+    expression: string; // 'custom' only
+}
+
+export const DEFAULT_FITNESS: FitnessSettings = {
+    kind: 'checkpoint-speed',
+    expression: 'checkpointCount * 1000 + distanceTraveled / max(1, frameAge) * 100',
+};
+
+export const BUILTIN_FITNESS: Record<Exclude<FitnessKind, 'custom'>, FitnessFunction> = {
+    // Checkpoints are the primary driver (ordered — can't game by going backwards).
+    // Speed bonus rewards reaching checkpoints quickly; no raw distance so spinning in place
+    // or circling earns nothing.
+    'checkpoint-speed': m => m.checkpointCount * 1000
+        + (m.checkpointCount > 0 ? (m.checkpointCount / m.frameAge) * 10000 : 0),
+    // Progress until the first lap, then a bonus that grows as the mean lap time shrinks
+    'lap-time': m => m.checkpointCount * 1000
+        + (m.laps > 0 ? 1e7 / (m.frameAge / m.laps) : 0),
+    // Continuous, so boids that die between two checkpoints still rank by how far they got
+    'centerline': m => m.progress,
+    'survival': m => m.frameAge,
+};
+
+let active: FitnessFunction = BUILTIN_FITNESS['checkpoint-speed'];
+let activeSettings: FitnessSettings = DEFAULT_FITNESS;
+
+/**
+ * Make `settings` the fitness every boid computes from now on.
+ * Throws with a readable message if a custom expression doesn't parse — the active function is then unchanged.
+ */
+export function setFitness(settings: FitnessSettings) {
+    active = settings.kind === 'custom'
+        ? compileFitnessExpression(settings.expression)
+        : BUILTIN_FITNESS[settings.kind];
+    activeSettings = { ...settings };
+}
+
+/** fitnessLabel of the definition evaluateFitness currently computes. */
+export function activeFitnessLabel(): string {
+    return fitnessLabel(activeSettings);
+}
+
+/** Fitness of `metrics` under the active definition; non-finite results count as 0. */
+export function evaluateFitness(metrics: FitnessMetrics): number {
+    const value = active(metrics);
+    return Number.isFinite(value) ? value : 0;
+}
+
+/** Short description for run history: the built-in's label or the custom expression. */
+export function fitnessLabel(settings: FitnessSettings): string {
+    return settings.kind === 'custom' ? settings.expression : FITNESS_LABELS[settings.kind];
+}
+
+// ── Expression parser ────────────────────────────────────────────────────────
+// Grammar, lowest precedence first:
+//   ternary    := comparison ('?' ternary ':' ternary)?
+//   comparison := additive (('<' | '<=' | '>' | '>=' | '==' | '!=') additive)?
+//   additive   := term (('+' | '-') term)*
+//   term       := unary (('*' | '/' | '%') unary)*
+//   unary      := ('-' | '+') unary | power
+//   power      := primary ('^' unary)?
+//   primary    := number | metric | function '(' args ')' | '(' ternary ')'
+
+/** Functions an expression may call. */
+export const FITNESS_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+    min: Math.min,
+    max: Math.max,
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    log: Math.log,
+    exp: Math.exp,
+    floor: Math.floor,
+    ceil: Math.ceil,
+    pow: Math.pow,
+    clamp: (v, lo, hi) => Math.min(hi, Math.max(lo, v)),
+};
+
+type Token = { type: 'num'; value: number; pos: number }
+    | { type: 'id'; value: string; pos: number }
+    | { type: 'op'; value: string; pos: number };
+
+function tokenize(src: string): Token[] {
+    const tokens: Token[] = [];
+    const re = /(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|(<=|>=|==|!=|[-+*/%^()<>?:,])/y;
+    let pos = 0;
+    while (pos < src.length) {
+        if (/\s/.test(src[pos])) { pos++; continue; }
+        re.lastIndex = pos;
+        const m = re.exec(src);
+        if (!m) throw new Error(`Unexpected character '${src[pos]}' at ${pos + 1}`);
+        if (m[1] !== undefined) tokens.push({ type: 'num', value: parseFloat(m[1]), pos });
+        else if (m[2] !== undefined) tokens.push({ type: 'id', value: m[2], pos });
+        else tokens.push({ type: 'op', value: m[3], pos });
+        pos = re.lastIndex;
+    }
+    return tokens;
+}
+
+/** Compile a fitness expression into a function of the metrics. Throws on any syntax error or unknown name. */
+export function compileFitnessExpression(src: string): FitnessFunction {
+    const tokens = tokenize(src);
+    let i = 0;
+
+    const peek = () => tokens[i];
+    const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value;
+    const expect = (value: string) => {
+        if (!isOp(value)) throw new Error(`Expected '${value}'${peek() ? ` at ${peek()!.pos + 1}` : ' at end'}`);
+        i++;
+    };
+
+    const ternary = (): FitnessFunction => {
+        const cond = comparison();
+        if (!isOp('?')) return cond;
+        i++;
+        const a = ternary();
+        expect(':');
+        const b = ternary();
+        return m => (cond(m) !== 0 ? a(m) : b(m));
+    };
+
+    const comparison = (): FitnessFunction => {
+        const left = additive();
+        const op = peek();
+        if (op?.type !== 'op' || !['<', '<=', '>', '>=', '==', '!='].includes(op.value)) return left;
+        i++;
+        const right = additive();
+        switch (op.value) {
+            case '<': return m => Number(left(m) < right(m));
+            case '<=': return m => Number(left(m) <= right(m));
+            case '>': return m => Number(left(m) > right(m));
+            case '>=': return m => Number(left(m) >= right(m));
+            case '==': return m => Number(left(m) === right(m));
+            default: return m => Number(left(m) !== right(m));
+        }
+    };
+
+    const additive = (): FitnessFunction => {
+        let left = term();
+        while (isOp('+') || isOp('-')) {
+            const op = tokens[i++].value;
+            const l = left, r = term();
+            left = op === '+' ? m => l(m) + r(m) : m => l(m) - r(m);
+        }
+        return left;
+    };
+
+    const term = (): FitnessFunction => {
+        let left = unary();
+        while (isOp('*') || isOp('/') || isOp('%')) {
+            const op = tokens[i++].value;
+            const l = left, r = unary();
+            left = op === '*' ? m => l(m) * r(m) : op === '/' ? m => l(m) / r(m) : m => l(m) % r(m);
+        }
+        return left;
+    };
+
+    const unary = (): FitnessFunction => {
+        if (isOp('-')) { i++; const v = unary(); return m => -v(m); }
+        if (isOp('+')) { i++; return unary(); }
+        return power();
+    };
+
+    const power = (): FitnessFunction => {
+        const base = primary();
+        if (!isOp('^')) return base;
+        i++;
+        const exp = unary(); // right-associative: 2^3^2 = 2^9
+        return m => Math.pow(base(m), exp(m));
+    };
+
+    const primary = (): FitnessFunction => {
+        const tok = tokens[i++];
+        if (!tok) throw new Error('Unexpected end of expression');
+        if (tok.type === 'num') {
+            const v = tok.value;
+            return () => v;
+        }
+        if (tok.type === 'op') {
+            if (tok.value !== '(') throw new Error(`Unexpected '${tok.value}' at ${tok.pos + 1}`);
+            const inner = ternary();
+            expect(')');
+            return inner;
+        }
+        if (isOp('(')) {
+            const fn = Object.hasOwn(FITNESS_FUNCTIONS, tok.value) ? FITNESS_FUNCTIONS[tok.value] : undefined;
+            if (!fn) throw new Error(`Unknown function '${tok.value}'`);
+            i++;
+            const args: FitnessFunction[] = [];
+            if (!isOp(')')) {
+                args.push(ternary());
+                while (isOp(',')) { i++; args.push(ternary()); }
+            }
+            expect(')');
+            return m => fn(...args.map(a => a(m)));
+        }
+        const alias = Object.hasOwn(METRIC_ALIASES, tok.value) ? METRIC_ALIASES[tok.value] : undefined;
+        if (!alias && !Object.hasOwn(FITNESS_METRICS, tok.value)) throw new Error(`Unknown metric '${tok.value}'`);
+        const key = alias ?? tok.value as keyof FitnessMetrics;
+        return m => m[key];
+    };
+
+    if (tokens.length === 0) throw new Error('Expression is empty');
+    const fn = ternary();
+    if (i < tokens.length) throw new Error(`Unexpected '${tokens[i].value}' at ${tokens[i].pos + 1}`);
+    return fn;
+}
@@ -0,0 +1,143 @@
+// src/HallOfFame.ts
+// Hall of fame: the top-N brains of all time, kept across generations, runs and page reloads.
+// The GA can reseed from it when progress stalls and mix its members back in as crossover parents.
+// Fitness values are only comparable under the definition they were scored with, so each entry
+// records it and members only ever compete with, or are drawn for, runs under the same one.
+
+import { Boid, type BrainJSON } from './Boid';
+import { isNeatGenomeJSON } from './Neat';
+import { random } from './rng';
+
+const STORAGE_KEY = 'nnts_hall_of_fame';
+
+export interface HallOfFameEntry {
+    id: number;
+    generation: number;
+    fitness: number;
+    fitnessDefinition: string; // fitnessLabel of the definition `fitness` was scored under; '' if unknown
+    trackSeed: number;
+    timestamp: number;
+    brain: BrainJSON;
+}
+
+export interface HallOfFameSettings {
+    capacity: number;             // entries kept per fitness definition (top-N by fitness)
+    reseedOnStagnation: boolean;
+    stagnationGenerations: number; // generations without a new all-time best before reseeding
+    reseedShare: number;          // share of the population replaced by mutated members when reseeding
+    parentRate: number;           // chance each crossover pair's second parent is a member instead
+}
+
+export const DEFAULT_HALL_OF_FAME: HallOfFameSettings = {
+    capacity: 20,
+    reseedOnStagnation: false,
+    stagnationGenerations: 20,
+    reseedShare: 0.2,
+    parentRate: 0,
+};
+
+export class HallOfFame {
+    settings: HallOfFameSettings;
+    entries: HallOfFameEntry[] = []; // grouped by fitness definition, best first within each
+    private brainKeys = new Set<string>(); // entryKey of every entry, to skip duplicates
+
+    constructor(settings: HallOfFameSettings) {
+        this.settings = settings;
+        try {
+            const saved = localStorage.getItem(STORAGE_KEY);
+            if (saved) this.entries = JSON.parse(saved);
+        } catch {
+            // Corrupted storage — start empty
+        }
+        // Entries stored before definitions were recorded can't be compared with anything
+        for (const e of this.entries) e.fitnessDefinition ??= '';
+        this.brainKeys = new Set(this.entries.map(e => entryKey(e.fitnessDefinition, e.brain)));
+    }
+
+    /** The best member scored under `fitnessDefinition`, if any. */
+    best(fitnessDefinition: string): HallOfFameEntry | null {
+        return this.entries.find(e => e.fitnessDefinition === fitnessDefinition) ?? null;
+    }
+
+    /**
+     * Offer a brain for induction. It gets in if its fitness definition's group has room or it
+     * beats that group's weakest member; an identical brain (e.g. an elite copied unchanged) is
+     * only ever kept once. Returns whether it was added.
+     */
+    consider(brain: BrainJSON, fitness: number, fitnessDefinition: string, generation: number, trackSeed: number): boolean {
+        if (!(fitness > 0)) return false;
+        const rivals = this.entries.filter(e => e.fitnessDefinition === fitnessDefinition);
+        const full = rivals.length >= this.settings.capacity;
+        if (full && fitness <= rivals[rivals.length - 1].fitness) return false;
+        const key = entryKey(fitnessDefinition, brain);
+        if (this.brainKeys.has(key)) return false;
+
+        const id = Math.max(0, ...this.entries.map(e => e.id)) + 1;
+        this.entries.push({ id, generation, fitness, fitnessDefinition, trackSeed, timestamp: Date.now(), brain });
+        this.brainKeys.add(key);
+        this.entries.sort((a, b) => a.fitnessDefinition.localeCompare(b.fitnessDefinition) || b.fitness - a.fitness);
+        this.trim();
+        this.save();
+        return true;
+    }
+
+    /**
+     * Members whose brain can join a run of the given kind and the run's architecture,
+     * and whose fitness was scored under the run's definition.
+     */
+    compatible(neat: boolean, fitnessDefinition: string): HallOfFameEntry[] {
+        return this.entries.filter(e => e.fitnessDefinition === fitnessDefinition
+            && isNeatGenomeJSON(e.brain) === neat && !Boid.brainMismatch(e.brain));
+    }
+
+    /** A fresh boid driving a uniformly drawn compatible member, or null if there is none. */
+    sampleBoid(neat: boolean, fitnessDefinition: string, x: number, y: number, angle: number): Boid | null {
+        const pool = this.compatible(neat, fitnessDefinition);
+        if (pool.length === 0) return null;
+        const entry = pool[Math.floor(random() * pool.length)];
+        const boid = new Boid(x, y, angle);
+        boid.loadBrain(entry.brain);
+        boid.fitness = entry.fitness;
+        boid.score = entry.fitness;
+        return boid;
+    }
+
+    remove(id: number) {
+        this.entries = this.entries.filter(e => e.id !== id);
+        this.brainKeys = new Set(this.entries.map(e => entryKey(e.fitnessDefinition, e.brain)));
+        this.save();
+    }
+
+    clear() {
+        this.entries = [];
+        this.brainKeys.clear();
+        localStorage.removeItem(STORAGE_KEY);
+    }
+
+    /** Apply a lowered capacity straight away. */
+    setCapacity(capacity: number) {
+        this.settings.capacity = capacity;
+        this.trim();
+        this.save();
+    }
+
+    /** Keep the best `capacity` entries of each fitness definition. */
+    private trim() {
+        const kept = new Map<string, number>();
+        this.entries = this.entries.filter(e => {
+            const count = kept.get(e.fitnessDefinition) ?? 0;
+            kept.set(e.fitnessDefinition, count + 1);
+            return count < this.settings.capacity;
+        });
+        this.brainKeys = new Set(this.entries.map(e => entryKey(e.fitnessDefinition, e.brain)));
+    }
+
+    private save() {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    }
+}
+
+/** A brain under one fitness definition: the same brain may be a member once per definition. */
+function entryKey(fitnessDefinition: string, brain: BrainJSON): string {
+    return `${fitnessDefinition}\n${JSON.stringify(brain)}`;
+}
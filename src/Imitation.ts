@@ -0,0 +1,154 @@
+// src/Imitation.ts
+// Imitation learning: a person drives a boid while every frame's sensor inputs and controls are
+// recorded, then a network is trained on the recording with backprop. The trained
+// brain can seed a GA run, giving evolution a starting point that already drives.
+
+import { Boid } from './Boid';
+import type { Track } from './Track';
+import type { NeuralNetworkJSON } from './brain-js';
+import type { TrainingSample } from './Network';
+import type { InputFeature } from './Inputs';
+import { type RngSnapshot, snapshotRng, restoreRng } from './rng';
+
+const CRASH_DISCARD_FRAMES = 45; // frames before a crash dropped from the recording — they taught the crash
+const IDLE_SPEED = 0.2;          // frames slower than this with no throttle aren't recorded
+export const MAX_DRIVE_SAMPLES = 30000;
+
+/** One recorded frame: sensor inputs → [throttle, steering] outputs, as the brain gives them. */
+export type DriveSample = TrainingSample;
+
+/** A recording as saved to JSON. */
+export interface DrivingDataset {
+    version: 1;
+    inputCount: number; // inputs per sample, checked against the boids' inputs on load
+    inputs?: InputFeature[]; // features the samples hold; absent in datasets saved before the registry: sensors only
+    trackSeed: number;  // track it was recorded on (0 = hand-edited)
+    recordedAt: string;
+    samples: DriveSample[];
+}
+
+export interface ImitationSettings {
+    iterations: number;   // passes over the dataset
+    learningRate: number;
+    momentum: number;
+    errorThresh: number;  // stop early once the training error falls below this
+}
+
+export const DEFAULT_IMITATION: ImitationSettings = {
+    iterations: 1000,
+    learningRate: 0.3,
+    momentum: 0.1,
+    errorThresh: 0.005,
+};
+
+const INITIAL_WEIGHT = 0.2;   // backprop starts from small random weights in ±this
+const YIELD_MS = 30;          // training time between progress reports and yields to the page
+
+/**
+ * A keyboard-driven boid on `track` whose frames are appended to `samples`.
+ * Crashes and timeouts put it back on the start line.
+ */
+export class DrivingRecorder {
+    readonly track: Track;
+    readonly boid: Boid;
+    readonly samples: DriveSample[];
+    laps: number = 0;    // laps completed before the current attempt
+    crashes: number = 0;
+    bestLapTime: number = 0; // frames; 0 = no lap yet
+    private sinceSpawn: number = 0; // samples recorded in the current attempt
+    private rng: RngSnapshot;       // the recording's own PRNG stream, for sensor noise and dropout
+
+    constructor(track: Track, samples: DriveSample[], pilot: (inputs: number[]) => number[]) {
+        this.track = track;
+        this.samples = samples;
+        // A new boid draws random weights; keep the simulation's PRNG stream where it was
+        const saved = snapshotRng();
+        this.boid = new Boid(track.startPoint.x, track.startPoint.y, track.startAngle);
+        this.rng = snapshotRng();
+        restoreRng(saved);
+        this.boid.pilot = pilot;
+    }
+
+    get totalLaps(): number {
+        return this.laps + this.boid.lapTimes.length;
+    }
+
+    /** Drive one frame and record it, unless the sample limit has been reached. */
+    step() {
+        const { boid } = this;
+        const saved = snapshotRng();
+        restoreRng(this.rng);
+        boid.update(this.track);
+        this.rng = snapshotRng();
+        restoreRng(saved);
+        for (const t of boid.lapTimes) {
+            if (this.bestLapTime === 0 || t < this.bestLapTime) this.bestLapTime = t;
+        }
+        if (boid.isDead) {
+            this.respawn(boid.life > 0);
+            return;
+        }
+        if (this.samples.length >= MAX_DRIVE_SAMPLES) return;
+        if (boid.vel.mag() < IDLE_SPEED && boid.lastOutputs[0] < 0.05) return;
+        this.samples.push({ input: [...boid.lastInputs], output: [...boid.lastOutputs] });
+        this.sinceSpawn++;
+    }
+
+    private respawn(crashed: boolean) {
+        if (crashed) {
+            this.crashes++;
+            const dropped = Math.min(this.sinceSpawn, CRASH_DISCARD_FRAMES);
+            this.samples.splice(this.samples.length - dropped, dropped);
+        }
+        this.laps += this.boid.lapTimes.length;
+        this.sinceSpawn = 0;
+        this.boid.reset(this.track.startPoint.x, this.track.startPoint.y, this.track.startAngle);
+    }
+}
+
+/** Wrap samples, fed `inputs`, for saving. */
+export function toDataset(samples: DriveSample[], inputs: InputFeature[], trackSeed: number): DrivingDataset {
+    return {
+        version: 1,
+        inputCount: samples[0]?.input.length ?? 0,
+        inputs: [...inputs],
+        trackSeed,
+        recordedAt: new Date().toISOString(),
+        samples,
+    };
+}
+
+export function isDrivingDataset(json: unknown): json is DrivingDataset {
+    const d = json as DrivingDataset | null;
+    return !!d && d.version === 1 && Array.isArray(d.samples)
+        && d.samples.every(s => Array.isArray(s.input) && Array.isArray(s.output) && s.output.length === 2);
+}
+
+/**
+ * Supervise-train a fresh network with the boids' architecture on `samples`. Yields to the page
+ * about every YIELD_MS so the simulation keeps running, and reports the training error through
+ * `onProgress` each time.
+ */
+export async function trainImitation(
+    samples: DriveSample[],
+    settings: ImitationSettings,
+    onProgress: (iterations: number, error: number) => void,
+): Promise<{ network: NeuralNetworkJSON; iterations: number; error: number }> {
+    const network = Boid.createNetwork();
+    // Not the simulation's PRNG: training happens outside the run and mustn't shift its stream
+    for (let i = 0; i < network.genome.length; i++) network.genome[i] = (Math.random() * 2 - 1) * INITIAL_WEIGHT;
+
+    let error = 1;
+    let iterations = 0;
+    let lastYield = performance.now();
+    while (iterations < settings.iterations && error > settings.errorThresh) {
+        error = network.trainEpoch(samples, settings.learningRate, settings.momentum);
+        iterations++;
+        if (performance.now() - lastYield > YIELD_MS) {
+            onProgress(iterations, error);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            lastYield = performance.now();
+        }
+    }
+    return { network: network.toJSON(), iterations, error };
+}
@@ -0,0 +1,122 @@
+// src/Inputs.ts
+// Registry of what a brain can be fed. Each feature reads one or more values off the boid and
+// its track, scaled to about [0, 1] or [-1, 1], with a short label per value for the Debug
+// panel and the network view. A run's features are part of its NetworkArchitecture.
+
+import type { Boid } from './Boid';
+import type { Track } from './Track';
+import { type SensorConfig, sensorLabels } from './Sensors';
+
+export type InputFeature =
+    | 'sensors'
+    | 'speed'
+    | 'turn-rate'
+    | 'checkpoint-angle'
+    | 'checkpoint-distance'
+    | 'curvature'
+    | 'life';
+
+interface InputFeatureDef {
+    label: string;                            // shown in the architecture editor
+    labels: (sensors: SensorConfig) => string[]; // one per value
+    read: (boid: Boid, track: Track) => number[];
+}
+
+const CHECKPOINT_RANGE = 400;  // px at which the checkpoint-distance input reaches 1
+const CURVATURE_LOOKAHEAD = 150; // px of centre line ahead the curvature input looks at
+const MAX_LIFE = 1000;           // life is capped here when checkpoints add to it
+
+/** Wrap an angle into [-π, π]. */
+function wrapAngle(a: number): number {
+    return Math.atan2(Math.sin(a), Math.cos(a));
+}
+
+function clampUnit(x: number): number {
+    return x < -1 ? -1 : x > 1 ? 1 : x;
+}
+
+/** Midpoint of the checkpoint the boid has to cross next. */
+function nextCheckpoint(boid: Boid, track: Track): { x: number; y: number } | null {
+    const n = track.checkpoints.length;
+    if (n === 0) return null;
+    const [a, b] = track.checkpoints[boid.checkpointCount % n];
+    return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+export const INPUT_FEATURES: Record<InputFeature, InputFeatureDef> = {
+    'sensors': {
+        label: 'Wall sensors',
+        labels: sensorLabels,
+        // 0 = touching a wall, 1 = nothing within that ray's length; noisy if the run adds noise
+        read: boid => boid.sensorReadings.map((d, i) => d / boid.sensors.lengths[i]),
+    },
+    'speed': {
+        label: 'Speed',
+        labels: () => ['Spd'],
+        read: boid => [boid.vel.mag() / boid.maxSpeed],
+    },
+    'turn-rate': {
+        label: 'Heading change rate',
+        labels: () => ['Turn'],
+        // Last frame's steering is the heading change per frame, as a fraction of the fastest turn
+        read: boid => [boid.lastSteering],
+    },
+    'checkpoint-angle': {
+        label: 'Next checkpoint bearing',
+        labels: () => ['CP∠'],
+        read: (boid, track) => {
+            const cp = nextCheckpoint(boid, track);
+            if (!cp) return [0];
+            return [wrapAngle(Math.atan2(cp.y - boid.pos.y, cp.x - boid.pos.x) - boid.heading) / Math.PI];
+        },
+    },
+    'checkpoint-distance': {
+        label: 'Next checkpoint distance',
+        labels: () => ['CPd'],
+        read: (boid, track) => {
+            const cp = nextCheckpoint(boid, track);
+            if (!cp) return [1];
+            return [Math.min(1, Math.hypot(cp.x - boid.pos.x, cp.y - boid.pos.y) / CHECKPOINT_RANGE)];
+        },
+    },
+    'curvature': {
+        label: 'Track curvature ahead',
+        labels: () => ['Curv'],
+        // ±1 = a right angle (or more) to the right / left within the lookahead
+        read: (boid, track) => {
+            const segment = boid.centerSegment >= 0 ? boid.centerSegment : track.projectOntoCenterLine(boid.pos).segment;
+            return [clampUnit(track.turnAhead(segment, CURVATURE_LOOKAHEAD) / (Math.PI / 2))];
+        },
+    },
+    'life': {
+        label: 'Remaining life',
+        labels: () => ['Life'],
+        read: boid => [Math.min(1, boid.life / MAX_LIFE)],
+    },
+};
+
+/** Wall sensors only — what every brain was fed before the registry. */
+export const DEFAULT_INPUTS: InputFeature[] = ['sensors'];
+
+export function isInputFeature(value: unknown): value is InputFeature {
+    return typeof value === 'string' && Object.hasOwn(INPUT_FEATURES, value);
+}
+
+/** `features` in registry order, so equal selections always lay the input layer out alike. */
+export function orderInputs(features: InputFeature[]): InputFeature[] {
+    return (Object.keys(INPUT_FEATURES) as InputFeature[]).filter(f => features.includes(f));
+}
+
+/** Label of every input value, in the order the brain receives them. */
+export function inputLabels(features: InputFeature[], sensors: SensorConfig): string[] {
+    return features.flatMap(f => INPUT_FEATURES[f].labels(sensors));
+}
+
+export function inputCount(features: InputFeature[], sensors: SensorConfig): number {
+    return inputLabels(features, sensors).length;
+}
+
+/** The values `boid` feeds its brain this frame. */
+export function readInputs(features: InputFeature[], boid: Boid, track: Track): number[] {
+    return features.flatMap(f => INPUT_FEATURES[f].read(boid, track));
+}
@@ -0,0 +1,175 @@
+// src/Islands.ts
+// Island model: several GA sub-populations evolving side by side, optionally on their own tracks.
+// Islands run generations in lockstep — an island that finishes early waits for the rest —
+// and every `migrationInterval` generations each island's best drivers migrate to its neighbours.
+
+import type { Boid, BrainJSON } from './Boid';
+import type { GenerationStats, Optimizer } from './Optimizer';
+import { Track } from './Track';
+import { random } from './rng';
+import { lineage } from './Lineage';
+
+/**
+ * Who sends migrants to island i:
+ * 'ring' — island i-1, 'full' — every other island, 'random' — one random other island.
+ */
+export type MigrationTopology = 'ring' | 'full' | 'random';
+
+/** Serializable island configuration (kept in SimState and saved sessions). */
+export interface IslandSettings {
+    count: number;             // 1 = islands off (a single population)
+    migrationInterval: number; // generations between migrations
+    migrantCount: number;      // best boids each source island sends
+    topology: MigrationTopology;
+    separateTracks: boolean;   // give every island except the first its own random track
+}
+
+export const DEFAULT_ISLANDS: IslandSettings = {
+    count: 1,
+    migrationInterval: 10,
+    migrantCount: 2,
+    topology: 'ring',
+    separateTracks: false,
+};
+
+export interface Island {
+    ga: Optimizer;
+    track: Track;
+    done: boolean; // finished this generation, waiting for the other islands
+}
+
+export class IslandModel {
+    settings: IslandSettings;
+    islands: Island[] = [];
+    viewIndex: number = 0;                        // island shown on the canvas and in the panels
+    lastGenEndStats: GenerationStats | null = null; // aggregate over all islands
+    lastMigrationGeneration: number = 0;
+    private savedChampion: BrainJSON | null = null; // best brain of the run, kept as best_boid_brain
+    private savedChampionFitness: number = -1;
+
+    /**
+     * `mainTrack` is shared by every island unless `separateTracks` is set, in which case
+     * island 0 keeps it and the others get freshly seeded tracks. `create` builds one island's GA.
+     */
+    constructor(settings: IslandSettings, mainTrack: Track, create: (track: Track) => Optimizer) {
+        this.settings = settings;
+        for (let i = 0; i < settings.count; i++) {
+            const track = settings.separateTracks && i > 0
+                ? new Track(Track.FIXED_SIZE, Track.FIXED_SIZE, Math.floor(random() * 1000000) + 1)
+                : mainTrack;
+            this.islands.push({ ga: create(track), track, done: false });
+        }
+    }
+
+    get viewed(): Island {
+        return this.islands[this.viewIndex];
+    }
+
+    get generation(): number {
+        return this.islands[0].ga.generation;
+    }
+
+    /** Distinct tracks in use (one when islands share the main track). */
+    tracks(): Track[] {
+        return [...new Set(this.islands.map(i => i.track))];
+    }
+
+    /** Advance every island that's still racing; breed them all once the last one finishes. */
+    update() {
+        let allDone = true;
+        for (const island of this.islands) {
+            if (!island.done) island.done = island.ga.advance(island.track);
+            if (!island.done) allDone = false;
+        }
+        if (allDone) this.nextGeneration();
+    }
+
+    private nextGeneration() {
+        const completed = this.generation;
+        const migrate = this.islands.length > 1 && completed % this.settings.migrationInterval === 0;
+        const emigrants = migrate ? this.islands.map(i => this.bestBoids(i.ga)) : [];
+
+        // Each island's nextGeneration saves its own champion — keep the run's overall best instead
+        let champion: BrainJSON | null = null;
+        let championFitness = -1;
+        for (const { ga } of this.islands) {
+            const best = ga.getBestActiveBoid();
+            if (best && best.fitness > championFitness) {
+                championFitness = best.fitness;
+                champion = best.brainJSON();
+            }
+        }
+
+        for (const island of this.islands) {
+            island.ga.endGeneration(island.track);
+            island.done = false;
+        }
+
+        if (migrate) {
+            this.immigrate(emigrants);
+            this.lastMigrationGeneration = completed;
+        }
+        if (champion && championFitness >= this.savedChampionFitness) {
+            this.savedChampionFitness = championFitness;
+            this.savedChampion = champion;
+        }
+        if (this.savedChampion) localStorage.setItem('best_boid_brain', JSON.stringify(this.savedChampion));
+        this.lastGenEndStats = this.aggregateStats();
+    }
+
+    /** The island's top `migrantCount` boids by raw fitness. */
+    private bestBoids(ga: Optimizer): Boid[] {
+        return [...ga.boids]
+            .sort((a, b) => b.fitness - a.fitness)
+            .slice(0, this.settings.migrantCount);
+    }
+
+    /**
+     * Overwrite the tail of each island's new population (crossover children — the
+     * elites sit at the front) with migrants from its source islands.
+     */
+    private immigrate(emigrants: Boid[][]) {
+        const n = this.islands.length;
+        this.islands.forEach((island, i) => {
+            let sources: number[];
+            switch (this.settings.topology) {
+                case 'full':
+                    sources = this.islands.map((_, j) => j).filter(j => j !== i);
+                    break;
+                case 'random':
+                    sources = [(i + 1 + Math.floor(random() * (n - 1))) % n];
+                    break;
+                default:
+                    sources = [(i - 1 + n) % n];
+            }
+            const incoming = sources.flatMap(j => emigrants[j]);
+            const boids = island.ga.boids;
+            const slots = Math.min(incoming.length, boids.length - 1);
+            for (let k = 0; k < slots; k++) {
+                const boid = boids[boids.length - 1 - k];
+                boid.loadBrain(incoming[k].brainJSON());
+                lineage.register(boid, 'immigrant', [incoming[k]], island.ga.generation);
+            }
+        });
+    }
+
+    /** Population-wide view of the generation just finished (survivors are per island, averaged). */
+    private aggregateStats(): GenerationStats | null {
+        const stats = this.islands.map(i => i.ga.lastGenEndStats).filter((s): s is GenerationStats => !!s);
+        if (stats.length === 0) return null;
+        const mean = (f: (s: GenerationStats) => number) => stats.reduce((sum, s) => sum + f(s), 0) / stats.length;
+        return {
+            generation: stats[0].generation,
+            survivorCount: Math.round(mean(s => s.survivorCount)),
+            bestFitness: Math.max(...stats.map(s => s.bestFitness)),
+            diversity: mean(s => s.diversity),
+            speciesCount: stats.reduce((sum, s) => sum + s.speciesCount, 0),
+            mutationStrength: mean(s => s.mutationStrength),
+            heldOutFitness: stats.some(s => s.heldOutFitness !== null)
+                ? Math.max(...stats.map(s => s.heldOutFitness ?? -Infinity))
+                : null,
+            lapRate: mean(s => s.lapRate),
+            stagnation: stats.find(s => s.stagnation)?.stagnation ?? null,
+        };
+    }
+}
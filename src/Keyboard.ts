@@ -0,0 +1,70 @@
+// src/Keyboard.ts
+// Arrow keys / WASD turned into the same throttle and steering a brain outputs, so a person can
+// drive a boid. Keys ramp the controls rather than switching them, which drives more like an
+// analogue stick and gives smoother targets to learn from.
+
+const THROTTLE_RATE = 0.08; // per frame toward full throttle while accelerating
+const BRAKE_RATE = 0.2;     // per frame toward zero while braking
+const COAST_RATE = 0.04;    // per frame toward zero with no key held
+const STEER_RATE = 0.15;    // per frame toward full lock
+const CENTRE_RATE = 0.25;   // per frame back toward straight with no key held
+
+const KEYS: Record<string, 'up' | 'down' | 'left' | 'right'> = {
+    ArrowUp: 'up', KeyW: 'up',
+    ArrowDown: 'down', KeyS: 'down',
+    ArrowLeft: 'left', KeyA: 'left',
+    ArrowRight: 'right', KeyD: 'right',
+};
+
+export class KeyboardDriver {
+    throttle: number = 0; // 0 to 1
+    steering: number = 0; // -1 (left) to 1 (right)
+    private held = new Set<'up' | 'down' | 'left' | 'right'>();
+
+    private onKeyDown = (e: KeyboardEvent) => {
+        const key = KEYS[e.code];
+        if (!key || isTyping(e)) return;
+        e.preventDefault(); // arrows would otherwise scroll panels
+        this.held.add(key);
+    };
+
+    private onKeyUp = (e: KeyboardEvent) => {
+        const key = KEYS[e.code];
+        if (key) this.held.delete(key);
+    };
+
+    /** Start listening; call detach() when the driving ends. */
+    attach() {
+        window.addEventListener('keydown', this.onKeyDown);
+        window.addEventListener('keyup', this.onKeyUp);
+    }
+
+    detach() {
+        window.removeEventListener('keydown', this.onKeyDown);
+        window.removeEventListener('keyup', this.onKeyUp);
+        this.held.clear();
+        this.throttle = 0;
+        this.steering = 0;
+    }
+
+    /**
+     * Move the controls one frame toward what the held keys ask for and return them as a
+     * brain's outputs: [throttle, steering mapped from [-1, 1] to [0, 1]].
+     */
+    step(): number[] {
+        const { held } = this;
+        if (held.has('up') && !held.has('down')) this.throttle = Math.min(1, this.throttle + THROTTLE_RATE);
+        else this.throttle = Math.max(0, this.throttle - (held.has('down') ? BRAKE_RATE : COAST_RATE));
+
+        const target = (held.has('right') ? 1 : 0) - (held.has('left') ? 1 : 0);
+        const rate = target === 0 ? CENTRE_RATE : STEER_RATE;
+        this.steering += Math.max(-rate, Math.min(rate, target - this.steering));
+        return [this.throttle, (this.steering + 1) / 2];
+    }
+}
+
+/** Keys typed into a form field aren't driving. */
+function isTyping(e: KeyboardEvent): boolean {
+    const el = e.target as HTMLElement | null;
+    return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT');
+}
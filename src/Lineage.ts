@@ -0,0 +1,101 @@
+// src/Lineage.ts
+// Genealogy of the GA population: every bred boid gets a genome ID, and a small record of its
+// parents, the operator that made it and its evaluated fitness is kept for a window of generations
+// so any boid's ancestry can be traced back.
+
+import type { Boid } from './Boid';
+
+/**
+ * How a boid came to be:
+ * 'random'    — fresh random brain (first generation),
+ * 'elite'     — unchanged copy of an elite, 'mutant' — mutated copy of one parent,
+ * 'crossover' — mutated crossover child of two parents,
+ * 'immigrant' — brain from outside the population (saved brain, hall of fame, migrant, random immigrant).
+ */
+export type BoidOrigin = 'random' | 'elite' | 'mutant' | 'crossover' | 'immigrant';
+
+export const ORIGIN_LABELS: Record<BoidOrigin, string> = {
+    'random': 'Random',
+    'elite': 'Elite copy',
+    'mutant': 'Mutated copy',
+    'crossover': 'Crossover',
+    'immigrant': 'Immigrant',
+};
+
+export interface LineageRecord {
+    id: number;
+    parents: number[];      // genome IDs; empty for random boids and most immigrants
+    origin: BoidOrigin;
+    generation: number;     // birth generation
+    fitness: number | null; // once its generation has been evaluated
+}
+
+export class LineageRegistry {
+    maxGenerations: number = 200; // records older than this many generations are dropped
+    private nextId: number = 1;
+    private records = new Map<number, LineageRecord>();
+
+    get size(): number {
+        return this.records.size;
+    }
+
+    get(id: number): LineageRecord | undefined {
+        return this.records.get(id);
+    }
+
+    /** Give `boid` a new genome ID and record how it was made. Untracked parents (ID 0) are left out. */
+    register(boid: Boid, origin: BoidOrigin, parents: Boid[], generation: number) {
+        boid.genomeId = this.nextId++;
+        boid.parentIds = parents.map(p => p.genomeId).filter(id => id > 0);
+        boid.origin = origin;
+        boid.birthGeneration = generation;
+        this.records.set(boid.genomeId, {
+            id: boid.genomeId, parents: boid.parentIds, origin, generation, fitness: null,
+        });
+    }
+
+    /** Store each boid's evaluated fitness and drop records that fell out of the window. */
+    recordFitness(boids: Boid[], generation: number) {
+        for (const boid of boids) {
+            const record = this.records.get(boid.genomeId);
+            if (record) record.fitness = boid.fitness;
+        }
+        for (const [id, record] of this.records) {
+            if (record.generation < generation - this.maxGenerations) this.records.delete(id);
+        }
+    }
+
+    /** `id` and every recorded ancestor, newest first. */
+    ancestry(id: number): LineageRecord[] {
+        const seen = new Set<number>();
+        const stack = [id];
+        const result: LineageRecord[] = [];
+        while (stack.length > 0) {
+            const record = this.records.get(stack.pop()!);
+            if (!record || seen.has(record.id)) continue;
+            seen.add(record.id);
+            result.push(record);
+            stack.push(...record.parents);
+        }
+        return result.sort((a, b) => b.generation - a.generation || b.id - a.id);
+    }
+
+    /**
+     * Fitness gained over the fitter parent, for mutated and crossover boids whose
+     * generation and parents' generations have all been evaluated; null otherwise.
+     */
+    fitnessJump(record: LineageRecord): number | null {
+        if (record.fitness === null || (record.origin !== 'mutant' && record.origin !== 'crossover')) return null;
+        const parentFitness = record.parents.map(p => this.records.get(p)?.fitness ?? null);
+        if (parentFitness.length === 0 || parentFitness.some(f => f === null)) return null;
+        return record.fitness - Math.max(...(parentFitness as number[]));
+    }
+
+    /** Forget every record; IDs keep counting so old ones are never reused. */
+    reset() {
+        this.records.clear();
+    }
+}
+
+/** Shared by every GA (and island) of the current run. Reset when a new run starts. */
+export const lineage = new LineageRegistry();
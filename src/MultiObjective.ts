@@ -0,0 +1,151 @@
+// src/MultiObjective.ts
+// Multi-objective evaluation for NSGA-II: each boid gets a vector of driving objectives
+// instead of one fitness number, and is ranked by non-dominated sorting with crowding distance.
+
+import type { Boid, BrainJSON } from './Boid';
+
+export type ObjectiveKey = 'checkpoints' | 'speed' | 'jerk' | 'clearance' | 'energy';
+
+/** One boid's raw objective values for a generation (averaged over episodes with multi-track). */
+export type ObjectiveValues = Record<ObjectiveKey, number>;
+
+export interface ObjectiveInfo {
+    label: string;
+    maximize: boolean;
+}
+
+export const OBJECTIVES: Record<ObjectiveKey, ObjectiveInfo> = {
+    checkpoints: { label: 'Checkpoints', maximize: true },
+    speed:       { label: 'Avg speed', maximize: true },
+    jerk:        { label: 'Steering jerk', maximize: false }, // summed |Δsteering| per px driven
+    clearance:   { label: 'Min wall clearance', maximize: true },
+    energy:      { label: 'Energy per px', maximize: false }, // summed throttle per px driven
+};
+
+// Jerk and energy are per distance driven, so crashing early doesn't make a boid look smooth or frugal;
+// the floor keeps a boid that never got going from dividing by almost nothing
+const MIN_DISTANCE = 10;
+
+export const OBJECTIVE_KEYS = Object.keys(OBJECTIVES) as ObjectiveKey[];
+
+/** One individual of a finished generation, as shown on the Pareto scatter. */
+export interface ParetoPoint {
+    generation: number;
+    objectives: ObjectiveValues;
+    rank: number;       // 0 = on the Pareto front
+    crowding: number;
+    fitness: number;
+    brain: BrainJSON | null; // kept for front members only, so they can be exported
+}
+
+/** Read the objectives off a boid at the end of its race. */
+export function measureObjectives(boid: Boid): ObjectiveValues {
+    const frames = boid.frameAge;
+    const distance = Math.max(MIN_DISTANCE, boid.distanceTraveled);
+    return {
+        checkpoints: boid.checkpointCount,
+        speed: frames > 0 ? boid.distanceTraveled / frames : 0,
+        jerk: boid.steeringChange / distance,
+        clearance: Number.isFinite(boid.minClearance) ? boid.minClearance : 0,
+        energy: boid.energyUsed / distance,
+    };
+}
+
+/** Per-key mean of several races' objectives. */
+export function meanObjectives(values: ObjectiveValues[]): ObjectiveValues {
+    const mean = {} as ObjectiveValues;
+    for (const key of OBJECTIVE_KEYS) {
+        mean[key] = values.reduce((s, v) => s + v[key], 0) / Math.max(1, values.length);
+    }
+    return mean;
+}
+
+/** The selected objectives as a vector where larger is always better. */
+export function toMaximize(values: ObjectiveValues, keys: ObjectiveKey[]): number[] {
+    return keys.map(k => (OBJECTIVES[k].maximize ? values[k] : -values[k]));
+}
+
+/** a dominates b: at least as good everywhere and strictly better somewhere (maximising). */
+function dominates(a: number[], b: number[]): boolean {
+    let better = false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] < b[i]) return false;
+        if (a[i] > b[i]) better = true;
+    }
+    return better;
+}
+
+/** Fast non-dominated sort (Deb et al.): fronts of indices into `vectors`, best front first. */
+export function nonDominatedSort(vectors: number[][]): number[][] {
+    const n = vectors.length;
+    const dominatedBy: number[][] = vectors.map(() => []); // indices each point dominates
+    const dominationCount = new Array(n).fill(0);
+    const fronts: number[][] = [[]];
+
+    for (let p = 0; p < n; p++) {
+        for (let q = 0; q < n; q++) {
+            if (p === q) continue;
+            if (dominates(vectors[p], vectors[q])) dominatedBy[p].push(q);
+            else if (dominates(vectors[q], vectors[p])) dominationCount[p]++;
+        }
+        if (dominationCount[p] === 0) fronts[0].push(p);
+    }
+
+    for (let i = 0; fronts[i].length > 0; i++) {
+        const next: number[] = [];
+        for (const p of fronts[i]) {
+            for (const q of dominatedBy[p]) {
+                if (--dominationCount[q] === 0) next.push(q);
+            }
+        }
+        fronts.push(next);
+    }
+    fronts.pop(); // the empty sentinel
+    return fronts;
+}
+
+/**
+ * Crowding distance of each member of `front`: the normalised side lengths of the cuboid
+ * spanned by its neighbours, summed over objectives. Boundary points get Infinity.
+ */
+export function crowdingDistance(vectors: number[][], front: number[]): Map<number, number> {
+    const distance = new Map<number, number>(front.map(i => [i, 0]));
+    if (front.length === 0) return distance;
+    const m = vectors[front[0]].length;
+    for (let k = 0; k < m; k++) {
+        const sorted = [...front].sort((a, b) => vectors[a][k] - vectors[b][k]);
+        const lo = vectors[sorted[0]][k];
+        const hi = vectors[sorted[sorted.length - 1]][k];
+        distance.set(sorted[0], Infinity);
+        distance.set(sorted[sorted.length - 1], Infinity);
+        if (hi === lo) continue;
+        for (let j = 1; j < sorted.length - 1; j++) {
+            const gap = (vectors[sorted[j + 1]][k] - vectors[sorted[j - 1]][k]) / (hi - lo);
+            distance.set(sorted[j], distance.get(sorted[j])! + gap);
+        }
+    }
+    return distance;
+}
+
+/**
+ * Pareto rank (0 = non-dominated) and crowding distance per vector, plus a scalar that
+ * orders them by NSGA-II's crowded comparison — lower rank first, then larger crowding —
+ * so the score-based selection strategies can work on it unchanged.
+ */
+export function paretoScores(vectors: number[][]): { rank: number[]; crowding: number[]; score: number[] } {
+    const rank = new Array(vectors.length).fill(0);
+    const crowding = new Array(vectors.length).fill(0);
+    const fronts = nonDominatedSort(vectors);
+    fronts.forEach((front, r) => {
+        for (const [i, d] of crowdingDistance(vectors, front)) {
+            rank[i] = r;
+            crowding[i] = d;
+        }
+    });
+    // Crowding maps into [0, 1) so it only breaks ties within a front
+    const score = rank.map((r, i) => {
+        const c = crowding[i];
+        return (fronts.length - r) + (Number.isFinite(c) ? c / (1 + c) : 0.999);
+    });
+    return { rank, crowding, score };
+}
@@ -0,0 +1,100 @@
+// src/Mutation.ts
+// Mutation noise, per-individual step-size (σ) self-adaptation and rate schedules for the GA.
+
+import { random, randomGaussian } from './rng';
+
+/** Noise added to a mutated gene: 'uniform' in [-σ, σ], 'gaussian' N(0, σ²). */
+export type MutationNoise = 'uniform' | 'gaussian';
+
+/**
+ * How each boid's σ evolves:
+ * 'fixed'      — everyone uses the configured sigma,
+ * 'one-fifth'  — Rechenberg's 1/5th success rule, applied per lineage,
+ * 'log-normal' — σ is itself mutated (σ' = σ·e^(τ·N(0,1))) and inherited.
+ */
+export type SigmaAdaptation = 'fixed' | 'one-fifth' | 'log-normal';
+
+/** Multiplier on the mutation rates over a run. */
+export type MutationSchedule = 'constant' | 'linear' | 'cosine' | 'stagnation';
+
+export interface MutationSettings {
+    noise: MutationNoise;
+    sigma: number;           // noise scale (initial σ when self-adapting)
+    adaptation: SigmaAdaptation;
+    schedule: MutationSchedule;
+    horizon: number;         // linear / cosine: generations to decay from 1 to `floor`
+    floor: number;           // linear / cosine: final rate multiplier
+    boostAfter: number;      // stagnation: generations without a new best before boosting
+    boostFactor: number;     // stagnation: rate multiplier while boosted
+    eliteRate: number;       // per-gene rate for the mutated copies of the best boid
+}
+
+export const DEFAULT_MUTATION: MutationSettings = {
+    noise: 'uniform',
+    sigma: 1,
+    adaptation: 'fixed',
+    schedule: 'constant',
+    horizon: 200,
+    floor: 0.1,
+    boostAfter: 10,
+    boostFactor: 3,
+    eliteRate: 0.2,
+};
+
+/** Self-adapted σ is kept inside this range so lineages can't freeze or explode. */
+export const MIN_SIGMA = 0.01;
+export const MAX_SIGMA = 5;
+
+/** One unit-scale noise sample. */
+export function sampleNoise(noise: MutationNoise): number {
+    return noise === 'gaussian' ? randomGaussian() : random() * 2 - 1;
+}
+
+/** Standard deviation of sampleNoise(noise), so uniform and Gaussian strengths compare. */
+export function noiseStd(noise: MutationNoise): number {
+    return noise === 'gaussian' ? 1 : 1 / Math.sqrt(3);
+}
+
+/**
+ * Rate multiplier for the current point of the run.
+ * `elapsed` counts generations since the run started, `stale` generations since the best fitness improved.
+ */
+export function scheduleScale(settings: MutationSettings, elapsed: number, stale: number): number {
+    const progress = Math.min(1, Math.max(0, elapsed / Math.max(1, settings.horizon)));
+    switch (settings.schedule) {
+        case 'linear':
+            return settings.floor + (1 - settings.floor) * (1 - progress);
+        case 'cosine':
+            return settings.floor + (1 - settings.floor) * 0.5 * (1 + Math.cos(Math.PI * progress));
+        case 'stagnation':
+            return stale >= settings.boostAfter ? settings.boostFactor : 1;
+        default:
+            return 1;
+    }
+}
+
+/**
+ * σ a child inherits from `parentSigma`.
+ * `parentImproved` — whether the parent beat its own parent (1/5th rule),
+ * `geneCount` — genome length, sets the log-normal learning rate τ = 1/√n.
+ */
+export function inheritSigma(
+    settings: MutationSettings,
+    parentSigma: number,
+    parentImproved: boolean,
+    geneCount: number,
+): number {
+    let sigma: number;
+    switch (settings.adaptation) {
+        case 'one-fifth':
+            // Success grows σ by e^(1/3), failure shrinks it by e^(-1/12): σ is stable at a 1-in-5 success rate
+            sigma = parentSigma * Math.exp(((parentImproved ? 1 : 0) - 0.2) / (3 * 0.8));
+            break;
+        case 'log-normal':
+            sigma = parentSigma * Math.exp(randomGaussian() / Math.sqrt(Math.max(1, geneCount)));
+            break;
+        default:
+            return settings.sigma;
+    }
+    return Math.min(MAX_SIGMA, Math.max(MIN_SIGMA, sigma));
+}
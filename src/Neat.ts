@@ -0,0 +1,387 @@
+// src/Neat.ts
+// NEAT-style genome: node genes + connection genes tagged with historical innovation numbers.
+// Genomes start minimal (inputs wired straight to outputs) and grow through structural mutation.
+
+import { random } from './rng';
+import type { SensorConfig } from './Sensors';
+
+export type NeatNodeKind = 'input' | 'hidden' | 'output';
+
+export interface NeatNodeGene {
+    id: number;
+    kind: NeatNodeKind;
+    bias: number;
+}
+
+export interface NeatConnectionGene {
+    innovation: number;
+    from: number;
+    to: number;
+    weight: number;
+    enabled: boolean;
+}
+
+export interface NeatGenomeJSON {
+    type: 'NeatGenome';
+    inputCount: number;
+    outputCount: number;
+    inputs?: string[]; // input features the genome was fed (see Inputs.ts), added by Boid.brainJSON
+    sensors?: SensorConfig; // wall sensors it was trained with (see Sensors.ts), added by Boid.brainJSON
+    nodes: NeatNodeGene[];
+    connections: NeatConnectionGene[];
+}
+
+export function isNeatGenomeJSON(json: unknown): json is NeatGenomeJSON {
+    return !!json && (json as { type?: string }).type === 'NeatGenome';
+}
+
+/**
+ * Hands out innovation numbers and node ids so that the same structural change
+ * made independently in two genomes gets the same historical marker.
+ */
+export class InnovationTracker {
+    private nextInnovation = 0;
+    private nextNodeId = 0;
+    private connectionInnovations: Map<string, number> = new Map();
+    private splitNodes: Map<number, number> = new Map(); // split connection innovation → node id
+
+    reset() {
+        this.nextInnovation = 0;
+        this.nextNodeId = 0;
+        this.connectionInnovations.clear();
+        this.splitNodes.clear();
+    }
+
+    /** Reserve ids [0, count) for the fixed input/output nodes. */
+    reserveNodeIds(count: number) {
+        this.nextNodeId = Math.max(this.nextNodeId, count);
+    }
+
+    connectionInnovation(from: number, to: number): number {
+        const key = `${from}->${to}`;
+        let innovation = this.connectionInnovations.get(key);
+        if (innovation === undefined) {
+            innovation = this.nextInnovation++;
+            this.connectionInnovations.set(key, innovation);
+        }
+        return innovation;
+    }
+
+    /** Node id created by splitting the given connection (shared across the population). */
+    splitNodeId(innovation: number): number {
+        let id = this.splitNodes.get(innovation);
+        if (id === undefined) {
+            id = this.nextNodeId++;
+            this.splitNodes.set(innovation, id);
+        }
+        return id;
+    }
+
+    freshNodeId(): number {
+        return this.nextNodeId++;
+    }
+
+    /** Register the genes of an imported genome so new innovations don't collide with them. */
+    observe(json: NeatGenomeJSON) {
+        for (const n of json.nodes) this.nextNodeId = Math.max(this.nextNodeId, n.id + 1);
+        for (const c of json.connections) {
+            this.nextInnovation = Math.max(this.nextInnovation, c.innovation + 1);
+            const key = `${c.from}->${c.to}`;
+            if (!this.connectionInnovations.has(key)) this.connectionInnovations.set(key, c.innovation);
+        }
+    }
+}
+
+/** Population-wide tracker. Reset when a new NEAT run starts. */
+export const neatInnovations = new InnovationTracker();
+
+function sigmoid(x: number): number {
+    return 1 / (1 + Math.exp(-x));
+}
+
+export class NeatGenome {
+    inputCount: number;
+    outputCount: number;
+    nodes: NeatNodeGene[] = [];
+    connections: NeatConnectionGene[] = [];
+
+    // Node id → last activation, captured during run() for visualisation
+    lastActivations: Map<number, number> = new Map();
+
+    private order: number[] | null = null; // cached topological order of non-input nodes
+
+    constructor(inputCount: number, outputCount: number) {
+        this.inputCount = inputCount;
+        this.outputCount = outputCount;
+    }
+
+    /** Inputs fully connected to outputs with random weights, no hidden nodes. */
+    static createMinimal(inputCount: number, outputCount: number): NeatGenome {
+        const genome = new NeatGenome(inputCount, outputCount);
+        neatInnovations.reserveNodeIds(inputCount + outputCount);
+        for (let i = 0; i < inputCount; i++) {
+            genome.nodes.push({ id: i, kind: 'input', bias: 0 });
+        }
+        for (let o = 0; o < outputCount; o++) {
+            genome.nodes.push({ id: inputCount + o, kind: 'output', bias: (random() * 4) - 2 });
+        }
+        for (let i = 0; i < inputCount; i++) {
+            for (let o = 0; o < outputCount; o++) {
+                const to = inputCount + o;
+                genome.connections.push({
+                    innovation: neatInnovations.connectionInnovation(i, to),
+                    from: i,
+                    to,
+                    weight: (random() * 4) - 2,
+                    enabled: true,
+                });
+            }
+        }
+        return genome;
+    }
+
+    static fromJSON(json: NeatGenomeJSON): NeatGenome {
+        const genome = new NeatGenome(json.inputCount, json.outputCount);
+        genome.nodes = json.nodes.map(n => ({ ...n }));
+        genome.connections = json.connections.map(c => ({ ...c }));
+        neatInnovations.observe(json);
+        return genome;
+    }
+
+    toJSON(): NeatGenomeJSON {
+        return {
+            type: 'NeatGenome',
+            inputCount: this.inputCount,
+            outputCount: this.outputCount,
+            nodes: this.nodes.map(n => ({ ...n })),
+            connections: this.connections.map(c => ({ ...c })),
+        };
+    }
+
+    clone(): NeatGenome {
+        const copy = new NeatGenome(this.inputCount, this.outputCount);
+        copy.nodes = this.nodes.map(n => ({ ...n }));
+        copy.connections = this.connections.map(c => ({ ...c }));
+        return copy;
+    }
+
+    hiddenCount(): number {
+        return this.nodes.filter(n => n.kind === 'hidden').length;
+    }
+
+    enabledConnectionCount(): number {
+        return this.connections.filter(c => c.enabled).length;
+    }
+
+    /** Feed-forward pass in topological order. Outputs are sigmoid, like the fixed-topology network. */
+    run(inputs: number[]): number[] {
+        if (!this.order) this.order = this.topologicalOrder();
+        const values = this.lastActivations;
+        values.clear();
+        for (let i = 0; i < this.inputCount; i++) values.set(i, inputs[i] ?? 0);
+
+        const nodeById = new Map(this.nodes.map(n => [n.id, n]));
+        for (const id of this.order) {
+            let sum = nodeById.get(id)?.bias ?? 0;
+            for (const c of this.connections) {
+                if (c.enabled && c.to === id) sum += (values.get(c.from) ?? 0) * c.weight;
+            }
+            values.set(id, sigmoid(sum));
+        }
+
+        const outputs: number[] = [];
+        for (let o = 0; o < this.outputCount; o++) {
+            outputs.push(values.get(this.inputCount + o) ?? 0);
+        }
+        return outputs;
+    }
+
+    /** Kahn's algorithm over enabled connections. Non-input nodes only. */
+    private topologicalOrder(): number[] {
+        const inDegree = new Map<number, number>();
+        for (const n of this.nodes) inDegree.set(n.id, 0);
+        for (const c of this.connections) {
+            if (c.enabled) inDegree.set(c.to, (inDegree.get(c.to) ?? 0) + 1);
+        }
+        const queue = this.nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+        const order: number[] = [];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            order.push(id);
+            for (const c of this.connections) {
+                if (!c.enabled || c.from !== id) continue;
+                const d = inDegree.get(c.to)! - 1;
+                inDegree.set(c.to, d);
+                if (d === 0) queue.push(c.to);
+            }
+        }
+        return order.filter(id => id >= this.inputCount);
+    }
+
+    /**
+     * Longest-path depth of every node from the inputs (inputs = 0).
+     * Output nodes are pushed to the deepest column so they line up on the right.
+     */
+    nodeDepths(): Map<number, number> {
+        const depths = new Map<number, number>();
+        for (const n of this.nodes) depths.set(n.id, 0);
+        if (!this.order) this.order = this.topologicalOrder();
+        for (const id of this.order) {
+            let d = 0;
+            for (const c of this.connections) {
+                if (c.enabled && c.to === id) d = Math.max(d, (depths.get(c.from) ?? 0) + 1);
+            }
+            depths.set(id, Math.max(1, d));
+        }
+        let maxDepth = 1;
+        depths.forEach(d => { maxDepth = Math.max(maxDepth, d); });
+        for (const n of this.nodes) {
+            if (n.kind === 'output') depths.set(n.id, maxDepth);
+        }
+        return depths;
+    }
+
+    // ── Mutation ─────────────────────────────────────────────────────────────
+
+    /** Perturb each weight/bias with probability `rate` by `perturb()` (uniform noise in [-1, 1] by default). */
+    mutateWeights(rate: number, perturb: () => number = () => random() * 2 - 1) {
+        for (const c of this.connections) {
+            if (random() < rate) c.weight += perturb();
+        }
+        for (const n of this.nodes) {
+            if (n.kind !== 'input' && random() < rate) n.bias += perturb();
+        }
+    }
+
+    /** Split a random enabled connection A→B into A→N→B. */
+    mutateAddNode(): boolean {
+        const enabled = this.connections.filter(c => c.enabled);
+        if (enabled.length === 0) return false;
+        const conn = enabled[Math.floor(random() * enabled.length)];
+
+        let nodeId = neatInnovations.splitNodeId(conn.innovation);
+        // The same split can happen twice in one genome if the connection was re-enabled
+        if (this.nodes.some(n => n.id === nodeId)) nodeId = neatInnovations.freshNodeId();
+
+        conn.enabled = false;
+        this.nodes.push({ id: nodeId, kind: 'hidden', bias: 0 });
+        this.connections.push({
+            innovation: neatInnovations.connectionInnovation(conn.from, nodeId),
+            from: conn.from, to: nodeId, weight: 1, enabled: true,
+        });
+        this.connections.push({
+            innovation: neatInnovations.connectionInnovation(nodeId, conn.to),
+            from: nodeId, to: conn.to, weight: conn.weight, enabled: true,
+        });
+        this.order = null;
+        return true;
+    }
+
+    /** Add a new forward connection between two unconnected nodes. Tries a few random pairs. */
+    mutateAddConnection(attempts: number = 20): boolean {
+        const sources = this.nodes.filter(n => n.kind !== 'output');
+        const targets = this.nodes.filter(n => n.kind !== 'input');
+        for (let a = 0; a < attempts; a++) {
+            const from = sources[Math.floor(random() * sources.length)];
+            const to = targets[Math.floor(random() * targets.length)];
+            if (!from || !to || from.id === to.id) continue;
+            const existing = this.connections.find(c => c.from === from.id && c.to === to.id);
+            if (this.reaches(to.id, from.id)) continue; // would create a cycle
+            if (existing) {
+                if (existing.enabled) continue;
+                existing.enabled = true;
+                this.order = null;
+                return true;
+            }
+            this.connections.push({
+                innovation: neatInnovations.connectionInnovation(from.id, to.id),
+                from: from.id, to: to.id, weight: (random() * 4) - 2, enabled: true,
+            });
+            this.order = null;
+            return true;
+        }
+        return false;
+    }
+
+    /** True if there is a directed path start → target through enabled connections. */
+    private reaches(start: number, target: number): boolean {
+        const stack = [start];
+        const seen = new Set<number>();
+        while (stack.length > 0) {
+            const id = stack.pop()!;
+            if (id === target) return true;
+            if (seen.has(id)) continue;
+            seen.add(id);
+            for (const c of this.connections) {
+                if (c.enabled && c.from === id) stack.push(c.to);
+            }
+        }
+        return false;
+    }
+
+    // ── Crossover / distance ────────────────────────────────────────────────
+
+    /**
+     * Align genes by innovation number. Matching genes are inherited from either parent
+     * at random; disjoint and excess genes come from the fitter parent only.
+     */
+    static crossover(fitter: NeatGenome, other: NeatGenome): NeatGenome {
+        const child = new NeatGenome(fitter.inputCount, fitter.outputCount);
+        const otherConns = new Map(other.connections.map(c => [c.innovation, c]));
+        const otherNodes = new Map(other.nodes.map(n => [n.id, n]));
+
+        for (const c of fitter.connections) {
+            const match = otherConns.get(c.innovation);
+            const gene = { ...(match && random() < 0.5 ? match : c) };
+            // A gene disabled in either parent stays disabled most of the time
+            if (match && (!c.enabled || !match.enabled)) gene.enabled = random() > 0.75;
+            child.connections.push(gene);
+        }
+        for (const n of fitter.nodes) {
+            const match = otherNodes.get(n.id);
+            child.nodes.push({ ...(match && random() < 0.5 ? match : n) });
+        }
+        // Re-enabling genes may have closed a loop; keep the child feed-forward
+        child.disableCycles();
+        return child;
+    }
+
+    private disableCycles() {
+        const kept: NeatConnectionGene[] = [];
+        const all = this.connections;
+        this.connections = kept;
+        for (const c of all) {
+            if (c.enabled && this.reaches(c.to, c.from)) c.enabled = false;
+            kept.push(c);
+        }
+        this.order = null;
+    }
+
+    /**
+     * NEAT compatibility distance: c1·E/N + c2·D/N + c3·W̄
+     * (excess, disjoint, mean weight difference of matching genes).
+     */
+    static compatibility(a: NeatGenome, b: NeatGenome, c1 = 1, c2 = 1, c3 = 0.4): number {
+        const aMap = new Map(a.connections.map(c => [c.innovation, c]));
+        const bMap = new Map(b.connections.map(c => [c.innovation, c]));
+        const aMax = a.connections.reduce((m, c) => Math.max(m, c.innovation), -1);
+        const bMax = b.connections.reduce((m, c) => Math.max(m, c.innovation), -1);
+        const cutoff = Math.min(aMax, bMax);
+
+        let excess = 0, disjoint = 0, matching = 0, weightDiff = 0;
+        const check = (innovation: number, inOther: boolean) => {
+            if (inOther) return;
+            if (innovation > cutoff) excess++; else disjoint++;
+        };
+        aMap.forEach((c, innov) => {
+            const m = bMap.get(innov);
+            if (m) { matching++; weightDiff += Math.abs(c.weight - m.weight); }
+            check(innov, !!m);
+        });
+        bMap.forEach((_c, innov) => check(innov, aMap.has(innov)));
+
+        const n = Math.max(1, a.connections.length, b.connections.length);
+        const meanW = matching > 0 ? weightDiff / matching : 0;
+        return (c1 * excess) / n + (c2 * disjoint) / n + c3 * meanW;
+    }
+}
@@ -0,0 +1,522 @@
+// src/Network.ts
+// In-repo feed-forward network, replacing the brain.js global. All weights and biases live in one
+// Float32Array — the genome the optimizers work on — laid out per layer after the input, each
+// neuron's incoming weights followed by its bias. Forward passes keep every layer's activations
+// for the visualisation, and brain.js's NeuralNetworkJSON is read and written so saved brains and
+// brain1.json keep loading. Each layer has its own activation function (see NetworkArchitecture).
+// RecurrentNetwork below gives the hidden layers memory between decisions (Elman or GRU cells).
+
+import type { NeuralNetworkJSON } from './brain-js';
+import { type InputFeature, DEFAULT_INPUTS, INPUT_FEATURES, isInputFeature, orderInputs } from './Inputs';
+import { type SensorConfig, DEFAULT_SENSORS, isSensorConfig, sameSensorGeometry, describeSensors } from './Sensors';
+
+/** One supervised example: inputs and the outputs the network should give for them. */
+export interface TrainingSample {
+    input: number[];
+    output: number[];
+}
+
+export type Activation = 'sigmoid' | 'tanh' | 'relu' | 'leaky-relu' | 'linear';
+
+export const ACTIVATION_LABELS: Record<Activation, string> = {
+    'sigmoid': 'Sigmoid',
+    'tanh': 'Tanh',
+    'relu': 'ReLU',
+    'leaky-relu': 'Leaky ReLU',
+    'linear': 'Linear',
+};
+
+const LEAKY_RELU_ALPHA = 0.01; // brain.js's default slope below zero
+
+/** Each activation and its derivative, written in terms of the activation's output as backprop has it. */
+const ACTIVATIONS: Record<Activation, { fn: (x: number) => number; derivative: (out: number) => number }> = {
+    'sigmoid': { fn: x => 1 / (1 + Math.exp(-x)), derivative: out => out * (1 - out) },
+    'tanh': { fn: Math.tanh, derivative: out => 1 - out * out },
+    'relu': { fn: x => (x > 0 ? x : 0), derivative: out => (out > 0 ? 1 : 0) },
+    'leaky-relu': { fn: x => (x > 0 ? x : LEAKY_RELU_ALPHA * x), derivative: out => (out > 0 ? 1 : LEAKY_RELU_ALPHA) },
+    'linear': { fn: x => x, derivative: () => 1 },
+};
+
+export function isActivation(value: unknown): value is Activation {
+    return typeof value === 'string' && Object.hasOwn(ACTIVATIONS, value);
+}
+
+/**
+ * How hidden neurons compute:
+ * 'feed-forward' — from the layer below only.
+ * 'elman'        — also from the layer's own outputs at the previous decision.
+ * 'gru'          — gated recurrent unit: update and reset gates decide how much of the previous
+ *                  state is kept and how much of it feeds the new candidate state.
+ */
+export type BrainCell = 'feed-forward' | 'elman' | 'gru';
+
+export const CELL_LABELS: Record<BrainCell, string> = {
+    'feed-forward': 'Feed-forward',
+    'elman': 'Elman',
+    'gru': 'GRU',
+};
+
+export function isBrainCell(value: unknown): value is BrainCell {
+    return typeof value === 'string' && Object.hasOwn(CELL_LABELS, value);
+}
+
+/** What a fixed-topology brain is fed, its hidden layers and its output activation; outputs come from the boid. */
+export interface NetworkArchitecture {
+    inputs?: InputFeature[]; // in registry order; absent in architectures saved before the registry: sensors only
+    sensors?: SensorConfig;  // absent in architectures saved before configurable sensors: DEFAULT_SENSORS
+    cell?: BrainCell; // absent in architectures saved before recurrent brains: feed-forward
+    hidden: { size: number; activation: Activation }[];
+    output: Activation;
+}
+
+export const DEFAULT_ARCHITECTURE: NetworkArchitecture = {
+    inputs: [...DEFAULT_INPUTS],
+    sensors: { ...DEFAULT_SENSORS },
+    cell: 'feed-forward',
+    hidden: [{ size: 4, activation: 'sigmoid' }, { size: 4, activation: 'sigmoid' }],
+    output: 'sigmoid',
+};
+
+export function isNetworkArchitecture(value: unknown): value is NetworkArchitecture {
+    const a = value as NetworkArchitecture | null;
+    return !!a && isActivation(a.output) && Array.isArray(a.hidden) && (a.cell === undefined || isBrainCell(a.cell))
+        && (a.inputs === undefined || (Array.isArray(a.inputs) && a.inputs.length > 0 && a.inputs.every(isInputFeature)))
+        && (a.sensors === undefined || isSensorConfig(a.sensors))
+        && a.hidden.every(l => Number.isInteger(l?.size) && l.size > 0 && isActivation(l.activation));
+}
+
+export function sameArchitecture(a: NetworkArchitecture, b: NetworkArchitecture): boolean {
+    const sa = sensorsOf(a);
+    const sb = sensorsOf(b);
+    return sameInputs(inputsOf(a), inputsOf(b)) && sameSensorGeometry(sa, sb) && sa.noise === sb.noise && sa.dropout === sb.dropout
+        && cellOf(a) === cellOf(b) && a.output === b.output && a.hidden.length === b.hidden.length
+        && a.hidden.every((l, i) => l.size === b.hidden[i].size && l.activation === b.hidden[i].activation);
+}
+
+export function cellOf(arch: NetworkArchitecture): BrainCell {
+    return arch.cell ?? 'feed-forward';
+}
+
+export function inputsOf(arch: NetworkArchitecture): InputFeature[] {
+    return arch.inputs ?? DEFAULT_INPUTS;
+}
+
+/** Input features a saved brain was fed — its `inputs`, or sensors only for brains saved before the registry. */
+export function savedInputs(json: { inputs?: string[] }): InputFeature[] {
+    const features = orderInputs((json.inputs ?? []).filter(isInputFeature));
+    return features.length > 0 ? features : [...DEFAULT_INPUTS];
+}
+
+export function sensorsOf(arch: NetworkArchitecture): SensorConfig {
+    return arch.sensors ?? DEFAULT_SENSORS;
+}
+
+/** Sensors a saved brain was trained with — its `sensors`, or the default five rays for brains saved before they were configurable. */
+export function savedSensors(json: { sensors?: unknown }): SensorConfig {
+    return isSensorConfig(json.sensors) ? { ...json.sensors } : { ...DEFAULT_SENSORS };
+}
+
+/** Why a brain trained with `theirs` can't drive with a run's `ours`, or null if the rays are the same. */
+export function sensorsMismatch(theirs: SensorConfig, ours: SensorConfig): string | null {
+    if (sameSensorGeometry(theirs, ours)) return null;
+    return `The brain's sensors are ${describeSensors(theirs)}; the current architecture's ${describeSensors(ours)}`;
+}
+
+function sameInputs(a: InputFeature[], b: InputFeature[]): boolean {
+    return a.length === b.length && a.every((f, i) => f === b[i]);
+}
+
+/** Why something fed `theirs` (a brain, unless `subject` says otherwise) can't take a run's `ours`, or null if they're the same. */
+export function inputsMismatch(theirs: InputFeature[], ours: InputFeature[], subject = 'The brain reads'): string | null {
+    if (sameInputs(theirs, ours)) return null;
+    const names = (features: InputFeature[]) => features.map(f => INPUT_FEATURES[f].label.toLowerCase()).join(', ');
+    return `${subject} ${names(theirs)}; the current architecture ${names(ours)}`;
+}
+
+/** Architecture of a saved network. Files without per-layer activations use brain.js's one activation throughout. */
+export function architectureOf(json: NeuralNetworkJSON): NetworkArchitecture {
+    const sizes = FeedForwardNetwork.sizesOf(json);
+    const activations = FeedForwardNetwork.activationsOf(json, sizes.length - 1);
+    return {
+        inputs: savedInputs(json),
+        sensors: savedSensors(json),
+        cell: isBrainCell(json.cell) ? json.cell : 'feed-forward',
+        hidden: sizes.slice(1, -1).map((size, i) => ({ size, activation: activations[i] })),
+        output: activations[activations.length - 1],
+    };
+}
+
+/** Short form for status lines, e.g. "5 → 8 tanh → 4 relu → 2 sigmoid", prefixed with a recurrent cell. */
+export function describeArchitecture(arch: NetworkArchitecture, inputs: number, outputs: number): string {
+    const layers = [String(inputs), ...arch.hidden.map(l => `${l.size} ${l.activation}`), `${outputs} ${arch.output}`].join(' → ');
+    const cell = cellOf(arch);
+    return cell === 'feed-forward' || arch.hidden.length === 0 ? layers : `${CELL_LABELS[cell]} ${layers}`;
+}
+
+/**
+ * Why a saved network can't stand in for one of `arch` with `inputs` and `outputs`,
+ * or null when it can — the input features, sensor rays and every layer's size and activation have to match.
+ */
+export function architectureMismatch(
+    json: NeuralNetworkJSON,
+    arch: NetworkArchitecture,
+    inputs: number,
+    outputs: number,
+): string | null {
+    const sizes = FeedForwardNetwork.sizesOf(json);
+    const features = inputsMismatch(savedInputs(json), inputsOf(arch));
+    if (features) return features;
+    const sensors = sensorsMismatch(savedSensors(json), sensorsOf(arch));
+    if (sensors) return sensors;
+    if (sizes[0] !== inputs) return `The brain takes ${sizes[0]} inputs, the boids give ${inputs}`;
+    if (sizes[sizes.length - 1] !== outputs) return `The brain has ${sizes[sizes.length - 1]} outputs, the boids need ${outputs}`;
+    const theirs = architectureOf(json);
+    if (cellOf(theirs) !== cellOf(arch)) {
+        return `The brain is ${CELL_LABELS[cellOf(theirs)]}, the current architecture ${CELL_LABELS[cellOf(arch)]}`;
+    }
+    if (theirs.hidden.length !== arch.hidden.length) {
+        return `The brain has ${theirs.hidden.length} hidden layers, the current architecture ${arch.hidden.length}`;
+    }
+    for (let i = 0; i < arch.hidden.length; i++) {
+        const a = theirs.hidden[i];
+        const b = arch.hidden[i];
+        if (a.size !== b.size) return `Hidden layer ${i + 1} has ${a.size} neurons in the brain, ${b.size} in the current architecture`;
+        if (a.activation !== b.activation) {
+            return `Hidden layer ${i + 1} uses ${ACTIVATION_LABELS[a.activation]} in the brain, ${ACTIVATION_LABELS[b.activation]} in the current architecture`;
+        }
+    }
+    if (theirs.output !== arch.output) {
+        return `The brain's output uses ${ACTIVATION_LABELS[theirs.output]}, the current architecture ${ACTIVATION_LABELS[arch.output]}`;
+    }
+    return null;
+}
+
+export class FeedForwardNetwork {
+    readonly sizes: number[];             // neurons per layer, input first
+    readonly layerActivations: Activation[]; // activation of each layer after the input
+    readonly genome: Float32Array;        // every weight and bias, in the layout described above
+    readonly activations: Float32Array[]; // each layer's values from the last run(), input first
+    inputs: InputFeature[] = DEFAULT_INPUTS; // what the input layer is fed; carried into the JSON
+    sensors: SensorConfig = DEFAULT_SENSORS; // the wall sensors behind the 'sensors' input; carried into the JSON
+    private readonly offsets: number[];   // genome index of each layer's first parameter (layer 0 unused)
+    private readonly spans: number[];     // parameters per neuron of each layer (layer 0 unused)
+    private changes: Float32Array | null = null; // previous backprop step, for momentum
+
+    /**
+     * Every layer after the input uses sigmoid unless `layerActivations` says otherwise.
+     * `neuronSpans` (per layer after the input) lets subclasses give neurons more parameters
+     * than their incoming weights and bias.
+     */
+    constructor(sizes: number[], layerActivations?: Activation[], neuronSpans?: number[]) {
+        this.sizes = [...sizes];
+        this.layerActivations = sizes.slice(1).map((_, i) => layerActivations?.[i] ?? 'sigmoid');
+        this.offsets = [0];
+        this.spans = [0];
+        let count = 0;
+        for (let l = 1; l < sizes.length; l++) {
+            const span = neuronSpans?.[l - 1] ?? sizes[l - 1] + 1;
+            this.offsets.push(count);
+            this.spans.push(span);
+            count += sizes[l] * span;
+        }
+        this.genome = new Float32Array(count);
+        this.activations = sizes.map(n => new Float32Array(n));
+    }
+
+    /** Layer sizes of a saved network: its `sizes`, or else read off the weight matrices. */
+    static sizesOf(json: NeuralNetworkJSON): number[] {
+        if (json.sizes && json.sizes.length >= 2) return [...json.sizes];
+        const sizes = [json.layers[1]?.weights?.[0]?.length ?? 0];
+        for (let l = 1; l < json.layers.length; l++) sizes.push(json.layers[l].weights?.length ?? 0);
+        return sizes;
+    }
+
+    /** Activations of a saved network's `layers` layers after the input. */
+    static activationsOf(json: NeuralNetworkJSON, layers: number): Activation[] {
+        const shared = isActivation(json.options?.activation) ? json.options.activation : 'sigmoid';
+        return Array.from({ length: layers }, (_, i) => {
+            const own = json.layerActivations?.[i];
+            return isActivation(own) ? own : shared;
+        });
+    }
+
+    /** A zeroed network with `arch`'s hidden layers between `inputs` and `outputs`. */
+    static create(arch: NetworkArchitecture, inputs: number, outputs: number): FeedForwardNetwork {
+        const sizes = [inputs, ...arch.hidden.map(l => l.size), outputs];
+        const activations = [...arch.hidden.map(l => l.activation), arch.output];
+        const cell = cellOf(arch);
+        const net = cell === 'feed-forward'
+            ? new FeedForwardNetwork(sizes, activations)
+            : new RecurrentNetwork(sizes, activations, cell);
+        net.inputs = [...inputsOf(arch)];
+        net.sensors = { ...sensorsOf(arch) };
+        return net;
+    }
+
+    static fromJSON(json: NeuralNetworkJSON): FeedForwardNetwork {
+        const sizes = FeedForwardNetwork.sizesOf(json);
+        if (isBrainCell(json.cell) && json.cell !== 'feed-forward') return RecurrentNetwork.fromJSON(json);
+        const net = new FeedForwardNetwork(sizes, FeedForwardNetwork.activationsOf(json, sizes.length - 1));
+        net.inputs = savedInputs(json);
+        net.sensors = savedSensors(json);
+        for (let l = 1; l < net.sizes.length; l++) {
+            const layer = json.layers[l];
+            for (let j = 0; j < net.sizes[l]; j++) {
+                let p = net.neuronOffset(l, j);
+                for (let k = 0; k < net.sizes[l - 1]; k++) net.genome[p++] = layer?.weights?.[j]?.[k] ?? 0;
+                net.genome[p] = layer?.biases?.[j] ?? 0;
+            }
+        }
+        return net;
+    }
+
+    /**
+     * brain.js's format, so exported brains also load into brain.js itself. brain.js has one
+     * activation for the whole network, so per-layer choices go in `layerActivations`, which it ignores.
+     */
+    toJSON(): NeuralNetworkJSON {
+        const layers: NeuralNetworkJSON['layers'] = [{ weights: [], biases: [] }];
+        for (let l = 1; l < this.sizes.length; l++) {
+            const weights: number[][] = [];
+            const biases: number[] = [];
+            for (let j = 0; j < this.sizes[l]; j++) {
+                const p = this.neuronOffset(l, j);
+                weights.push(Array.from(this.genome.subarray(p, p + this.sizes[l - 1])));
+                biases.push(this.genome[p + this.sizes[l - 1]]);
+            }
+            layers.push({ weights, biases });
+        }
+        const hidden = this.layerActivations[0];
+        // brain.js only knows these; anything else falls back to its default for the shared field
+        const shared = hidden === 'linear' ? 'sigmoid' : hidden;
+        return {
+            type: 'NeuralNetwork',
+            sizes: [...this.sizes],
+            layers,
+            layerActivations: [...this.layerActivations],
+            inputs: [...this.inputs],
+            sensors: { ...this.sensors },
+            inputLookup: null,
+            inputLookupLength: 0,
+            outputLookup: null,
+            outputLookupLength: 0,
+            options: {
+                inputSize: 0,
+                outputSize: 0,
+                binaryThresh: 0.5,
+                hiddenLayers: this.sizes.slice(1, -1),
+                activation: shared,
+            },
+            // brain.js validates every training option when loading, so all of its defaults are written
+            trainOpts: {
+                activation: shared, iterations: 20000, errorThresh: 0.005, log: false, logPeriod: 10,
+                leakyReluAlpha: 0.01, learningRate: 0.3, momentum: 0.1, callbackPeriod: 10, timeout: 'Infinity',
+                beta1: 0.9, beta2: 0.999, epsilon: 1e-8,
+            },
+        };
+    }
+
+    /** Genome index of neuron `j` of `layer`'s first incoming weight; its bias follows the weights. */
+    neuronOffset(layer: number, j: number): number {
+        return this.offsets[layer] + j * this.spans[layer];
+    }
+
+    /** Parameters of each neuron of `layer`, which sit together in the genome from neuronOffset. */
+    neuronSpan(layer: number): number {
+        return this.spans[layer];
+    }
+
+    /** Forget whatever carries over between run() calls. A feed-forward network carries nothing. */
+    resetState() { }
+
+    /** Weight from neuron `k` of the previous layer into neuron `j` of `layer`. */
+    weight(layer: number, j: number, k: number): number {
+        return this.genome[this.neuronOffset(layer, j) + k];
+    }
+
+    /** Forward pass; every layer's activations stay in `activations`. Returns the outputs. */
+    run(inputs: ArrayLike<number>): number[] {
+        const { sizes, activations } = this;
+        const first = activations[0];
+        for (let k = 0; k < sizes[0]; k++) first[k] = inputs[k] ?? 0;
+        for (let l = 1; l < sizes.length; l++) this.runLayer(l);
+        return Array.from(activations[sizes.length - 1]);
+    }
+
+    /** Compute `layer`'s activations from the layer below's. */
+    protected runLayer(layer: number) {
+        const { sizes, genome, activations } = this;
+        const prev = activations[layer - 1];
+        const out = activations[layer];
+        const fanIn = sizes[layer - 1];
+        const activate = ACTIVATIONS[this.layerActivations[layer - 1]].fn;
+        let p = this.offsets[layer];
+        for (let j = 0; j < sizes[layer]; j++) {
+            let sum = 0;
+            for (let k = 0; k < fanIn; k++) sum += genome[p++] * prev[k];
+            sum += genome[p++]; // bias
+            out[j] = activate(sum);
+        }
+    }
+
+    /**
+     * One pass of stochastic backpropagation over `samples` (per-sample updates with momentum,
+     * like brain.js's trainer). Returns the mean squared error over the pass.
+     */
+    trainEpoch(samples: TrainingSample[], learningRate: number, momentum: number): number {
+        const { sizes, genome, activations, layerActivations } = this;
+        if (!this.changes) this.changes = new Float32Array(genome.length);
+        const changes = this.changes;
+        const deltas = sizes.map(n => new Float32Array(n));
+        const last = sizes.length - 1;
+        const derivatives = layerActivations.map(a => ACTIVATIONS[a].derivative);
+        let errorSum = 0;
+
+        for (const sample of samples) {
+            this.run(sample.input);
+            let sampleError = 0;
+            for (let j = 0; j < sizes[last]; j++) {
+                const out = activations[last][j];
+                const error = (sample.output[j] ?? 0) - out;
+                sampleError += error * error;
+                deltas[last][j] = error * derivatives[last - 1](out);
+            }
+            errorSum += sampleError / sizes[last];
+
+            // Hidden deltas from the layer above, before any weights change
+            for (let l = last - 1; l >= 1; l--) {
+                for (let k = 0; k < sizes[l]; k++) {
+                    let error = 0;
+                    for (let j = 0; j < sizes[l + 1]; j++) error += deltas[l + 1][j] * genome[this.neuronOffset(l + 1, j) + k];
+                    deltas[l][k] = error * derivatives[l - 1](activations[l][k]);
+                }
+            }
+
+            for (let l = 1; l <= last; l++) {
+                const prev = activations[l - 1];
+                for (let j = 0; j < sizes[l]; j++) {
+                    const p = this.neuronOffset(l, j);
+                    const delta = deltas[l][j];
+                    for (let k = 0; k <= sizes[l - 1]; k++) {
+                        const input = k < sizes[l - 1] ? prev[k] : 1; // the bias sees a constant 1
+                        const change = learningRate * delta * input + momentum * changes[p + k];
+                        changes[p + k] = change;
+                        genome[p + k] += change;
+                    }
+                }
+            }
+        }
+        return samples.length > 0 ? errorSum / samples.length : 0;
+    }
+}
+
+const sigmoid = ACTIVATIONS['sigmoid'].fn;
+const GRU_BLOCKS = 3; // candidate, update gate, reset gate
+
+/**
+ * A network whose hidden layers keep state between run() calls; the output layer stays
+ * feed-forward. Each hidden neuron's parameters are one block — weights from the layer below,
+ * weights from its own layer's previous state, bias — for an Elman cell, and three such blocks
+ * (candidate, update gate, reset gate) for a GRU. The candidate block comes first, so weight()
+ * still reads the connections from the layer below. The state is what `activations` showed
+ * after the last run(); resetState() zeroes it for a new race.
+ */
+export class RecurrentNetwork extends FeedForwardNetwork {
+    readonly cell: Exclude<BrainCell, 'feed-forward'>;
+    private readonly nextState: Float32Array[]; // per layer, the new state while the old one is still being read
+
+    constructor(sizes: number[], layerActivations: Activation[] | undefined, cell: Exclude<BrainCell, 'feed-forward'>) {
+        const last = sizes.length - 1;
+        super(sizes, layerActivations, sizes.slice(1).map((n, i) => {
+            const fanIn = sizes[i];
+            if (i + 1 === last) return fanIn + 1;
+            return (cell === 'gru' ? GRU_BLOCKS : 1) * (fanIn + n + 1);
+        }));
+        this.cell = cell;
+        this.nextState = sizes.map(n => new Float32Array(n));
+    }
+
+    static fromJSON(json: NeuralNetworkJSON): RecurrentNetwork {
+        const cell = json.cell === 'gru' ? 'gru' : 'elman';
+        const sizes = FeedForwardNetwork.sizesOf(json);
+        const net = new RecurrentNetwork(sizes, FeedForwardNetwork.activationsOf(json, sizes.length - 1), cell);
+        if (json.genome?.length !== net.genome.length) {
+            throw new Error(`Recurrent brain has ${json.genome?.length ?? 0} parameters, its layers need ${net.genome.length}`);
+        }
+        net.genome.set(json.genome);
+        net.inputs = savedInputs(json);
+        net.sensors = savedSensors(json);
+        return net;
+    }
+
+    /** brain.js has no recurrent networks, so these are saved as the genome with their shape. */
+    toJSON(): NeuralNetworkJSON {
+        return {
+            type: 'RecurrentNetwork',
+            cell: this.cell,
+            sizes: [...this.sizes],
+            layerActivations: [...this.layerActivations],
+            inputs: [...this.inputs],
+            sensors: { ...this.sensors },
+            genome: Array.from(this.genome),
+            layers: [],
+            options: { hiddenLayers: this.sizes.slice(1, -1), activation: this.layerActivations[0] },
+        };
+    }
+
+    /** Weight from neuron `k`'s previous state into neuron `j` of the same hidden `layer` (candidate block). */
+    recurrentWeight(layer: number, j: number, k: number): number {
+        return this.genome[this.neuronOffset(layer, j) + this.sizes[layer - 1] + k];
+    }
+
+    resetState() {
+        for (let l = 1; l < this.sizes.length - 1; l++) this.activations[l].fill(0);
+    }
+
+    protected runLayer(layer: number) {
+        if (layer === this.sizes.length - 1) {
+            super.runLayer(layer);
+            return;
+        }
+        const { sizes, genome, activations } = this;
+        const below = activations[layer - 1];
+        const state = activations[layer]; // previous state, overwritten once every neuron has read it
+        const n = sizes[layer];
+        const block = sizes[layer - 1] + n + 1;
+        const activate = ACTIVATIONS[this.layerActivations[layer - 1]].fn;
+        const next = this.nextState[layer];
+        for (let j = 0; j < n; j++) {
+            const p = this.neuronOffset(layer, j);
+            if (this.cell === 'elman') {
+                next[j] = activate(this.blockInput(p, below) + this.blockRecurrent(p, below.length, state) + genome[p + block - 1]);
+                continue;
+            }
+            // GRU: the reset gate scales the state's pull on the candidate, the update gate blends
+            // the candidate with the previous state
+            const z = sigmoid(this.blockInput(p + block, below) + this.blockRecurrent(p + block, below.length, state) + genome[p + 2 * block - 1]);
+            const r = sigmoid(this.blockInput(p + 2 * block, below) + this.blockRecurrent(p + 2 * block, below.length, state) + genome[p + 3 * block - 1]);
+            const candidate = activate(this.blockInput(p, below) + r * this.blockRecurrent(p, below.length, state) + genome[p + block - 1]);
+            next[j] = (1 - z) * candidate + z * state[j];
+        }
+        state.set(next);
+    }
+
+    /** Backprop through time isn't implemented, so recurrent brains are evolved only. */
+    trainEpoch(): number {
+        throw new Error('Recurrent brains can only be evolved — supervised training needs a feed-forward architecture');
+    }
+
+    /** A block's weighted sum over the layer below. */
+    private blockInput(p: number, below: Float32Array): number {
+        let sum = 0;
+        for (let k = 0; k < below.length; k++) sum += this.genome[p + k] * below[k];
+        return sum;
+    }
+
+    /** A block's weighted sum over the layer's previous state; its weights follow the `fanIn` from below. */
+    private blockRecurrent(p: number, fanIn: number, state: Float32Array): number {
+        let sum = 0;
+        for (let k = 0; k < state.length; k++) sum += this.genome[p + fanIn + k] * state[k];
+        return sum;
+    }
+}
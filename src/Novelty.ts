@@ -0,0 +1,77 @@
+// src/Novelty.ts
+// Novelty search: behaviour descriptors + an archive of past behaviours.
+// A boid's novelty is its mean distance to the k nearest behaviours seen so far.
+
+import type { Boid } from './Boid';
+import { Track } from './Track';
+import { random } from './rng';
+
+/** Number of path samples in a descriptor (shorter runs are padded with the final position). */
+export const PATH_SAMPLES = 8;
+
+/** Frames between recorded path samples in Boid.update. */
+export const PATH_SAMPLE_INTERVAL = 60;
+
+/**
+ * Behaviour descriptor, all components roughly in [0, 1]:
+ * [finalX, finalY, checkpoint progress, sample0X, sample0Y, … sample7X, sample7Y]
+ */
+export function describeBehaviour(boid: Boid, checkpointTotal: number): number[] {
+    const world = Track.FIXED_SIZE;
+    const descriptor = [
+        boid.pos.x / world,
+        boid.pos.y / world,
+        checkpointTotal > 0 ? boid.checkpointCount / checkpointTotal : 0,
+    ];
+    for (let i = 0; i < PATH_SAMPLES; i++) {
+        const p = boid.pathSamples[i] ?? boid.pos;
+        descriptor.push(p.x / world, p.y / world);
+    }
+    return descriptor;
+}
+
+function distance(a: number[], b: number[]): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+        const d = a[i] - (b[i] ?? 0);
+        sum += d * d;
+    }
+    return Math.sqrt(sum);
+}
+
+export class NoveltyArchive {
+    entries: number[][] = [];
+    k: number = 10;                 // nearest neighbours averaged for the novelty score
+    maxSize: number = 500;          // oldest entries are dropped beyond this
+    addThreshold: number = 0.15;    // novelty needed to enter the archive
+    addProbability: number = 0.02;  // small chance of archiving anyway, keeps the archive growing
+
+    /**
+     * Novelty of each descriptor against the archive plus the rest of the current population.
+     * Qualifying behaviours are added to the archive afterwards.
+     */
+    scorePopulation(descriptors: number[][]): number[] {
+        const scores = descriptors.map((d, i) => {
+            const dists: number[] = [];
+            for (let j = 0; j < descriptors.length; j++) {
+                if (j !== i) dists.push(distance(d, descriptors[j]));
+            }
+            for (const e of this.entries) dists.push(distance(d, e));
+            dists.sort((a, b) => a - b);
+            const nearest = dists.slice(0, this.k);
+            return nearest.length > 0 ? nearest.reduce((s, v) => s + v, 0) / nearest.length : 0;
+        });
+
+        descriptors.forEach((d, i) => {
+            if (scores[i] > this.addThreshold || random() < this.addProbability) this.entries.push(d);
+        });
+        if (this.entries.length > this.maxSize) {
+            this.entries.splice(0, this.entries.length - this.maxSize);
+        }
+        return scores;
+    }
+
+    clear() {
+        this.entries = [];
+    }
+}
@@ -0,0 +1,349 @@
+// src/Optimizer.ts
+// Base class for population optimizers (genetic algorithm, evolution strategies).
+// Owns the population, the per-frame update loop and the generation-boundary rules;
+// subclasses only decide how the next population is bred.
+
+import { Boid, type BrainJSON } from './Boid';
+import { Track } from './Track';
+import type { FeedForwardNetwork } from './Network';
+import { random } from './rng';
+import { NeatGenome } from './Neat';
+import { type TrackSet, aggregateFitness } from './TrackSet';
+import { type ObjectiveValues, measureObjectives, meanObjectives } from './MultiObjective';
+import type { HallOfFame } from './HallOfFame';
+import { activeFitnessLabel } from './Fitness';
+import type { StagnationEvent } from './Stagnation';
+
+/**
+ * 'weights' — evolve the weights of a fixed feed-forward network (Boid.architecture).
+ * 'neat'    — evolve topology and weights together (NeatGenome).
+ */
+export type EvolutionMode = 'weights' | 'neat';
+
+/** 'ga' — GeneticAlgorithm, 'cmaes' — CMA-ES, 'openai-es' — OpenAI-style evolution strategy. */
+export type OptimizerKind = 'ga' | 'cmaes' | 'openai-es';
+
+export const OPTIMIZER_LABELS: Record<OptimizerKind, string> = {
+    'ga': 'GA',
+    'cmaes': 'CMA-ES',
+    'openai-es': 'OpenAI-ES',
+};
+
+export interface GenerationStats {
+    generation: number;
+    survivorCount: number;
+    bestFitness: number;
+    diversity: number;
+    speciesCount: number;
+    mutationStrength: number; // search step size the next generation is bred with (see Optimizer.mutationStrength)
+    heldOutFitness: number | null; // champion's aggregate fitness on the held-out tracks; null without multi-track
+    lapRate: number; // share of the population that completed a lap (averaged over races with multi-track)
+    stagnation: StagnationEvent | null; // set when the stagnation monitor fired while breeding the next generation
+}
+
+let creatingHeadless = false;
+
+/**
+ * Build an optimizer that stays out of the live run's shared state: it neither reads nor writes
+ * the saved champion and generation in localStorage, and records no lineage. Used for sweeps.
+ */
+export function createHeadless<T extends Optimizer>(create: () => T): T {
+    creatingHeadless = true;
+    try {
+        return create();
+    } finally {
+        creatingHeadless = false;
+    }
+}
+
+export abstract class Optimizer {
+    abstract readonly kind: OptimizerKind;
+    readonly persistent: boolean = !creatingHeadless; // false when built by createHeadless
+
+    populationSize: number = 50;
+    boids: Boid[] = [];
+    generation: number = 1;
+    timer: number = 0;
+    maxLifespan: number = 2000; // frames before forcing next generation
+    evolutionMode: EvolutionMode = 'weights';
+    lastGenEndStats: GenerationStats | null = null;
+    bestFitnessThisGen: number = 0;
+    lastImprovementTimer: number = 0;
+    bestBoidDiedAt: number = -1; // timer frame when all-time-best boid died; -1 = still alive
+    protected checkpointTotal: number = 0; // checkpoints on the current track
+    hallOfFame: HallOfFame | null = null;  // each generation's champion is offered to it
+    private savedChampionFitness: number = -1; // fitness of the brain last saved as best_boid_brain this run
+
+    // Multi-track evaluation: each generation is raced once per training track (an episode)
+    trackSet: TrackSet | null = null;
+    episode: number = 0;
+    private episodeFitness: number[][] = []; // per boid, fitness on each finished episode
+    private episodeObjectives: ObjectiveValues[][] = []; // per boid, objectives on each finished episode
+    private episodeLapRates: number[] = [];              // lap share on each finished episode
+    private generationLapRate: number = 0;               // lap share of the generation just evaluated
+
+    constructor(size: number) {
+        this.populationSize = size;
+        const savedGen = this.persistent ? localStorage.getItem('current_generation') : null;
+        if (savedGen) this.generation = parseInt(savedGen);
+    }
+
+    /** Jump to `generation` (a restart or a load); generation-counting schedules start over from it. */
+    setGeneration(generation: number) {
+        this.generation = generation;
+        this.restartSchedule();
+    }
+
+    /** Forget where the run's schedules started counting. Nothing to forget by default. */
+    protected restartSchedule() { }
+
+    /** Saved champion brain from localStorage, if any. */
+    protected loadSavedBrain(): BrainJSON | null {
+        if (!this.persistent) return null;
+        const raw = localStorage.getItem('best_boid_brain');
+        if (!raw) return null;
+        const brain: BrainJSON = JSON.parse(raw);
+        // A brain of another architecture can't join this population
+        return Boid.brainMismatch(brain) ? null : brain;
+    }
+
+    update(track: Track) {
+        if (this.advance(track)) this.endGeneration(track);
+    }
+
+    /** Track the population is racing now: the current episode's training track, or `track`. */
+    raceTrack(track: Track): Track {
+        return this.trackSet ? this.trackSet.train[this.episode] : track;
+    }
+
+    /** Switch multi-track evaluation on or off; the current generation restarts from its first race. */
+    setTrackSet(trackSet: TrackSet | null, track: Track) {
+        this.trackSet = trackSet;
+        this.episode = 0;
+        this.episodeFitness = [];
+        this.episodeObjectives = [];
+        this.episodeLapRates = [];
+        this.timer = 0;
+        const start = this.raceTrack(track);
+        for (const boid of this.boids) boid.reset(start.startPoint.x, start.startPoint.y, start.startAngle);
+    }
+
+    /**
+     * One frame on the current race track. Returns true once the whole generation is
+     * evaluated: after its single race, or after the last episode with multi-track
+     * evaluation, when each boid's fitness becomes its aggregate over all episodes
+     * (and its objective vector the per-objective mean).
+     */
+    advance(track: Track): boolean {
+        if (!this.tick(this.raceTrack(track))) return false;
+        const lapRate = this.boids.filter(b => b.lapTimes.length > 0).length / Math.max(1, this.boids.length);
+        if (!this.trackSet) {
+            for (const boid of this.boids) boid.objectives = measureObjectives(boid);
+            this.generationLapRate = lapRate;
+            return true;
+        }
+        this.episodeLapRates.push(lapRate);
+
+        this.boids.forEach((boid, i) => {
+            (this.episodeFitness[i] ??= []).push(boid.fitness);
+            (this.episodeObjectives[i] ??= []).push(measureObjectives(boid));
+        });
+        this.episode++;
+        if (this.episode < this.trackSet.train.length) {
+            const next = this.raceTrack(track);
+            for (const boid of this.boids) boid.reset(next.startPoint.x, next.startPoint.y, next.startAngle);
+            this.resetGenerationTracking();
+            return false;
+        }
+
+        const settings = this.trackSet.settings;
+        this.boids.forEach((boid, i) => {
+            boid.fitness = aggregateFitness(this.episodeFitness[i], settings);
+            boid.objectives = meanObjectives(this.episodeObjectives[i]);
+        });
+        this.generationLapRate = this.episodeLapRates.reduce((s, r) => s + r, 0) / this.episodeLapRates.length;
+        this.episode = 0;
+        this.episodeFitness = [];
+        this.episodeObjectives = [];
+        this.episodeLapRates = [];
+        return true;
+    }
+
+    /** Breed the evaluated generation; new boids start on the (possibly resampled) first race track. */
+    endGeneration(track: Track) {
+        // With multi-track evaluation the recorded seed is the main track's
+        const champion = this.getBestActiveBoid();
+        if (champion) {
+            this.hallOfFame?.consider(champion.brainJSON(), champion.fitness, activeFitnessLabel(), this.generation, track.seed);
+        }
+        this.trackSet?.resample();
+        const start = this.raceTrack(track);
+        this.nextGeneration(start.startPoint.x, start.startPoint.y, start.startAngle);
+    }
+
+    /**
+     * Advance every boid one frame. Returns true once the generation is over
+     * (all dead, lifespan exceeded, or progress stalled) and ready to breed.
+     */
+    tick(track: Track): boolean {
+        this.timer++;
+        this.checkpointTotal = track.checkpoints.length;
+        let allDead = true;
+        let currentBestFitness = 0;
+        let bestAliveFitness = 0;
+        for (const boid of this.boids) {
+            boid.update(track);
+            if (!boid.isDead) {
+                allDead = false;
+                if (boid.fitness > bestAliveFitness) bestAliveFitness = boid.fitness;
+            }
+            if (boid.fitness > currentBestFitness) currentBestFitness = boid.fitness;
+        }
+
+        if (currentBestFitness > this.bestFitnessThisGen) {
+            this.bestFitnessThisGen = currentBestFitness;
+            this.lastImprovementTimer = this.timer;
+        }
+
+        // Detect when the all-time-best boid has died with no alive boid matching it.
+        // Reset the clock if an alive boid catches up (new best emerged).
+        if (this.bestFitnessThisGen > 0) {
+            if (bestAliveFitness >= this.bestFitnessThisGen) {
+                this.bestBoidDiedAt = -1; // a live boid is leading — no countdown
+            } else if (this.bestBoidDiedAt === -1) {
+                this.bestBoidDiedAt = this.timer; // best just died, start countdown
+            }
+        }
+
+        const noEliteFor500 = (this.maxLifespan - this.timer) <= 500
+            && (this.timer - this.lastImprovementTimer) >= 500;
+        const bestDeadFor500 = this.bestBoidDiedAt !== -1
+            && (this.timer - this.bestBoidDiedAt) >= 500;
+
+        return allDead || this.timer > this.maxLifespan || noEliteFor500 || bestDeadFor500;
+    }
+
+    /** Build the next population from the current (fully evaluated) one. */
+    protected abstract breed(x: number, y: number, angle: number): Boid[];
+
+    /** Reset the clock and the stall detection that ends a race. */
+    private resetGenerationTracking() {
+        this.timer = 0;
+        this.bestFitnessThisGen = 0;
+        this.lastImprovementTimer = 0;
+        this.bestBoidDiedAt = -1;
+    }
+
+    nextGeneration(x: number, y: number, angle: number) {
+        // Reset per-generation improvement tracking
+        this.resetGenerationTracking();
+
+        // The saved champion is always the best driver, whatever the optimizer selects on
+        const champion = this.getBestActiveBoid();
+
+        // Snapshot end-of-generation stats before any replacement
+        this.lastGenEndStats = {
+            generation: this.generation,
+            survivorCount: this.boids.filter(b => !b.isDead).length,
+            bestFitness: Math.max(...this.boids.map(b => b.fitness)),
+            diversity: this.calculateDiversity(),
+            speciesCount: 0,
+            mutationStrength: 0,
+            heldOutFitness: this.trackSet && champion
+                ? this.trackSet.evaluateHeldOut(champion.brainJSON(), this.maxLifespan)
+                : null,
+            lapRate: this.generationLapRate,
+            stagnation: null,
+        };
+
+        this.boids = this.breed(x, y, angle);
+        this.lastGenEndStats.mutationStrength = this.mutationStrength();
+        this.generation++;
+
+        // Save progress to local storage; a worse generation doesn't replace the run's best brain
+        if (!this.persistent) return;
+        if (champion && champion.fitness >= this.savedChampionFitness) {
+            this.savedChampionFitness = champion.fitness;
+            localStorage.setItem('best_boid_brain', JSON.stringify(champion.brainJSON()));
+        }
+        localStorage.setItem('current_generation', this.generation.toString());
+    }
+
+    /** Current mutation strength in weight units, for charting how search pressure changes. */
+    mutationStrength(): number {
+        return 0;
+    }
+
+    /** Put an imported brain into the population (the first boid by default). */
+    seedBrain(json: BrainJSON) {
+        this.boids[0]?.loadBrain(json);
+    }
+
+    getBestActiveBoid(): Boid | null {
+        let best = null;
+        let maxFit = -1;
+        for (let b of this.boids) {
+            // Select the boid with highest fitness, regardless of alive/dead status
+            // This ensures the best performer is always visualized
+            if (b.fitness > maxFit) {
+                maxFit = b.fitness;
+                best = b;
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Calculate population diversity as average pairwise distance between network weights.
+     * Higher values indicate more diverse population (good for evolution).
+     * Returns a value typically in range [0, 10+]
+     */
+    calculateDiversity(): number {
+        if (this.boids.length < 2) return 0;
+
+        // Sample networks for efficiency (use up to 10 boids)
+        const sampleSize = Math.min(10, this.boids.length);
+        const samples: Boid[] = [];
+        
+        for (let i = 0; i < sampleSize; i++) {
+            const idx = Math.floor(random() * this.boids.length);
+            samples.push(this.boids[idx]);
+        }
+
+        let totalDistance = 0;
+        let pairCount = 0;
+
+        // Calculate pairwise distances
+        for (let i = 0; i < samples.length; i++) {
+            for (let j = i + 1; j < samples.length; j++) {
+                totalDistance += this.brainDistance(samples[i], samples[j]);
+                pairCount++;
+            }
+        }
+
+        return pairCount > 0 ? totalDistance / pairCount : 0;
+    }
+
+    /**
+     * Distance between two boids' brains: NEAT compatibility distance for genomes,
+     * Euclidean weight distance for fixed-topology networks.
+     */
+    brainDistance(a: Boid, b: Boid): number {
+        if (a.genome && b.genome) return NeatGenome.compatibility(a.genome, b.genome);
+        return this.networkDistance(a.network, b.network);
+    }
+
+    /**
+     * Calculate Euclidean distance between two network genomes
+     */
+    protected networkDistance(net1: FeedForwardNetwork, net2: FeedForwardNetwork): number {
+        const g1 = net1.genome;
+        const g2 = net2.genome;
+        let sumSquares = 0;
+        for (let i = 0; i < g1.length; i++) {
+            const diff = g1[i] - (g2[i] ?? 0);
+            sumSquares += diff * diff;
+        }
+        return Math.sqrt(sumSquares);
+    }
+}
@@ -0,0 +1,102 @@
+// src/OptimizerFactory.ts
+// Single place that turns an OptimizerKind into a running optimizer, and starts runs from simState.
+// Kept apart from Optimizer.ts so the base class has no import cycle with its subclasses.
+
+import { GeneticAlgorithm } from './AI';
+import { CmaEs, OpenAiEs } from './EvolutionStrategies';
+import type { EvolutionMode, Optimizer, OptimizerKind } from './Optimizer';
+import { type SelectionSettings, DEFAULT_SELECTION } from './Selection';
+import { type CrossoverSettings, DEFAULT_CROSSOVER } from './Crossover';
+import { type MutationSettings, DEFAULT_MUTATION } from './Mutation';
+import { IslandModel } from './Islands';
+import { TrackSet } from './TrackSet';
+import { StagnationMonitor } from './Stagnation';
+import { lineage } from './Lineage';
+import { Boid } from './Boid';
+import { simState } from './SimState';
+import type { Track } from './Track';
+
+export function createOptimizer(
+    kind: OptimizerKind,
+    size: number,
+    startX: number,
+    startY: number,
+    startAngle: number,
+    mode: EvolutionMode = 'weights',
+    selection: SelectionSettings = DEFAULT_SELECTION,
+    crossover: CrossoverSettings = DEFAULT_CROSSOVER,
+    mutation: MutationSettings = DEFAULT_MUTATION,
+): Optimizer {
+    switch (kind) {
+        case 'cmaes': return new CmaEs(size, startX, startY, startAngle);
+        case 'openai-es': return new OpenAiEs(size, startX, startY, startAngle);
+        default: return new GeneticAlgorithm(size, startX, startY, startAngle, mode, selection, crossover, mutation);
+    }
+}
+
+/**
+ * Start a fresh run on `track` from the settings in simState: a single optimizer, or an
+ * IslandModel of GAs when islands are enabled. Sets simState.ga (and simState.islands);
+ * pass `generation` to restart the generation counter. New fixed-topology brains take
+ * simState.architecture from here on.
+ */
+export function startOptimizer(
+    track: Track,
+    generation?: number,
+    mode: EvolutionMode = simState.evolutionMode,
+): Optimizer {
+    lineage.reset();
+    // A copy, so editing the architecture doesn't reach the running population
+    Boid.architecture = structuredClone(simState.architecture);
+    localStorage.setItem('nnts_architecture', JSON.stringify(Boid.architecture));
+    const create = (t: Track) => {
+        const ga = createOptimizer(
+            simState.optimizerKind,
+            simState.populationSize,
+            t.startPoint.x, t.startPoint.y, t.startAngle,
+            mode,
+            simState.selection,
+            simState.crossover,
+            simState.mutation,
+        );
+        if (generation !== undefined) ga.setGeneration(generation);
+        ga.hallOfFame = simState.hallOfFame;
+        if (ga instanceof GeneticAlgorithm) {
+            ga.applySettings(simState.gaSettings);
+            ga.stagnation = new StagnationMonitor(simState.stagnation);
+        }
+        ga.setTrackSet(trackSetFor(t), t);
+        return ga;
+    };
+
+    // Migration only makes sense between GA populations
+    if (simState.optimizerKind === 'ga' && simState.islandSettings.count > 1) {
+        simState.islands = new IslandModel(simState.islandSettings, track, create);
+        simState.track = track;
+        simState.ga = simState.islands.viewed.ga;
+    } else {
+        simState.islands = null;
+        simState.track = track;
+        simState.ga = create(track);
+    }
+    return simState.ga;
+}
+
+/** Training and held-out tracks shaped like `track`, or null while multi-track evaluation is off. */
+export function trackSetFor(track: Track): TrackSet | null {
+    return simState.multiTrack.enabled ? new TrackSet(simState.multiTrack, track) : null;
+}
+
+/** Show island `index` on the canvas and in the panels. */
+export function viewIsland(index: number) {
+    const { islands } = simState;
+    if (!islands || !islands.islands[index]) return;
+    islands.viewIndex = index;
+    simState.ga = islands.viewed.ga;
+    simState.track = islands.viewed.track;
+}
+
+/** The run's main track: island 0's when islands are on, otherwise the only one. */
+export function mainTrack(): Track | null {
+    return simState.islands?.islands[0].track ?? simState.track;
+}
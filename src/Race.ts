@@ -0,0 +1,167 @@
+// src/Race.ts
+// A race between a keyboard-driven car and copies of the best AI brains. Every car is a Boid,
+// so the player has exactly the AI's physics, sensors and checkpoint rules; none of them belong
+// to the population, so the race never touches evolution.
+
+import { Boid, type BrainJSON } from './Boid';
+import type { Track } from './Track';
+import { type RngSnapshot, snapshotRng, restoreRng } from './rng';
+
+export const COUNTDOWN_FRAMES = 180;
+export const FRAMES_PER_SECOND = 60; // the simulation's nominal rate, for showing frames as time
+
+const PLAYER_COLOR = '#38bdf8';
+const RIVAL_COLOR = '#f97316';
+
+export type RacePhase = 'countdown' | 'racing' | 'finished';
+
+export interface Racer {
+    name: string;
+    boid: Boid;
+    isPlayer: boolean;
+    finishFrame: number | null; // race frame it completed the last lap on
+}
+
+/** Frames as m:ss.cc at FRAMES_PER_SECOND. */
+export function formatRaceTime(frames: number): string {
+    const seconds = frames / FRAMES_PER_SECOND;
+    const m = Math.floor(seconds / 60);
+    const s = (seconds - m * 60).toFixed(2).padStart(5, '0');
+    return `${m}:${s}`;
+}
+
+export class PlayerRace {
+    readonly track: Track;
+    readonly laps: number;
+    readonly racers: Racer[];
+    phase: RacePhase = 'countdown';
+    countdown: number = COUNTDOWN_FRAMES; // frames until the start
+    frame: number = 0;                    // frames since the start
+    private rng: RngSnapshot;             // the race's own PRNG stream, for sensor noise and dropout
+
+    /** The player and one rival per brain (named "AI 1", "AI 2", … in the order given). */
+    constructor(track: Track, laps: number, rivals: BrainJSON[], pilot: (inputs: number[]) => number[]) {
+        this.track = track;
+        this.laps = laps;
+        // New boids draw random weights; keep the simulation's PRNG stream where it was
+        const saved = snapshotRng();
+        const spawn = () => new Boid(track.startPoint.x, track.startPoint.y, track.startAngle);
+        const player = spawn();
+        player.pilot = pilot;
+        this.racers = [{ name: 'You', boid: player, isPlayer: true, finishFrame: null }];
+        rivals.forEach((brain, i) => {
+            const boid = spawn();
+            boid.loadBrain(brain);
+            this.racers.push({ name: `AI ${i + 1}`, boid, isPlayer: false, finishFrame: null });
+        });
+        this.rng = snapshotRng();
+        restoreRng(saved);
+    }
+
+    get player(): Racer {
+        return this.racers[0];
+    }
+
+    /** Advance one frame: the countdown, then every car still racing. */
+    step() {
+        if (this.phase === 'finished') return;
+        if (this.phase === 'countdown') {
+            if (--this.countdown <= 0) this.phase = 'racing';
+            return;
+        }
+        this.frame++;
+        const saved = snapshotRng();
+        restoreRng(this.rng);
+        for (const racer of this.racers) {
+            if (racer.finishFrame !== null || racer.boid.isDead) continue;
+            racer.boid.update(this.track);
+            if (racer.boid.lapTimes.length >= this.laps) racer.finishFrame = this.frame;
+        }
+        this.rng = snapshotRng();
+        restoreRng(saved);
+        if (this.racers.every(r => r.finishFrame !== null || r.boid.isDead)) this.phase = 'finished';
+    }
+
+    /** Finishers by time, then cars still running or out by distance covered. */
+    standings(): Racer[] {
+        return [...this.racers].sort((a, b) => {
+            if (a.finishFrame !== null || b.finishFrame !== null) {
+                if (a.finishFrame === null) return 1;
+                if (b.finishFrame === null) return -1;
+                return a.finishFrame - b.finishFrame;
+            }
+            return b.boid.progress - a.boid.progress;
+        });
+    }
+
+    /** Frames into the lap `racer` is on now. */
+    currentLapTime(racer: Racer): number {
+        return racer.boid.frameAge - racer.boid.lapTimes.reduce((s, t) => s + t, 0);
+    }
+
+    /** The cars, in world space. */
+    draw(ctx: CanvasRenderingContext2D) {
+        for (const racer of this.racers) {
+            if (!racer.isPlayer) racer.boid.draw(ctx, false, RIVAL_COLOR);
+        }
+        this.player.boid.draw(ctx, true, PLAYER_COLOR);
+    }
+
+    /** Countdown, lap timer and position while racing; the results once every car is done. */
+    drawHud(ctx: CanvasRenderingContext2D, width: number, height: number) {
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        if (this.phase === 'countdown') {
+            ctx.fillStyle = 'rgba(99,102,241,0.9)';
+            ctx.font = 'bold 96px Inter,sans-serif';
+            ctx.fillText(String(Math.ceil(this.countdown / FRAMES_PER_SECOND)), width / 2, height / 2);
+            return;
+        }
+        if (this.phase === 'racing') {
+            this.drawTimer(ctx, width);
+            if (this.frame < FRAMES_PER_SECOND) {
+                ctx.fillStyle = 'rgba(74,222,128,0.9)';
+                ctx.font = 'bold 96px Inter,sans-serif';
+                ctx.fillText('GO!', width / 2, height / 2);
+            }
+            return;
+        }
+        this.drawResults(ctx, width, height);
+    }
+
+    private drawTimer(ctx: CanvasRenderingContext2D, width: number) {
+        const { player } = this;
+        const standings = this.standings();
+        const lap = Math.min(this.laps, player.boid.lapTimes.length + 1);
+        const status = player.finishFrame !== null
+            ? `Finished ${formatRaceTime(player.finishFrame)}`
+            : player.boid.isDead
+                ? 'Out'
+                : `Lap ${lap}/${this.laps} · ${formatRaceTime(this.currentLapTime(player))}`;
+        const best = player.boid.lapTimes.length > 0 ? ` · best ${formatRaceTime(Math.min(...player.boid.lapTimes))}` : '';
+        ctx.fillStyle = 'rgba(10,12,16,0.75)';
+        ctx.fillRect(width / 2 - 260, 10, 520, 44);
+        ctx.fillStyle = '#ddd';
+        ctx.font = 'bold 22px Inter,sans-serif';
+        ctx.fillText(`P${standings.indexOf(player) + 1}/${this.racers.length} · ${status}${best}`, width / 2, 32);
+    }
+
+    private drawResults(ctx: CanvasRenderingContext2D, width: number, height: number) {
+        const rows = this.standings();
+        const boxH = 90 + rows.length * 30;
+        const top = (height - boxH) / 2;
+        ctx.fillStyle = 'rgba(10,12,16,0.85)';
+        ctx.fillRect(width / 2 - 220, top, 440, boxH);
+        ctx.fillStyle = 'rgba(99,102,241,0.9)';
+        ctx.font = 'bold 28px Inter,sans-serif';
+        ctx.fillText('🏁 Results', width / 2, top + 36);
+        ctx.font = '18px Inter,sans-serif';
+        rows.forEach((r, i) => {
+            const result = r.finishFrame !== null
+                ? formatRaceTime(r.finishFrame)
+                : `${r.boid.life > 0 ? 'crashed' : 'timed out'} · ${(r.boid.progress / Math.max(1, this.track.lapLength)).toFixed(2)} laps`;
+            ctx.fillStyle = r.isPlayer ? PLAYER_COLOR : '#ddd';
+            ctx.fillText(`${i + 1}. ${r.name} — ${result}`, width / 2, top + 76 + i * 30);
+        });
+    }
+}
@@ -0,0 +1,185 @@
+// src/Selection.ts
+// Parent selection strategies for the genetic algorithm.
+// Every strategy works on `boid.score` (the selection objective) and draws `count` parents at once,
+// so batch methods like stochastic universal sampling can space their picks evenly.
+
+import type { Boid } from './Boid';
+import { random } from './rng';
+
+export type SelectionKind = 'tournament' | 'roulette' | 'rank' | 'sus' | 'truncation';
+
+export const SELECTION_LABELS: Record<SelectionKind, string> = {
+    'tournament': 'Tournament',
+    'roulette': 'Roulette',
+    'rank': 'Linear rank',
+    'sus': 'SUS',
+    'truncation': 'Truncation',
+};
+
+/** Serializable selection choice + parameters (kept in SimState and saved sessions). */
+export interface SelectionSettings {
+    kind: SelectionKind;
+    tournamentSize: number;  // tournament: contestants per pick
+    rankPressure: number;    // linear rank: expected picks of the best boid, 1 (none) … 2 (max)
+    truncationCount: number; // truncation: only the top N boids can become parents
+}
+
+export const DEFAULT_SELECTION: SelectionSettings = {
+    kind: 'tournament',
+    tournamentSize: 3,
+    rankPressure: 1.7,
+    truncationCount: 5,
+};
+
+export interface SelectionStrategy {
+    readonly kind: SelectionKind;
+    /** Pick `count` parents from `pool` (with replacement). */
+    select(pool: Boid[], count: number): Boid[];
+}
+
+/** Best of `size` uniformly drawn contestants. */
+export class TournamentSelection implements SelectionStrategy {
+    readonly kind = 'tournament';
+    size: number;
+
+    constructor(size: number) {
+        this.size = size;
+    }
+
+    select(pool: Boid[], count: number): Boid[] {
+        const picks: Boid[] = [];
+        for (let n = 0; n < count; n++) {
+            let best: Boid | null = null;
+            for (let i = 0; i < this.size; i++) {
+                const candidate = pool[Math.floor(random() * pool.length)];
+                if (!best || candidate.score > best.score) best = candidate;
+            }
+            picks.push(best!);
+        }
+        return picks;
+    }
+}
+
+/** Fitness-proportionate selection: one independent spin of the wheel per parent. */
+export class RouletteSelection implements SelectionStrategy {
+    readonly kind = 'roulette';
+
+    select(pool: Boid[], count: number): Boid[] {
+        const weights = scoreWeights(pool);
+        const total = weights.reduce((s, w) => s + w, 0);
+        const picks: Boid[] = [];
+        for (let n = 0; n < count; n++) {
+            picks.push(pool[spin(weights, random() * total)]);
+        }
+        return picks;
+    }
+}
+
+/**
+ * Linear ranking (Baker): selection probability depends only on rank, not on score gaps.
+ * The best boid gets `pressure` expected picks per pool-sized draw, the worst `2 - pressure`.
+ */
+export class LinearRankSelection implements SelectionStrategy {
+    readonly kind = 'rank';
+    pressure: number;
+
+    constructor(pressure: number) {
+        this.pressure = pressure;
+    }
+
+    select(pool: Boid[], count: number): Boid[] {
+        const ranked = [...pool].sort((a, b) => a.score - b.score); // worst first
+        const n = ranked.length;
+        const weights = ranked.map((_, i) =>
+            n > 1 ? (2 - this.pressure) + 2 * (this.pressure - 1) * i / (n - 1) : 1);
+        const total = weights.reduce((s, w) => s + w, 0);
+        const picks: Boid[] = [];
+        for (let k = 0; k < count; k++) {
+            picks.push(ranked[spin(weights, random() * total)]);
+        }
+        return picks;
+    }
+}
+
+/**
+ * Stochastic universal sampling: one spin, `count` evenly spaced pointers.
+ * Same expected picks as roulette but with minimal spread. Picks come back
+ * shuffled so consecutive pairs aren't always neighbours on the wheel.
+ */
+export class StochasticUniversalSampling implements SelectionStrategy {
+    readonly kind = 'sus';
+
+    select(pool: Boid[], count: number): Boid[] {
+        const weights = scoreWeights(pool);
+        const total = weights.reduce((s, w) => s + w, 0);
+        const step = total / count;
+        let pointer = random() * step;
+        let idx = 0;
+        let cumulative = weights[0];
+        const picks: Boid[] = [];
+        for (let n = 0; n < count; n++) {
+            while (pointer > cumulative && idx < pool.length - 1) cumulative += weights[++idx];
+            picks.push(pool[idx]);
+            pointer += step;
+        }
+        return shuffle(picks);
+    }
+}
+
+/** Uniform choice among the top `count` boids; everyone else is never a parent. */
+export class TruncationSelection implements SelectionStrategy {
+    readonly kind = 'truncation';
+    count: number;
+
+    constructor(count: number) {
+        this.count = count;
+    }
+
+    select(pool: Boid[], count: number): Boid[] {
+        const top = [...pool].sort((a, b) => b.score - a.score).slice(0, Math.max(1, this.count));
+        const picks: Boid[] = [];
+        for (let n = 0; n < count; n++) {
+            picks.push(top[Math.floor(random() * top.length)]);
+        }
+        return picks;
+    }
+}
+
+export function createSelection(settings: SelectionSettings): SelectionStrategy {
+    switch (settings.kind) {
+        case 'roulette': return new RouletteSelection();
+        case 'rank': return new LinearRankSelection(settings.rankPressure);
+        case 'sus': return new StochasticUniversalSampling();
+        case 'truncation': return new TruncationSelection(settings.truncationCount);
+        default: return new TournamentSelection(settings.tournamentSize);
+    }
+}
+
+/**
+ * Wheel slot sizes for the proportionate methods. Scores can be negative
+ * (complexity penalty), so they are shifted to start at zero; if every boid
+ * then weighs zero the wheel falls back to uniform.
+ */
+function scoreWeights(pool: Boid[]): number[] {
+    const min = Math.min(...pool.map(b => b.score));
+    const weights = pool.map(b => b.score - Math.min(0, min));
+    return weights.some(w => w > 0) ? weights : weights.map(() => 1);
+}
+
+/** Index of the slot containing `target` on a wheel of cumulative `weights`. */
+function spin(weights: number[], target: number): number {
+    let cumulative = 0;
+    for (let i = 0; i < weights.length; i++) {
+        cumulative += weights[i];
+        if (target < cumulative) return i;
+    }
+    return weights.length - 1;
+}
+
+function shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+}
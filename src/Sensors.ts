@@ -0,0 +1,82 @@
+// src/Sensors.ts
+// The boids' wall sensors: N rays spread evenly over a field of view, each with its own length.
+// The geometry is part of a run's NetworkArchitecture and is saved with every brain, since a brain
+// only makes sense fed the rays it was trained on. Noise and dropout corrupt what the brain reads
+// (never what the boid collides with), to breed drivers that cope with imperfect sensors.
+
+export interface SensorConfig {
+    count: number;   // rays
+    fov: number;     // degrees between the outermost rays, centred on the heading
+    lengths: number[]; // px each ray reaches, left to right; nothing further away is seen
+    noise: number;   // σ of the Gaussian noise on each reading, as a fraction of its ray's length
+    dropout: number; // chance per ray and frame of reading nothing, as if no wall were in range
+}
+
+/** Five rays from left to right at 100 px — the sensors every boid had before they were configurable. */
+export const DEFAULT_SENSORS: SensorConfig = { count: 5, fov: 180, lengths: [100, 100, 100, 100, 100], noise: 0, dropout: 0 };
+
+export const MAX_SENSOR_COUNT = 15;
+export const MIN_SENSOR_LENGTH = 20;
+export const MAX_SENSOR_LENGTH = 300;
+
+const DEFAULT_LABELS = ['L', 'FL', 'F', 'FR', 'R'];
+
+export function isSensorConfig(value: unknown): value is SensorConfig {
+    const s = value as SensorConfig | null;
+    return !!s && Number.isInteger(s.count) && s.count >= 1 && s.count <= MAX_SENSOR_COUNT
+        && Number.isFinite(s.fov) && s.fov >= 0 && s.fov <= 360
+        && Array.isArray(s.lengths) && s.lengths.length === s.count
+        && s.lengths.every(l => Number.isFinite(l) && l > 0)
+        && Number.isFinite(s.noise) && s.noise >= 0
+        && Number.isFinite(s.dropout) && s.dropout >= 0 && s.dropout <= 1;
+}
+
+/** Whether two configs give the same rays; noise and dropout don't change what a brain is fed. */
+export function sameSensorGeometry(a: SensorConfig, b: SensorConfig): boolean {
+    return a.count === b.count && a.fov === b.fov && a.lengths.every((l, i) => l === b.lengths[i]);
+}
+
+/**
+ * `lengths` stretched or squeezed to `count` rays: each new ray takes the length the old profile
+ * has at its position across the field of view, so a long forward ray stays in front.
+ */
+export function resampleLengths(lengths: number[], count: number): number[] {
+    if (lengths.length === 1 || count === 1) {
+        const middle = lengths[Math.floor(lengths.length / 2)];
+        return new Array(count).fill(middle);
+    }
+    return Array.from({ length: count }, (_, i) => {
+        const at = i / (count - 1) * (lengths.length - 1);
+        const lo = Math.floor(at);
+        const hi = Math.min(lo + 1, lengths.length - 1);
+        return Math.round(lengths[lo] + (lengths[hi] - lengths[lo]) * (at - lo));
+    });
+}
+
+/** Angle of each ray from the heading, in radians, left (negative) to right. A single ray looks straight ahead. */
+export function sensorAngles(config: SensorConfig): number[] {
+    const { count } = config;
+    if (count === 1) return [0];
+    // A full circle would put the outermost rays on top of each other, so it's split into `count` gaps
+    const span = config.fov >= 360 ? 360 * (count - 1) / count : config.fov;
+    const step = span / (count - 1);
+    return Array.from({ length: count }, (_, i) => (-span / 2 + i * step) * Math.PI / 180);
+}
+
+/** One label per ray: L, FL, F, FR, R for the default sensors, otherwise the side and angle (L45, F, R45…). */
+export function sensorLabels(config: SensorConfig): string[] {
+    if (config.count === DEFAULT_SENSORS.count && config.fov === DEFAULT_SENSORS.fov) return [...DEFAULT_LABELS];
+    return sensorAngles(config).map(a => {
+        const degrees = Math.round(Math.abs(a) * 180 / Math.PI);
+        if (degrees === 0) return 'F';
+        return `${a < 0 ? 'L' : 'R'}${degrees}`;
+    });
+}
+
+/** Short form for status lines, e.g. "7 rays · 180° · 120 px", or "… · 60–150 px" when the rays differ. */
+export function describeSensors(config: SensorConfig): string {
+    const shortest = Math.min(...config.lengths);
+    const longest = Math.max(...config.lengths);
+    const lengths = shortest === longest ? `${longest} px` : `${shortest}–${longest} px`;
+    return `${config.count} ray${config.count === 1 ? '' : 's'} · ${config.fov}° · ${lengths}`;
+}
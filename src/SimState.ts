@@ -1,8 +1,21 @@
 // src/SimState.ts
 // Shared mutable state accessible by all panels and main.ts
 
-import type { GeneticAlgorithm } from './AI';
+import type { Optimizer, EvolutionMode, OptimizerKind } from './Optimizer';
+import { type GASettings, DEFAULT_GA_SETTINGS } from './AI';
 import type { Track } from './Track';
+import { type SelectionSettings, DEFAULT_SELECTION } from './Selection';
+import { type CrossoverSettings, DEFAULT_CROSSOVER } from './Crossover';
+import { type MutationSettings, DEFAULT_MUTATION } from './Mutation';
+import { type IslandSettings, type IslandModel, DEFAULT_ISLANDS } from './Islands';
+import { type MultiTrackSettings, DEFAULT_MULTI_TRACK } from './TrackSet';
+import { type FitnessSettings, DEFAULT_FITNESS } from './Fitness';
+import { Curriculum, DEFAULT_CURRICULUM } from './Curriculum';
+import { HallOfFame, DEFAULT_HALL_OF_FAME } from './HallOfFame';
+import { type StagnationSettings, DEFAULT_STAGNATION } from './Stagnation';
+import type { DrivingRecorder } from './Imitation';
+import type { PlayerRace } from './Race';
+import { type NetworkArchitecture, DEFAULT_ARCHITECTURE, isNetworkArchitecture } from './Network';
 
 export interface Camera {
     tx: number; // translation X in screen pixels
@@ -11,11 +24,28 @@ export interface Camera {
 }
 
 export interface SimState {
-    ga: GeneticAlgorithm | null;
-    track: Track | null;
+    ga: Optimizer | null;   // the island in view when islands are on
+    track: Track | null;    // that island's track
+    islands: IslandModel | null; // set while the island model is running
+    islandSettings: IslandSettings;
     simulationCanvas: HTMLCanvasElement | null;
     camera: Camera;
     populationSize: number;
+    evolutionMode: EvolutionMode;
+    optimizerKind: OptimizerKind;
+    architecture: NetworkArchitecture; // fixed-topology brains of runs started from now on
+    gaSettings: GASettings; // applied to every GA population, including those of later runs
+    selection: SelectionSettings;
+    crossover: CrossoverSettings;
+    mutation: MutationSettings;
+    multiTrack: MultiTrackSettings;
+    fitness: FitnessSettings;
+    curriculum: Curriculum; // track-difficulty schedule and the stage it's on
+    hallOfFame: HallOfFame; // all-time best brains, persisted in localStorage
+    stagnation: StagnationSettings; // shared by every GA's stagnation monitor
+    driving: DrivingRecorder | null; // set while a person drives to record an imitation dataset
+    race: PlayerRace | null;         // set from a race's countdown until its results are closed
+    cameraFollow: 'leader' | 'player'; // what the camera tracks; 'player' falls back to the leader with nobody driving
     isFastTraining: boolean;
     isPaused: boolean;
     simulationSeed: number;
@@ -32,12 +62,38 @@ export interface SimState {
     fitCamera: (() => void) | null;
 }
 
+/** Architecture of the last run started, so the saved best brain still fits after a reload. */
+function savedArchitecture(): NetworkArchitecture {
+    try {
+        const saved = JSON.parse(localStorage.getItem('nnts_architecture') ?? 'null');
+        if (isNetworkArchitecture(saved)) return saved;
+    } catch { /* fall through to the default */ }
+    return structuredClone(DEFAULT_ARCHITECTURE);
+}
+
 export const simState: SimState = {
     ga: null,
     track: null,
+    islands: null,
+    islandSettings: { ...DEFAULT_ISLANDS },
     simulationCanvas: null,
     camera: { tx: 0, ty: 0, scale: 1 },
     populationSize: 50,
+    evolutionMode: 'weights',
+    optimizerKind: 'ga',
+    architecture: savedArchitecture(),
+    gaSettings: { ...DEFAULT_GA_SETTINGS, paretoObjectives: [...DEFAULT_GA_SETTINGS.paretoObjectives] },
+    selection: { ...DEFAULT_SELECTION },
+    crossover: { ...DEFAULT_CROSSOVER },
+    mutation: { ...DEFAULT_MUTATION },
+    multiTrack: { ...DEFAULT_MULTI_TRACK, fixedSeeds: [] },
+    fitness: { ...DEFAULT_FITNESS },
+    curriculum: new Curriculum({ ...DEFAULT_CURRICULUM, stages: [...DEFAULT_CURRICULUM.stages] }),
+    hallOfFame: new HallOfFame({ ...DEFAULT_HALL_OF_FAME }),
+    stagnation: { ...DEFAULT_STAGNATION },
+    driving: null,
+    race: null,
+    cameraFollow: 'player',
     isFastTraining: false,
     isPaused: false,
     simulationSeed: 42,
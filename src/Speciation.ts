@@ -0,0 +1,114 @@
+// src/Speciation.ts
+// Groups the population into species by brain distance, applies explicit fitness sharing,
+// allocates offspring per species and culls species that stopped improving.
+
+import type { Boid } from './Boid';
+import { random } from './rng';
+
+export interface Species {
+    id: number;
+    representative: Boid;     // member of the previous generation new boids are compared against
+    members: Boid[];
+    bestFitness: number;      // best raw fitness this species has ever reached
+    staleGenerations: number; // generations since bestFitness last improved
+    sharedFitnessSum: number; // sum of members' shared (size-divided) scores
+    offspring: number;        // children allotted for the next generation
+}
+
+let nextSpeciesId = 1;
+
+/**
+ * Place every boid in the first species whose representative is within `threshold`,
+ * founding a new species otherwise. Empty species are dropped and each surviving
+ * species picks a random member as next generation's representative.
+ */
+export function assignSpecies(
+    boids: Boid[],
+    species: Species[],
+    threshold: number,
+    distance: (a: Boid, b: Boid) => number,
+): Species[] {
+    for (const s of species) s.members = [];
+
+    for (const boid of boids) {
+        const home = species.find(s => distance(boid, s.representative) < threshold);
+        if (home) {
+            home.members.push(boid);
+        } else {
+            species.push({
+                id: nextSpeciesId++,
+                representative: boid,
+                members: [boid],
+                bestFitness: 0,
+                staleGenerations: 0,
+                sharedFitnessSum: 0,
+                offspring: 0,
+            });
+        }
+    }
+
+    const alive = species.filter(s => s.members.length > 0);
+    for (const s of alive) {
+        s.representative = s.members[Math.floor(random() * s.members.length)];
+    }
+    return alive;
+}
+
+/**
+ * Track per-species improvement and remove species stale for `limit` generations.
+ * The species holding the population's best boid is never removed.
+ */
+export function cullStagnantSpecies(species: Species[], limit: number): Species[] {
+    let champion: Species | null = null;
+    let championFitness = -Infinity;
+
+    for (const s of species) {
+        const best = Math.max(...s.members.map(b => b.fitness));
+        if (best > s.bestFitness) {
+            s.bestFitness = best;
+            s.staleGenerations = 0;
+        } else {
+            s.staleGenerations++;
+        }
+        if (best > championFitness) {
+            championFitness = best;
+            champion = s;
+        }
+    }
+
+    return species.filter(s => s === champion || s.staleGenerations < limit);
+}
+
+/**
+ * Explicit fitness sharing: each member's score is divided by its species size,
+ * so a large cluster of near-identical brains can't crowd out smaller niches.
+ */
+export function shareFitness(species: Species[]) {
+    for (const s of species) {
+        s.sharedFitnessSum = 0;
+        for (const b of s.members) {
+            b.score = Math.max(0, b.score) / s.members.length;
+            s.sharedFitnessSum += b.score;
+        }
+    }
+}
+
+/** Split `slots` offspring across species in proportion to their shared fitness. */
+export function allocateOffspring(species: Species[], slots: number) {
+    if (species.length === 0) return;
+    const total = species.reduce((sum, s) => sum + s.sharedFitnessSum, 0);
+
+    let assigned = 0;
+    for (const s of species) {
+        const share = total > 0 ? s.sharedFitnessSum / total : 1 / species.length;
+        s.offspring = Math.floor(share * slots);
+        assigned += s.offspring;
+    }
+
+    // Hand rounding leftovers to the strongest species first
+    const ranked = [...species].sort((a, b) => b.sharedFitnessSum - a.sharedFitnessSum);
+    for (let i = 0; assigned < slots; i = (i + 1) % ranked.length) {
+        ranked[i].offspring++;
+        assigned++;
+    }
+}
@@ -0,0 +1,86 @@
+// src/Stagnation.ts
+// Stagnation monitor: notices when a GA run has stopped improving — no new peak fitness for a
+// while, or the population has collapsed onto one brain — and picks the response to run.
+
+export type StagnationStrategy = 'hypermutation' | 'immigrants' | 'restart' | 'novelty';
+
+export const STAGNATION_LABELS: Record<StagnationStrategy, string> = {
+    'hypermutation': 'Hypermutation burst',
+    'immigrants': 'Random immigrants',
+    'restart': 'Restart, keep elites',
+    'novelty': 'Switch to novelty',
+};
+
+export interface StagnationSettings {
+    enabled: boolean;
+    strategy: StagnationStrategy;
+    generations: number;        // generations without a new peak fitness; also the wait between triggers
+    diversityThreshold: number; // also trigger when diversity falls below this; 0 = off
+    burstFactor: number;        // hypermutation: multiplier on the mutation rates
+    burstGenerations: number;   // hypermutation and novelty: generations the response lasts
+    immigrantShare: number;     // immigrants: share of the population replaced by random brains
+}
+
+export const DEFAULT_STAGNATION: StagnationSettings = {
+    enabled: false,
+    strategy: 'hypermutation',
+    generations: 20,
+    diversityThreshold: 0,
+    burstFactor: 4,
+    burstGenerations: 3,
+    immigrantShare: 0.3,
+};
+
+export type StagnationReason = 'plateau' | 'diversity';
+
+/** One firing of the monitor: the generation it ended, why, and the response started. */
+export interface StagnationEvent {
+    generation: number;
+    reason: StagnationReason;
+    strategy: StagnationStrategy;
+}
+
+/** Log line for an event, e.g. "gen 42: no new best for 20 gens → Hypermutation burst". */
+export function describeStagnationEvent(event: StagnationEvent, settings: StagnationSettings): string {
+    const why = event.reason === 'plateau'
+        ? `no new best for ${settings.generations} gens`
+        : `diversity below ${settings.diversityThreshold}`;
+    return `gen ${event.generation}: ${why} → ${STAGNATION_LABELS[event.strategy]}`;
+}
+
+export class StagnationMonitor {
+    settings: StagnationSettings;
+    events: StagnationEvent[] = [];
+    private lastTrigger: number = -Infinity; // generation of the last event
+    private activeUntil: number = -Infinity; // last generation bred under a timed response
+
+    constructor(settings: StagnationSettings) {
+        this.settings = settings;
+    }
+
+    /**
+     * Judge a finished generation. Fires when `staleGenerations` reaches `generations` or
+     * `diversity` drops below the threshold, at most once every `generations` generations
+     * so a response gets the chance to work before the next one.
+     */
+    check(generation: number, staleGenerations: number, diversity: number): StagnationEvent | null {
+        const s = this.settings;
+        if (!s.enabled || generation - this.lastTrigger < s.generations) return null;
+        const reason: StagnationReason | null = staleGenerations >= s.generations
+            ? 'plateau'
+            : s.diversityThreshold > 0 && diversity < s.diversityThreshold ? 'diversity' : null;
+        if (!reason) return null;
+
+        const event: StagnationEvent = { generation, reason, strategy: s.strategy };
+        this.lastTrigger = generation;
+        this.activeUntil = generation + s.burstGenerations - 1;
+        this.events.push(event);
+        return event;
+    }
+
+    /** Whether a timed response (hypermutation, novelty) of `strategy` covers breeding `generation`. */
+    isActive(strategy: StagnationStrategy, generation: number): boolean {
+        const last = this.events[this.events.length - 1];
+        return last?.strategy === strategy && generation <= this.activeUntil;
+    }
+}
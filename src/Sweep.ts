@@ -0,0 +1,189 @@
+// src/Sweep.ts
+// Hyperparameter sweeps: grid or random search over GA settings, each configuration trained
+// headlessly from scratch once per seed. Every run reseeds the PRNG and keeps its own stream,
+// so a configuration and seed always produce the same result, whatever else runs alongside.
+
+import { GeneticAlgorithm } from './AI';
+import { createHeadless } from './Optimizer';
+import { Track, type TrackParams } from './Track';
+import type { SelectionSettings } from './Selection';
+import type { CrossoverSettings } from './Crossover';
+import type { MutationSettings } from './Mutation';
+import { type RngSnapshot, seedRng, snapshotRng, restoreRng, random } from './rng';
+
+export type SweepParam = 'populationSize' | 'mutationRate' | 'tournamentSize' | 'eliteCount' | 'maxLifespan';
+
+export const SWEEP_PARAMS: Record<SweepParam, { label: string; integer: boolean; min: number; max: number }> = {
+    populationSize: { label: 'Population', integer: true, min: 4, max: 500 },
+    mutationRate: { label: 'Mutation rate', integer: false, min: 0, max: 1 },
+    tournamentSize: { label: 'Tournament', integer: true, min: 2, max: 50 },
+    eliteCount: { label: 'Elites', integer: true, min: 0, max: 50 },
+    maxLifespan: { label: 'Lifespan', integer: true, min: 100, max: 10000 },
+};
+
+export const SWEEP_PARAM_KEYS = Object.keys(SWEEP_PARAMS) as SweepParam[];
+
+export type SweepMode = 'grid' | 'random';
+
+/** One set of values for the swept parameters. */
+export type SweepConfig = Record<SweepParam, number>;
+
+export interface SweepDefinition {
+    mode: SweepMode;
+    params: Record<SweepParam, number[]>; // grid: every value to try; random: [min, max] (one value = fixed)
+    samples: number;     // random: configurations drawn
+    seeds: number[];     // each configuration is trained once per seed (> 0)
+    generations: number; // generations per run
+}
+
+export const DEFAULT_SWEEP: SweepDefinition = {
+    mode: 'grid',
+    params: {
+        populationSize: [50],
+        mutationRate: [0.05, 0.1, 0.2],
+        tournamentSize: [3],
+        eliteCount: [1, 3],
+        maxLifespan: [2000],
+    },
+    samples: 8,
+    seeds: [1, 2],
+    generations: 20,
+};
+
+/** What one run of one configuration achieved. */
+export interface SweepResult {
+    config: SweepConfig;
+    seed: number;
+    peakFitness: number;
+    firstLapGeneration: number | null; // generations until a boid first completed a lap; null if none did
+    finalDiversity: number;
+}
+
+/** The settings a sweep run shares with the live run; only the swept parameters differ. */
+export interface SweepBase {
+    selection: SelectionSettings;
+    crossover: CrossoverSettings;
+    mutation: MutationSettings;
+    trackParams: TrackParams;
+    trackSeed: number; // > 0
+}
+
+/**
+ * The configurations a definition asks for: the full grid, or `samples` uniform draws
+ * (rounded for integer parameters). Random draws use their own PRNG stream seeded from the
+ * first seed, so the same definition always gives the same configurations.
+ */
+export function expandSweep(def: SweepDefinition): SweepConfig[] {
+    if (def.mode === 'grid') {
+        let configs: Partial<SweepConfig>[] = [{}];
+        for (const key of SWEEP_PARAM_KEYS) {
+            configs = configs.flatMap(c => def.params[key].map(v => ({ ...c, [key]: v })));
+        }
+        return configs as SweepConfig[];
+    }
+
+    const saved = snapshotRng();
+    seedRng(def.seeds[0] ?? 1);
+    const configs: SweepConfig[] = [];
+    for (let i = 0; i < def.samples; i++) {
+        const config = {} as SweepConfig;
+        for (const key of SWEEP_PARAM_KEYS) {
+            const values = def.params[key];
+            const lo = Math.min(...values);
+            const hi = Math.max(...values);
+            const v = lo + random() * (hi - lo);
+            config[key] = SWEEP_PARAMS[key].integer ? Math.round(v) : Math.round(v * 1000) / 1000;
+        }
+        configs.push(config);
+    }
+    restoreRng(saved);
+    return configs;
+}
+
+/**
+ * One configuration trained for `generations` generations on its own copy of the track.
+ * Call run() repeatedly until it returns true; each call simulates a bounded number of frames.
+ */
+export class SweepJob {
+    readonly config: SweepConfig;
+    readonly seed: number;
+    readonly generations: number;
+    generationsRun: number = 0;
+    private ga: GeneticAlgorithm;
+    private track: Track;
+    private rng: RngSnapshot; // this run's PRNG position between calls to run()
+    private peakFitness: number = 0;
+    private firstLapGeneration: number | null = null;
+    private finalDiversity: number = 0;
+
+    constructor(config: SweepConfig, seed: number, generations: number, base: SweepBase) {
+        this.config = config;
+        this.seed = seed;
+        this.generations = generations;
+
+        const saved = snapshotRng();
+        seedRng(seed);
+        this.track = new Track(Track.FIXED_SIZE, Track.FIXED_SIZE);
+        this.track.setParams(base.trackParams);
+        this.track.generateSimpleLoopedTrack(Track.FIXED_SIZE, Track.FIXED_SIZE, base.trackSeed);
+
+        // Same limits the Config panel applies to its sliders
+        const size = Math.max(4, config.populationSize);
+        const selection = { ...base.selection, tournamentSize: Math.min(config.tournamentSize, size - 1) };
+        const { x, y } = this.track.startPoint;
+        this.ga = createHeadless(() => new GeneticAlgorithm(
+            size, x, y, this.track.startAngle, 'weights', selection, base.crossover, base.mutation,
+        ));
+        this.ga.setGeneration(1);
+        this.ga.mutationRate = config.mutationRate;
+        this.ga.eliteCount = Math.min(config.eliteCount, size - 2);
+        this.ga.maxLifespan = config.maxLifespan;
+        this.rng = snapshotRng();
+        restoreRng(saved);
+    }
+
+    get done(): boolean {
+        return this.generationsRun >= this.generations;
+    }
+
+    /** Simulate up to `frames` frames on this run's PRNG stream. Returns true once it's finished. */
+    run(frames: number): boolean {
+        const saved = snapshotRng();
+        restoreRng(this.rng);
+        for (let i = 0; i < frames && !this.done; i++) {
+            if (!this.ga.advance(this.track)) continue;
+            this.ga.endGeneration(this.track);
+            this.generationsRun++;
+            const stats = this.ga.lastGenEndStats!;
+            this.peakFitness = Math.max(this.peakFitness, stats.bestFitness);
+            if (this.firstLapGeneration === null && stats.lapRate > 0) this.firstLapGeneration = this.generationsRun;
+            this.finalDiversity = stats.diversity;
+        }
+        this.rng = snapshotRng();
+        restoreRng(saved);
+        return this.done;
+    }
+
+    result(): SweepResult {
+        return {
+            config: this.config,
+            seed: this.seed,
+            peakFitness: this.peakFitness,
+            firstLapGeneration: this.firstLapGeneration,
+            finalDiversity: this.finalDiversity,
+        };
+    }
+}
+
+/** One CSV row per run: the configuration, the seed and the three measurements. */
+export function sweepCSV(results: SweepResult[]): string {
+    const header = [...SWEEP_PARAM_KEYS, 'seed', 'peak_fitness', 'first_lap_generation', 'final_diversity'];
+    const rows = results.map(r => [
+        ...SWEEP_PARAM_KEYS.map(k => r.config[k]),
+        r.seed,
+        r.peakFitness.toFixed(2),
+        r.firstLapGeneration ?? '',
+        r.finalDiversity.toFixed(4),
+    ].join(','));
+    return [header.join(','), ...rows].join('\n') + '\n';
+}
@@ -15,6 +15,29 @@ function seededRandom(seed: number): () => number {
     };
 }
 
+/** Shape parameters a track is generated from (everything but the seed). */
+export interface TrackParams {
+    trackWidth: number;
+    numControlPoints: number;
+    segmentsPerCurve: number;
+    radiusVariance: number;
+    cornerTightness: number;
+}
+
+/** Where a point lies along the centre line: the nearest segment and the arc length from centerLine[0]. */
+export interface CenterLineProjection {
+    segment: number;
+    arc: number;
+}
+
+export type TrackPresetName = 'oval' | 'technical' | 'f1';
+
+export const TRACK_PRESETS: Record<TrackPresetName, TrackParams> = {
+    oval:      { numControlPoints: 8,  radiusVariance: 0.05, cornerTightness: 0.05, trackWidth: 150, segmentsPerCurve: 15 },
+    technical: { numControlPoints: 16, radiusVariance: 0.45, cornerTightness: 0.35, trackWidth: 100, segmentsPerCurve: 18 },
+    f1:        { numControlPoints: 14, radiusVariance: 0.55, cornerTightness: 0.25, trackWidth: 110, segmentsPerCurve: 18 },
+};
+
 export class Track {
     innerWalls: [Vector, Vector][] = [];
     outerWalls: [Vector, Vector][] = [];
@@ -27,6 +50,8 @@ export class Track {
     // Spline-based track data
     centerLine: Vector[] = [];
     controlPoints: Vector[] = []; // raw control points — editable
+    lapLength: number = 0;        // centre-line length of one lap
+    private arcAt: number[] = []; // centre-line distance from centerLine[0] to each point
 
     // Tuneable generation parameters
     trackWidth: number = 120;
@@ -40,6 +65,8 @@ export class Track {
 
     // Fixed canvas size for consistent track generation
     static readonly FIXED_SIZE = 1200;
+    // Segments searched either side of the previous one when tracking progress along the centre line
+    static readonly PROJECTION_WINDOW = 8;
 
     constructor(_canvasWidth: number, _canvasHeight: number, seed: number = 0) {
         this.seed = seed;
@@ -252,6 +279,68 @@ export class Track {
             this.outerWalls.push([prevOuter, firstOuter]);
             this.checkpoints.push([firstInner, firstOuter]);
         }
+        this.computeArcLengths();
+    }
+
+    /** Cumulative centre-line length up to each centre-line point, and the full loop. */
+    private computeArcLengths() {
+        const n = this.centerLine.length;
+        this.arcAt = [];
+        this.lapLength = 0;
+        for (let i = 0; i < n; i++) {
+            this.arcAt.push(this.lapLength);
+            this.lapLength += this.centerLine[i].dist(this.centerLine[(i + 1) % n]);
+        }
+    }
+
+    /**
+     * Project `p` onto the nearest centre-line segment. With a `hint` (the segment found last
+     * frame) only nearby segments are searched, so a boid on a hairpin can't snap to the
+     * straight running alongside it.
+     */
+    projectOntoCenterLine(p: Vector, hint = -1): CenterLineProjection {
+        const n = this.centerLine.length;
+        if (n < 2) return { segment: 0, arc: 0 };
+        const window = hint < 0 ? Math.ceil(n / 2) : Track.PROJECTION_WINDOW;
+        const from = hint < 0 ? 0 : hint;
+        let best: CenterLineProjection = { segment: 0, arc: 0 };
+        let bestDist = Infinity;
+        for (let k = -window; k <= window; k++) {
+            const i = (((from + k) % n) + n) % n;
+            const a = this.centerLine[i];
+            const b = this.centerLine[(i + 1) % n];
+            const dx = b.x - a.x, dy = b.y - a.y;
+            const len2 = dx * dx + dy * dy;
+            const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / len2)) : 0;
+            const d = Math.hypot(a.x + dx * t - p.x, a.y + dy * t - p.y);
+            if (d < bestDist) {
+                bestDist = d;
+                best = { segment: i, arc: this.arcAt[i] + Math.sqrt(len2) * t };
+            }
+        }
+        return best;
+    }
+
+    /**
+     * Signed turn of the centre line over the `distance` ahead of `segment`, in radians:
+     * the direction `distance` further along minus the segment's own (positive = clockwise on screen).
+     */
+    turnAhead(segment: number, distance: number): number {
+        const n = this.centerLine.length;
+        if (n < 3) return 0;
+        const direction = (i: number) => {
+            const a = this.centerLine[i % n];
+            const b = this.centerLine[(i + 1) % n];
+            return Math.atan2(b.y - a.y, b.x - a.x);
+        };
+        let i = segment;
+        let walked = 0;
+        while (walked < distance && i - segment < n) {
+            walked += this.centerLine[i % n].dist(this.centerLine[(i + 1) % n]);
+            i++;
+        }
+        const turn = direction(i) - direction(segment);
+        return Math.atan2(Math.sin(turn), Math.cos(turn));
     }
 
     /**
@@ -449,6 +538,25 @@ export class Track {
         this.findStartPoint();
     }
 
+    getParams(): TrackParams {
+        return {
+            trackWidth: this.trackWidth,
+            numControlPoints: this.numControlPoints,
+            segmentsPerCurve: this.segmentsPerCurve,
+            radiusVariance: this.radiusVariance,
+            cornerTightness: this.cornerTightness,
+        };
+    }
+
+    /** Set the shape parameters; takes effect on the next generate call. */
+    setParams(params: TrackParams) {
+        this.trackWidth = params.trackWidth;
+        this.numControlPoints = params.numControlPoints;
+        this.segmentsPerCurve = params.segmentsPerCurve;
+        this.radiusVariance = params.radiusVariance;
+        this.cornerTightness = params.cornerTightness;
+    }
+
     /**
      * Regenerate track with a new random seed
      */
@@ -0,0 +1,100 @@
+// src/TrackSet.ts
+// Multi-track evaluation: every brain races K training tracks per generation and its fitness
+// is aggregated across them. A separate held-out set, never used for selection, measures
+// how well the generation's champion generalises to layouts it hasn't trained on.
+
+import { Boid, type BrainJSON } from './Boid';
+import { Track } from './Track';
+import { random } from './rng';
+
+/** 'fixed' — the same training tracks every generation, 'sampled' — fresh tracks each generation. */
+export type TrackSampling = 'fixed' | 'sampled';
+
+/** How per-track fitness becomes one number: average, worst track, or a low percentile. */
+export type FitnessAggregate = 'mean' | 'min' | 'percentile';
+
+export interface MultiTrackSettings {
+    enabled: boolean;
+    trackCount: number;    // training tracks per generation (K)
+    sampling: TrackSampling;
+    fixedSeeds: number[];  // 'fixed' sampling: explicit seeds; missing ones are drawn from the PRNG
+    heldOutCount: number;  // held-out tracks the champion is scored on each generation
+    aggregate: FitnessAggregate;
+    percentile: number;    // 'percentile' aggregate, 0–100
+}
+
+export const DEFAULT_MULTI_TRACK: MultiTrackSettings = {
+    enabled: false,
+    trackCount: 3,
+    sampling: 'fixed',
+    fixedSeeds: [],
+    heldOutCount: 2,
+    aggregate: 'mean',
+    percentile: 25,
+};
+
+export function aggregateFitness(values: number[], settings: MultiTrackSettings): number {
+    if (values.length === 0) return 0;
+    switch (settings.aggregate) {
+        case 'min':
+            return Math.min(...values);
+        case 'percentile': {
+            const sorted = [...values].sort((a, b) => a - b);
+            const pos = (Math.min(100, Math.max(0, settings.percentile)) / 100) * (sorted.length - 1);
+            const lo = Math.floor(pos);
+            const hi = Math.ceil(pos);
+            return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+        }
+        default:
+            return values.reduce((s, v) => s + v, 0) / values.length;
+    }
+}
+
+function randomSeed(): number {
+    return Math.floor(random() * 1000000) + 1;
+}
+
+export class TrackSet {
+    settings: MultiTrackSettings;
+    train: Track[];
+    heldOut: Track[];
+    private template: Track;
+
+    /** Tracks are generated with `template`'s shape parameters (width, variance, corners…). */
+    constructor(settings: MultiTrackSettings, template: Track) {
+        this.settings = settings;
+        this.template = template;
+        const count = Math.max(1, settings.trackCount);
+        this.train = Array.from({ length: count }, (_, i) =>
+            this.makeTrack(settings.sampling === 'fixed' && settings.fixedSeeds[i] ? settings.fixedSeeds[i] : randomSeed()));
+        this.heldOut = Array.from({ length: settings.heldOutCount }, () => this.makeTrack(randomSeed()));
+    }
+
+    /** Draw new training tracks in 'sampled' mode; fixed and held-out tracks never change. */
+    resample() {
+        if (this.settings.sampling !== 'sampled') return;
+        for (const track of this.train) track.generateSimpleLoopedTrack(Track.FIXED_SIZE, Track.FIXED_SIZE, randomSeed());
+    }
+
+    /**
+     * Race a copy of `brain` alone on every held-out track, up to `maxFrames` each,
+     * and aggregate its fitness the same way training fitness is aggregated.
+     */
+    evaluateHeldOut(brain: BrainJSON, maxFrames: number): number | null {
+        if (this.heldOut.length === 0) return null;
+        const scores = this.heldOut.map(track => {
+            const boid = new Boid(track.startPoint.x, track.startPoint.y, track.startAngle);
+            boid.loadBrain(brain);
+            for (let frame = 0; frame < maxFrames && !boid.isDead; frame++) boid.update(track);
+            return boid.fitness;
+        });
+        return aggregateFitness(scores, this.settings);
+    }
+
+    private makeTrack(seed: number): Track {
+        const track = new Track(Track.FIXED_SIZE, Track.FIXED_SIZE);
+        track.setParams(this.template.getParams());
+        track.generateSimpleLoopedTrack(Track.FIXED_SIZE, Track.FIXED_SIZE, seed);
+        return track;
+    }
+}
@@ -1,4 +1,7 @@
-// Type declarations for brain.js (loaded as global via <script> tag)
+// Type declarations for brain.js's network JSON format — the format fixed-topology brains are
+// saved and loaded in (see Network.ts), so exports stay compatible with brain.js.
+
+import type { SensorConfig } from './Sensors';
 
 export interface NeuralNetworkOptions {
     hiddenLayers: number[];
@@ -8,6 +11,7 @@ export interface NeuralNetworkOptions {
     iterations?: number;
     inputSize?: number;
     outputSize?: number;
+    binaryThresh?: number;
 }
 
 export interface NeuralNetworkLayer {
@@ -17,28 +21,17 @@ export interface NeuralNetworkLayer {
 
 export interface NeuralNetworkJSON {
     type: string;
+    sizes?: number[]; // neurons per layer, input first; older exports may leave it out
     options: NeuralNetworkOptions;
     layers: NeuralNetworkLayer[];
-    inputLookup?: Record<string, number>;
+    layerActivations?: string[]; // our own extension: activation per layer after the input
+    inputs?: string[];  // our own extension: input features fed to the network (see Inputs.ts)
+    sensors?: SensorConfig; // our own extension: the wall sensors it was trained with (see Sensors.ts)
+    cell?: string;      // recurrent networks (our own format): 'elman' or 'gru'
+    genome?: number[];  // recurrent networks: every parameter, in RecurrentNetwork's layout
+    inputLookup?: Record<string, number> | null;
     inputLookupLength?: number;
-    outputLookup?: Record<string, number>;
+    outputLookup?: Record<string, number> | null;
     outputLookupLength?: number;
-}
-
-export interface NeuralNetwork {
-    train(data: Array<{ input: number[], output: number[] }>, options?: {
-        iterations?: number;
-        errorThresh?: number;
-        log?: boolean;
-        learningRate?: number;
-    }): void;
-    run(input: number[]): number[];
-    toJSON(): NeuralNetworkJSON;
-    fromJSON(json: NeuralNetworkJSON): void;
-}
-
-declare global {
-    const brain: {
-        NeuralNetwork: new (options?: NeuralNetworkOptions) => NeuralNetwork;
-    };
+    trainOpts?: Record<string, unknown>;
 }
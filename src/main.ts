@@ -1,17 +1,26 @@
 // src/main.ts
 import '../style.css';
 import { Track } from './Track';
-import { GeneticAlgorithm } from './AI';
+import { type StagnationEvent, describeStagnationEvent } from './Stagnation';
+import { startOptimizer } from './OptimizerFactory';
 import { simState } from './SimState';
 import { seedRng, random } from './rng';
 import { PanelManager } from './PanelManager';
 import { createBrainPanel, updateBrainPanel } from './panels/BrainPanel';
 import { createMinimapPanel, updateMinimapPanel } from './panels/MinimapPanel';
 import { createChartPanel, updateChartPanel, recordChartData } from './panels/ChartPanel';
-import { createConfigPanel, updateConfigPanel } from './panels/ConfigPanel';
+import { createConfigPanel, updateConfigPanel, applyCurriculumStage, renderCurriculum } from './panels/ConfigPanel';
 import { createSaveLoadPanel } from './panels/SaveLoadPanel';
-import { createDebugPanel, updateDebugPanel } from './panels/DebugPanel';
+import { createDebugPanel, updateDebugPanel, debugLog } from './panels/DebugPanel';
 import { createTrackPanel, updateTrackPanel } from './panels/TrackPanel';
+import { createBenchmarkPanel } from './panels/BenchmarkPanel';
+import { createParetoPanel, updateParetoPanel } from './panels/ParetoPanel';
+import { createHallOfFamePanel, updateHallOfFamePanel } from './panels/HallOfFamePanel';
+import { createLineagePanel, updateLineagePanel } from './panels/LineagePanel';
+import { createSweepPanel } from './panels/SweepPanel';
+import { createImitationPanel, updateImitationPanel } from './panels/ImitationPanel';
+import { createRacePanel, updateRacePanel } from './panels/RacePanel';
+import { createArchitecturePanel, updateArchitecturePanel } from './panels/ArchitecturePanel';
 
 // Reference to PanelManager so reset can reach it
 let panelManager: PanelManager;
@@ -68,11 +77,12 @@ function adjustZoom(factor: number) {
   updateZoomLabel();
 }
 
-/** Smooth-follow the leading boid each frame (lerp tx/ty toward target). */
+/** Smooth-follow the leading boid each frame (lerp tx/ty toward target), or the car a person drives. */
 function followLeader() {
   const { ga, simulationCanvas: c, camera } = simState;
   if (!ga || !c) return;
-  const best = ga.getBestActiveBoid();
+  const player = simState.race?.player.boid ?? simState.driving?.boid;
+  const best = (simState.cameraFollow === 'player' && player) || ga.getBestActiveBoid();
   if (!best) return;
 
   const { scale } = camera;
@@ -85,7 +95,7 @@ function followLeader() {
 
 /** Reset all panel positions to defaults (clears localStorage). */
 function resetPanelLayout() {
-  ['brain', 'minimap', 'chart', 'config', 'saveload', 'debug', 'track'].forEach(id => {
+  ['brain', 'minimap', 'chart', 'config', 'saveload', 'debug', 'track', 'benchmark', 'pareto', 'halloffame', 'lineage', 'sweep', 'imitation', 'race', 'architecture'].forEach(id => {
     localStorage.removeItem(`panel_state_${id}`);
   });
   location.reload();
@@ -110,10 +120,8 @@ function init() {
   simState.simulationSeed = actualSeed;
   const initialTrackSeed = Math.floor(random() * 1000000) + 1;
   const track = new Track(FIXED_SIZE, FIXED_SIZE, initialTrackSeed);
-  const ga = new GeneticAlgorithm(POPULATION_SIZE, track.startPoint.x, track.startPoint.y, track.startAngle);
-  simState.track = track;
-  simState.ga = ga;
   simState.populationSize = POPULATION_SIZE;
+  startOptimizer(track);
 
   // ── Panel system ────────────────────────────────────────────────────────
   panelManager = new PanelManager();
@@ -127,6 +135,14 @@ function init() {
     createSaveLoadPanel(),
     createDebugPanel(),
     createTrackPanel(),
+    createBenchmarkPanel(),
+    createParetoPanel(),
+    createHallOfFamePanel(),
+    createLineagePanel(),
+    createSweepPanel(),
+    createImitationPanel(),
+    createRacePanel(),
+    createArchitecturePanel(),
   ];
 
   panels.forEach(p => {
@@ -203,21 +219,47 @@ function updateZoomLabel() {
 
 // ── Update ────────────────────────────────────────────────────────────────────
 let prevGeneration = 0;
+let curriculumGeneration = 0; // last generation the curriculum judged
+const loggedStagnation = new WeakSet<StagnationEvent>(); // triggers already written to the Debug log
 
 function update() {
-  const { ga, track } = simState;
+  const { ga, track, islands } = simState;
   if (!ga || !track) return;
   prevGeneration = ga.generation;
-  ga.update(track);
+  if (islands) {
+    islands.update();
+  } else {
+    ga.update(track);
+  }
 
-  // Auto-randomize track
+  // Auto-randomize track (every island's, when they race on their own)
   if (
     simState.autoRandomizeTrack &&
     ga.generation > prevGeneration &&
     ga.generation % simState.randomizeInterval === 0
   ) {
-    track.randomize(FIXED_SIZE, FIXED_SIZE);
+    for (const t of islands ? islands.tracks() : [track]) t.randomize(FIXED_SIZE, FIXED_SIZE);
+  }
+
+  // Curriculum: judge the finished generation, and move every track to the new stage's shape
+  // (islands finish generations one by one, so go by the aggregate stats' generation)
+  const { curriculum } = simState;
+  const stats = islands ? islands.lastGenEndStats : ga.lastGenEndStats;
+  if (curriculum.settings.enabled && stats && stats.generation !== curriculumGeneration) {
+    curriculumGeneration = stats.generation;
+    if (curriculum.observe(stats.lapRate)) applyCurriculumStage();
+    else renderCurriculum();
   }
+
+  // Stagnation monitor: log each trigger (every island has a monitor of its own)
+  const gas = islands ? islands.islands.map(i => i.ga) : [ga];
+  gas.forEach((g, i) => {
+    const event = g.lastGenEndStats?.stagnation;
+    if (!event || loggedStagnation.has(event)) return;
+    loggedStagnation.add(event);
+    const where = islands ? ` on island ${i + 1}` : '';
+    debugLog(`Stagnation${where} — ${describeStagnationEvent(event, simState.stagnation)}`);
+  });
 }
 
 // ── Draw ──────────────────────────────────────────────────────────────────────
@@ -234,13 +276,23 @@ function draw() {
 
   applyCamera(ctx);
 
-  track.draw(ctx);
+  // With multi-track evaluation the population races this episode's training track;
+  // while someone drives, their track is shown and the population only when it races there too
+  const { driving, race } = simState;
+  const session = race ?? driving;
+  const shown = session ? session.track : ga.raceTrack(track);
+  if (simState.isEditingTrack) track.draw(ctx);
+  else shown.draw(ctx);
 
   if (!simState.isEditingTrack) {
-    const best = ga.getBestActiveBoid();
-    for (const boid of ga.boids) {
-      boid.draw(ctx, boid === best);
+    if (shown === ga.raceTrack(track)) {
+      const best = session ? null : ga.getBestActiveBoid();
+      for (const boid of ga.boids) {
+        boid.draw(ctx, boid === best);
+      }
     }
+    driving?.boid.draw(ctx, true);
+    race?.draw(ctx);
   }
 
   if (simState.isEditingTrack) {
@@ -248,6 +300,7 @@ function draw() {
   }
 
   resetCameraTransform(ctx);
+  if (race && !simState.isEditingTrack) race.drawHud(ctx, simCanvas.width, simCanvas.height);
 }
 
 // ── FPS tracking ──────────────────────────────────────────────────────────────
@@ -291,6 +344,8 @@ function loop(now: number) {
   } else {
     followLeader();
     update();
+    simState.driving?.step();
+    simState.race?.step();
     draw();
   }
 
@@ -304,6 +359,12 @@ function loop(now: number) {
   updateConfigPanel();
   updateTrackPanel();
   updateDebugPanel();
+  updateParetoPanel();
+  updateHallOfFamePanel();
+  updateLineagePanel();
+  updateImitationPanel();
+  updateRacePanel();
+  updateArchitecturePanel();
 
   requestAnimationFrame(loop);
 }
@@ -0,0 +1,229 @@
+// src/panels/ArchitecturePanel.ts
+// Edit the brains' architecture — the input features they're fed, feed-forward or recurrent cells,
+// hidden layers, their sizes and activations, and the output activation — and start a new run with it.
+
+import { simState } from '../SimState';
+import { startOptimizer, mainTrack } from '../OptimizerFactory';
+import { Boid } from '../Boid';
+import {
+    type Activation, type BrainCell, type NetworkArchitecture, ACTIVATION_LABELS, CELL_LABELS, DEFAULT_ARCHITECTURE,
+    describeArchitecture, isActivation, isBrainCell, cellOf, inputsOf, sensorsOf,
+} from '../Network';
+import { type InputFeature, INPUT_FEATURES, orderInputs, inputLabels } from '../Inputs';
+import { describeSensors } from '../Sensors';
+import { buildPanel } from './BrainPanel';
+import { finalizeRun, resetChartData, setCurrentRunStartGen } from './ChartPanel';
+import { syncSensorControls } from './ConfigPanel';
+
+const MAX_HIDDEN_LAYERS = 4;
+const MAX_LAYER_SIZE = 16;
+// Linear is offered for the output only — stacked linear hidden layers collapse into one
+const HIDDEN_ACTIVATIONS: Activation[] = ['sigmoid', 'tanh', 'relu', 'leaky-relu'];
+const OUTPUT_ACTIVATIONS: Activation[] = [...HIDDEN_ACTIVATIONS, 'linear'];
+
+let renderedKey = ''; // architectures last rendered, to skip redundant updates
+let editor: HTMLElement | null = null; // the panel body, which may not be in the document yet
+
+export function createArchitecturePanel(): HTMLElement {
+    const panel = buildPanel('architecture', '🧩 Architecture', 320, 540, 500, 110);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+    editor = body;
+
+    body.innerHTML = `
+    <div class="cfg-section">
+      <div class="cfg-label">Inputs</div>
+      ${(Object.keys(INPUT_FEATURES) as InputFeature[]).map(f => `
+      <div style="display:flex;align-items:center;gap:8px;margin:2px 0;">
+        <input type="checkbox" id="arch-input-${f}" data-input="${f}">
+        <label for="arch-input-${f}" style="font-size:0.85rem;">${INPUT_FEATURES[f].label}</label>
+      </div>`).join('')}
+    </div>
+    <div class="cfg-section">
+      <div class="cfg-label">Hidden Cells</div>
+      <div class="cfg-row-v">
+        <select id="arch-cell" class="cfg-select">
+          ${(Object.keys(CELL_LABELS) as BrainCell[]).map(c => `<option value="${c}">${CELL_LABELS[c]}</option>`).join('')}
+        </select>
+      </div>
+      <div style="font-size:0.75rem;color:#666;margin-bottom:6px;">
+        Elman and GRU layers remember their last state · evolution only, no imitation training
+      </div>
+      <div class="cfg-label">Hidden Layers</div>
+      <div class="cfg-row">
+        <input type="range" id="arch-layers" min="0" max="${MAX_HIDDEN_LAYERS}" step="1" value="${simState.architecture.hidden.length}">
+        <span class="cfg-value" id="arch-layers-val">${simState.architecture.hidden.length}</span>
+      </div>
+      <div id="arch-layer-list"></div>
+      <div class="cfg-label" style="margin-top:6px;">Output Activation</div>
+      <div class="cfg-row-v">
+        <select id="arch-output" class="cfg-select">${activationOptions(OUTPUT_ACTIVATIONS)}</select>
+      </div>
+    </div>
+    <div class="sl-section">
+      <div class="dbg-stats" id="arch-summary" style="font-size:0.75rem;"></div>
+      <div style="display:flex;gap:6px;flex-wrap:wrap;margin-top:6px;">
+        <button id="arch-btn-new-run">🌱 Start New Run With This Architecture</button>
+        <button id="arch-btn-default">↺ Default</button>
+      </div>
+      <div style="font-size:0.75rem;color:#666;margin-top:4px;">
+        Inputs apply to every run · cells and layers to fixed-topology runs only, NEAT grows its own
+      </div>
+      <div id="arch-status" style="font-size:0.78rem;color:#888;min-height:18px;margin-top:4px;"></div>
+    </div>
+  `;
+
+    const layersSlider = body.querySelector('#arch-layers') as HTMLInputElement;
+    layersSlider.addEventListener('input', () => {
+        const count = parseInt(layersSlider.value, 10);
+        const { hidden } = simState.architecture;
+        // New layers copy the last one, so growing the network keeps its shape
+        const template = hidden[hidden.length - 1] ?? DEFAULT_ARCHITECTURE.hidden[0];
+        while (hidden.length < count) hidden.push({ ...template });
+        hidden.length = count;
+        syncArchitectureControls();
+    });
+    body.querySelectorAll<HTMLInputElement>('input[data-input]').forEach(check => {
+        check.addEventListener('change', () => {
+            const checked = [...body.querySelectorAll<HTMLInputElement>('input[data-input]:checked')]
+                .map(c => c.dataset.input as InputFeature);
+            if (checked.length === 0) {
+                check.checked = true;
+                setStatus('❌ A brain needs at least one input');
+                return;
+            }
+            simState.architecture.inputs = orderInputs(checked);
+        });
+    });
+    const cellSelect = body.querySelector('#arch-cell') as HTMLSelectElement;
+    cellSelect.addEventListener('change', () => {
+        if (isBrainCell(cellSelect.value)) simState.architecture.cell = cellSelect.value;
+    });
+    const outputSelect = body.querySelector('#arch-output') as HTMLSelectElement;
+    outputSelect.addEventListener('change', () => {
+        if (isActivation(outputSelect.value)) simState.architecture.output = outputSelect.value;
+    });
+    body.querySelector('#arch-btn-new-run')?.addEventListener('click', () => {
+        if (!confirm(`Start a new run with ${draftDescription()}?`)) return;
+        startRunWithArchitecture(simState.architecture);
+        setStatus('✅ New run started');
+    });
+    body.querySelector('#arch-btn-default')?.addEventListener('click', () => {
+        // The sensors are set in the Config panel, not here, so they're kept
+        simState.architecture = { ...structuredClone(DEFAULT_ARCHITECTURE), sensors: { ...sensorsOf(simState.architecture) } };
+        syncArchitectureControls();
+    });
+
+    syncArchitectureControls();
+    return panel;
+}
+
+export function updateArchitecturePanel() {
+    const panel = document.querySelector('[data-panel-id="architecture"]') as HTMLElement | null;
+    if (!panel || panel.style.display === 'none' || panel.classList.contains('panel--minimized')) return;
+    const running = describeArchitecture(Boid.architecture, Boid.inputCount(), Boid.OUTPUTS);
+    const draft = draftDescription();
+    const sameInputs = inputsOf(Boid.architecture).join() === inputsOf(simState.architecture).join();
+    const sensors = describeSensors(sensorsOf(Boid.architecture));
+    const key = `${running}|${draft}|${sameInputs}|${sensors}|${simState.evolutionMode}`;
+    if (key === renderedKey) return;
+    renderedKey = key;
+    const el = document.getElementById('arch-summary');
+    if (!el) return;
+    const row = (label: string, value: string) => `<div class="dbg-row"><span>${label}</span><span>${value}</span></div>`;
+    const parameters = Boid.createNetwork().genome.length;
+    el.innerHTML = [
+        row('Running', simState.evolutionMode === 'neat' ? 'NEAT' : running),
+        row('Edited', draft === running && sameInputs ? 'same as running' : draft),
+        row('Inputs (running)', inputLabels(inputsOf(Boid.architecture), sensorsOf(Boid.architecture)).join(' ')),
+        row('Sensors (running)', sensors),
+        row('Parameters (running)', String(parameters)),
+    ].join('');
+}
+
+/** Rebuild the editor, and the Config panel's sensor controls, from simState.architecture (after a load replaces it). */
+export function syncArchitectureControls() {
+    syncSensorControls();
+    if (!editor) return;
+    const arch = simState.architecture;
+    const layersSlider = editor.querySelector('#arch-layers') as HTMLInputElement | null;
+    const layersVal = editor.querySelector('#arch-layers-val');
+    const cellSelect = editor.querySelector('#arch-cell') as HTMLSelectElement | null;
+    const outputSelect = editor.querySelector('#arch-output') as HTMLSelectElement | null;
+    const list = editor.querySelector('#arch-layer-list') as HTMLElement | null;
+    if (layersSlider) layersSlider.value = String(arch.hidden.length);
+    if (layersVal) layersVal.textContent = String(arch.hidden.length);
+    const inputs = inputsOf(arch);
+    editor.querySelectorAll<HTMLInputElement>('input[data-input]').forEach(check => {
+        check.checked = inputs.includes(check.dataset.input as InputFeature);
+    });
+    if (cellSelect) cellSelect.value = cellOf(arch);
+    if (outputSelect) outputSelect.value = arch.output;
+    if (!list) return;
+
+    list.innerHTML = arch.hidden.map((layer, i) => `
+      <div class="cfg-label" style="margin-top:6px;">Hidden Layer ${i + 1}</div>
+      <div class="cfg-row">
+        <input type="range" id="arch-size-${i}" min="1" max="${MAX_LAYER_SIZE}" step="1" value="${layer.size}">
+        <span class="cfg-value" id="arch-size-${i}-val">${layer.size}</span>
+      </div>
+      <div class="cfg-row-v">
+        <select id="arch-activation-${i}" class="cfg-select">${activationOptions(HIDDEN_ACTIVATIONS)}</select>
+      </div>
+    `).join('');
+    arch.hidden.forEach((layer, i) => {
+        wireSlider(list, `arch-size-${i}`, `arch-size-${i}-val`, (v) => { layer.size = v; });
+        const select = list.querySelector(`#arch-activation-${i}`) as HTMLSelectElement;
+        select.value = layer.activation;
+        select.addEventListener('change', () => {
+            if (isActivation(select.value)) layer.activation = select.value;
+        });
+    });
+}
+
+/**
+ * Make `arch` the edited architecture and start a fresh run with it on the main track.
+ * Shared with the import paths that switch to a loaded brain's architecture.
+ */
+export function startRunWithArchitecture(arch: NetworkArchitecture) {
+    const { ga } = simState;
+    const track = mainTrack();
+    if (!ga || !track) return;
+    simState.architecture = structuredClone(arch);
+    syncArchitectureControls();
+    finalizeRun(ga);
+    resetChartData();
+    startOptimizer(track, 1);
+    setCurrentRunStartGen(1);
+}
+
+function draftDescription(): string {
+    return describeArchitecture(simState.architecture, Boid.inputCount(simState.architecture), Boid.OUTPUTS);
+}
+
+function activationOptions(activations: Activation[]): string {
+    return activations.map(a => `<option value="${a}">${ACTIVATION_LABELS[a]}</option>`).join('');
+}
+
+function setStatus(msg: string) {
+    const el = document.getElementById('arch-status');
+    if (el) el.textContent = msg;
+}
+
+function wireSlider(
+    root: HTMLElement,
+    sliderId: string,
+    valId: string,
+    onChange: (v: number) => void,
+) {
+    const slider = root.querySelector(`#${sliderId}`) as HTMLInputElement | null;
+    const valEl = root.querySelector(`#${valId}`) as HTMLElement | null;
+    if (!slider || !valEl) return;
+    slider.addEventListener('input', () => {
+        const v = parseFloat(slider.value);
+        valEl.textContent = String(v);
+        onChange(v);
+    });
+}
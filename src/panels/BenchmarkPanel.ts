@@ -0,0 +1,208 @@
+// src/panels/BenchmarkPanel.ts
+// Benchmark exported brains on a fixed suite of seeded tracks and download the report as JSON or CSV.
+
+import { simState } from '../SimState';
+import { isNeatGenomeJSON } from '../Neat';
+import {
+    type BenchmarkReport, type BenchmarkRun, type NamedBrain,
+    BENCHMARK_SUITES, buildBenchmarkTrack, runBenchmarkRace, createBenchmarkReport, benchmarkCSV,
+} from '../Benchmark';
+import { buildPanel } from './BrainPanel';
+
+const brains: NamedBrain[] = [];
+let report: BenchmarkReport | null = null;
+let running = false;
+
+export function createBenchmarkPanel(): HTMLElement {
+    const panel = buildPanel('benchmark', '🏁 Benchmark', 360, 460, 420, 120);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+
+    const suiteOptions = BENCHMARK_SUITES
+        .map(s => `<option value="${s.id}">${s.name} v${s.version} · ${s.tracks.length} tracks · ${s.laps} lap${s.laps > 1 ? 's' : ''}</option>`)
+        .join('');
+
+    body.innerHTML = `
+    <div class="cfg-section">
+      <div class="cfg-label">Suite</div>
+      <div class="cfg-row-v">
+        <select id="bm-suite" class="cfg-select">${suiteOptions}</select>
+      </div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Brains</div>
+      <div id="bm-brains" style="font-size:0.78rem;color:#aaa;margin-bottom:6px;"></div>
+      <div style="display:flex;gap:6px;flex-wrap:wrap;">
+        <button id="bm-btn-add-best">＋ Current Best</button>
+        <button id="bm-btn-add-files">⬆ Add Brain Files</button>
+        <button id="bm-btn-clear" class="sl-btn-danger">Clear</button>
+      </div>
+    </div>
+    <div class="sl-section">
+      <button id="bm-btn-run">▶ Run Benchmark</button>
+      <div id="bm-status" style="font-size:0.78rem;color:#888;min-height:18px;margin-top:4px;"></div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Report</div>
+      <div id="bm-report" style="font-size:0.70rem;color:#aaa;"></div>
+      <div style="display:flex;gap:6px;margin-top:6px;">
+        <button id="bm-btn-json">⬇ JSON</button>
+        <button id="bm-btn-csv">⬇ CSV</button>
+      </div>
+    </div>
+  `;
+
+    body.querySelector('#bm-btn-add-best')?.addEventListener('click', () => {
+        const best = simState.ga?.getBestActiveBoid();
+        if (!best || !simState.ga) return;
+        brains.push({ name: `gen${simState.ga.generation}-best`, brain: best.brainJSON() });
+        renderBrains();
+    });
+    body.querySelector('#bm-btn-add-files')?.addEventListener('click', addBrainFiles);
+    body.querySelector('#bm-btn-clear')?.addEventListener('click', () => {
+        brains.length = 0;
+        renderBrains();
+    });
+    body.querySelector('#bm-btn-run')?.addEventListener('click', () => {
+        const suiteId = (body.querySelector('#bm-suite') as HTMLSelectElement).value;
+        runSuite(suiteId);
+    });
+    body.querySelector('#bm-btn-json')?.addEventListener('click', () => {
+        if (!report) return;
+        download(JSON.stringify(report, null, 2), `benchmark-${report.suite}-v${report.version}-${Date.now()}.json`, 'application/json');
+    });
+    body.querySelector('#bm-btn-csv')?.addEventListener('click', () => {
+        if (!report) return;
+        download(benchmarkCSV(report), `benchmark-${report.suite}-v${report.version}-${Date.now()}.csv`, 'text/csv');
+    });
+
+    renderBrains(body);
+    renderReport(body);
+    return panel;
+}
+
+/**
+ * Race every brain on every track of the suite. Tracks run one per task so the page
+ * stays responsive; each race is deterministic, so the interleaving doesn't matter.
+ */
+async function runSuite(suiteId: string) {
+    const suite = BENCHMARK_SUITES.find(s => s.id === suiteId);
+    if (!suite || running) return;
+    if (brains.length === 0) { setStatus('Add at least one brain first.'); return; }
+
+    running = true;
+    const runs: BenchmarkRun[] = [];
+    try {
+        for (let i = 0; i < suite.tracks.length; i++) {
+            const entry = suite.tracks[i];
+            setStatus(`Racing ${entry.name} (${i + 1}/${suite.tracks.length})…`);
+            await new Promise(resolve => setTimeout(resolve, 0));
+            const track = buildBenchmarkTrack(entry);
+            for (const brain of brains) runs.push(runBenchmarkRace(suite, entry, track, brain));
+        }
+        report = createBenchmarkReport(suite, runs);
+        setStatus(`✅ ${suite.name} v${suite.version}: ${runs.length} races`);
+    } catch (err) {
+        setStatus(`❌ ${(err as Error).message}`);
+    } finally {
+        running = false;
+    }
+    renderReport();
+}
+
+/** Accepts exported brain files ({ network }) and bare network / NEAT genome JSON. */
+function addBrainFiles() {
+    const inp = document.createElement('input');
+    inp.type = 'file'; inp.accept = '.json'; inp.multiple = true;
+    inp.onchange = async () => {
+        for (const file of Array.from(inp.files ?? [])) {
+            try {
+                const data = JSON.parse(await file.text());
+                const brain = data.network ?? data;
+                if (!brain?.layers && !isNeatGenomeJSON(brain)) { setStatus(`❌ ${file.name} is not a brain`); continue; }
+                brains.push({ name: file.name, brain });
+            } catch (err) {
+                setStatus(`❌ ${file.name}: ${(err as Error).message}`);
+            }
+        }
+        renderBrains();
+    };
+    inp.click();
+}
+
+function renderBrains(root: ParentNode = document) {
+    const el = root.querySelector('#bm-brains');
+    if (!el) return;
+    el.innerHTML = brains.length === 0
+        ? '<span style="color:#444;">No brains added.</span>'
+        : brains.map((b, i) => `<div>${i + 1}. ${escapeHtml(b.name)}</div>`).join('');
+}
+
+function renderReport(root: ParentNode = document) {
+    const el = root.querySelector('#bm-report');
+    if (!el) return;
+    if (!report) {
+        el.innerHTML = '<span style="color:#444;">No report yet.</span>';
+        return;
+    }
+
+    const td = 'style="padding:1px 4px"';
+    const th = 'style="padding:1px 4px;font-weight:normal;text-align:left"';
+    const summaryRows = report.summaries.map(s => `<tr>
+      <td ${td}>${escapeHtml(s.brain)}</td>
+      <td style="padding:1px 4px;color:#4ade80">${Math.round(s.completionRate * 100)}%</td>
+      <td ${td}>${s.meanLaps.toFixed(2)}</td>
+      <td style="padding:1px 4px;color:#f87171">${Math.round(s.crashRate * 100)}%</td>
+      <td style="padding:1px 4px;color:#60a5fa">${s.meanSpeed.toFixed(2)}</td>
+    </tr>`).join('');
+
+    const runRows = report.runs.map(r => {
+        const outcome = r.completed
+            ? '<span style="color:#4ade80">✓</span>'
+            : r.crashed
+                ? `<span style="color:#f87171">crash @cp ${r.crashCheckpoint} (${r.crashX}, ${r.crashY})</span>`
+                : '<span style="color:#888">stalled</span>';
+        return `<tr>
+          <td style="padding:1px 4px;color:#888">${escapeHtml(r.track)}</td>
+          <td ${td}>${escapeHtml(r.brain)}</td>
+          <td ${td}>${r.laps}</td>
+          <td ${td}>${outcome}</td>
+          <td style="padding:1px 4px;color:#60a5fa">${r.meanSpeed.toFixed(2)}</td>
+        </tr>`;
+    }).join('');
+
+    el.innerHTML = `
+      <div style="color:#666;margin-bottom:4px;">${report.suite} v${report.version} · ${report.laps} lap(s) · ${report.maxFrames} frames max</div>
+      <table style="width:100%;border-collapse:collapse;line-height:1.4;margin-bottom:8px;">
+        <thead><tr style="color:#444;border-bottom:1px solid rgba(255,255,255,0.06);">
+          <th ${th}>Brain</th><th ${th}>Done</th><th ${th}>Laps</th><th ${th}>Crash</th><th ${th}>Speed</th>
+        </tr></thead>
+        <tbody>${summaryRows}</tbody>
+      </table>
+      <table style="width:100%;border-collapse:collapse;line-height:1.4;">
+        <thead><tr style="color:#444;border-bottom:1px solid rgba(255,255,255,0.06);">
+          <th ${th}>Track</th><th ${th}>Brain</th><th ${th}>Laps</th><th ${th}>Result</th><th ${th}>Speed</th>
+        </tr></thead>
+        <tbody>${runRows}</tbody>
+      </table>`;
+}
+
+function setStatus(msg: string) {
+    const el = document.getElementById('bm-status');
+    if (el) el.textContent = msg;
+}
+
+function escapeHtml(s: string): string {
+    return s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+}
+
+function download(text: string, filename: string, type: string) {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = filename;
+    document.body.appendChild(a); a.click();
+    document.body.removeChild(a); URL.revokeObjectURL(url);
+}
@@ -1,9 +1,15 @@
 // src/panels/ChartPanel.ts
-// Rolling line chart of fitness, alive boids, and diversity over generations.
+// Rolling line chart of fitness, alive boids, diversity, species count and mutation strength over generations.
+// With islands on, the main series aggregate all islands and each island's best fitness gets its own line.
+// With multi-track evaluation on, the champion's held-out fitness is drawn on the same scale as training fitness.
+// With the curriculum on, its stages are drawn as a band along the top of the timeline.
+// Stagnation monitor triggers are marked with a labelled line at the generation they fired.
 // Persists chart data and run history across page reloads via localStorage.
 
 import { simState } from '../SimState';
-import { GeneticAlgorithm } from '../AI';
+import { type Optimizer, type OptimizerKind, OPTIMIZER_LABELS } from '../Optimizer';
+import { FITNESS_LABELS, fitnessLabel } from '../Fitness';
+import type { StagnationStrategy } from '../Stagnation';
 import { buildPanel } from './BrainPanel';
 
 const MAX_POINTS = 200;
@@ -15,6 +21,8 @@ interface RunRecord {
     finalSurvivorCount: number;
     finalSurvivorPct: number;
     finalDiversity: number;
+    optimizer?: OptimizerKind; // absent in records saved before optimizers were selectable
+    fitness?: string;          // fitness definition label; absent in records saved before it was selectable
     timestamp: number;
 }
 
@@ -22,6 +30,18 @@ interface RunRecord {
 const fitnessData: number[] = [];
 const aliveData: number[] = [];
 const diversityData: number[] = [];
+const speciesData: number[] = [];
+const mutationData: number[] = [];
+const islandFitnessData: number[][] = []; // per island, best fitness per generation
+const heldOutData: (number | null)[] = [];  // champion's held-out fitness; null while multi-track is off
+const stageData: (number | null)[] = [];    // curriculum stage each generation raced on; null while it's off
+const stagnationData: (StagnationStrategy | null)[] = []; // response started after each generation, if the monitor fired
+
+const STAGNATION_MARKS: Record<StagnationStrategy, string> = {
+    'hypermutation': 'H', 'immigrants': 'I', 'restart': 'R', 'novelty': 'N',
+};
+
+const ISLAND_COLORS = ['#4ade80', '#38bdf8', '#f472b6', '#fbbf24', '#a78bfa', '#fb7185', '#2dd4bf', '#e879f9'];
 
 let lastGen = -1;
 let currentRunStartGen = 1;
@@ -37,6 +57,12 @@ let runHistory: RunRecord[] = [];
         const savedFitness = localStorage.getItem('nnts_chart_fitness');
         const savedAlive = localStorage.getItem('nnts_chart_alive');
         const savedDiv = localStorage.getItem('nnts_chart_diversity');
+        const savedSpecies = localStorage.getItem('nnts_chart_species');
+        const savedMutation = localStorage.getItem('nnts_chart_mutation');
+        const savedIslands = localStorage.getItem('nnts_chart_islands');
+        const savedHeldOut = localStorage.getItem('nnts_chart_heldout');
+        const savedStage = localStorage.getItem('nnts_chart_stage');
+        const savedStagnation = localStorage.getItem('nnts_chart_stagnation');
         const savedLastGen = localStorage.getItem('nnts_chart_lastgen');
         const savedPeak = localStorage.getItem('nnts_chart_peak');
         const savedStartGen = localStorage.getItem('nnts_chart_startgen');
@@ -44,6 +70,12 @@ let runHistory: RunRecord[] = [];
         if (savedFitness) fitnessData.push(...JSON.parse(savedFitness));
         if (savedAlive) aliveData.push(...JSON.parse(savedAlive));
         if (savedDiv) diversityData.push(...JSON.parse(savedDiv));
+        if (savedSpecies) speciesData.push(...JSON.parse(savedSpecies));
+        if (savedMutation) mutationData.push(...JSON.parse(savedMutation));
+        if (savedIslands) islandFitnessData.push(...JSON.parse(savedIslands));
+        if (savedHeldOut) heldOutData.push(...JSON.parse(savedHeldOut));
+        if (savedStage) stageData.push(...JSON.parse(savedStage));
+        if (savedStagnation) stagnationData.push(...JSON.parse(savedStagnation));
         if (savedLastGen) lastGen = parseInt(savedLastGen);
         if (savedPeak) currentRunPeakFitness = parseFloat(savedPeak);
         if (savedStartGen) currentRunStartGen = parseInt(savedStartGen);
@@ -61,8 +93,14 @@ export function createChartPanel(): HTMLElement {
     controls.className = 'chart-controls';
     controls.innerHTML = `
     <label><input type="checkbox" id="chart-show-fitness"   checked> <span style="color:#4ade80">Fitness</span></label>
+    <label><input type="checkbox" id="chart-show-heldout"   checked> <span style="color:#f87171">Held-out</span></label>
     <label><input type="checkbox" id="chart-show-alive"     checked> <span style="color:#60a5fa">Survivors</span></label>
     <label><input type="checkbox" id="chart-show-diversity" checked> <span style="color:#f97316">Diversity</span></label>
+    <label><input type="checkbox" id="chart-show-species"   checked> <span style="color:#c084fc">Species</span></label>
+    <label><input type="checkbox" id="chart-show-mutation"  checked> <span style="color:#facc15">Mutation</span></label>
+    <label><input type="checkbox" id="chart-show-islands"   checked> <span style="color:#38bdf8">Islands</span></label>
+    <label><input type="checkbox" id="chart-show-stages"    checked> <span style="color:#a3e635">Curriculum</span></label>
+    <label><input type="checkbox" id="chart-show-stagnation" checked> <span style="color:#f43f5e">Stagnation</span></label>
   `;
     body.appendChild(controls);
 
@@ -99,10 +137,10 @@ export function createChartPanel(): HTMLElement {
 }
 
 /** Snapshot current run data and push a RunRecord to history. */
-export function finalizeRun(ga: GeneticAlgorithm) {
-    if (fitnessData.length === 0 && !ga.lastGenEndStats) return;
+export function finalizeRun(ga: Optimizer) {
+    const stats = simState.islands?.lastGenEndStats ?? ga.lastGenEndStats;
+    if (fitnessData.length === 0 && !stats) return;
 
-    const stats = ga.lastGenEndStats;
     const lastFitness = fitnessData[fitnessData.length - 1] ?? 0;
     const lastAlive = aliveData[aliveData.length - 1] ?? 0;
     const lastDiv = diversityData[diversityData.length - 1] ?? 0;
@@ -116,6 +154,8 @@ export function finalizeRun(ga: GeneticAlgorithm) {
             : Math.round((lastAlive / 100) * simState.populationSize),
         finalSurvivorPct: lastAlive,
         finalDiversity: stats ? stats.diversity : lastDiv,
+        optimizer: ga.kind,
+        fitness: fitnessLabel(simState.fitness),
         timestamp: Date.now(),
     };
 
@@ -129,11 +169,23 @@ export function resetChartData() {
     fitnessData.length = 0;
     aliveData.length = 0;
     diversityData.length = 0;
+    speciesData.length = 0;
+    mutationData.length = 0;
+    islandFitnessData.length = 0;
+    heldOutData.length = 0;
+    stageData.length = 0;
+    stagnationData.length = 0;
     lastGen = -1;
     currentRunPeakFitness = 0;
     localStorage.removeItem('nnts_chart_fitness');
     localStorage.removeItem('nnts_chart_alive');
     localStorage.removeItem('nnts_chart_diversity');
+    localStorage.removeItem('nnts_chart_species');
+    localStorage.removeItem('nnts_chart_mutation');
+    localStorage.removeItem('nnts_chart_islands');
+    localStorage.removeItem('nnts_chart_heldout');
+    localStorage.removeItem('nnts_chart_stage');
+    localStorage.removeItem('nnts_chart_stagnation');
     localStorage.removeItem('nnts_chart_lastgen');
     localStorage.removeItem('nnts_chart_peak');
     localStorage.removeItem('nnts_chart_startgen');
@@ -152,10 +204,10 @@ export function clearRunHistory() {
 }
 
 export function recordChartData() {
-    const { ga } = simState;
+    const { ga, islands } = simState;
     if (!ga) return;
 
-    const stats = ga.lastGenEndStats;
+    const stats = islands ? islands.lastGenEndStats : ga.lastGenEndStats;
     if (!stats || stats.generation === lastGen) return;
     lastGen = stats.generation;
 
@@ -168,14 +220,37 @@ export function recordChartData() {
     fitnessData.push(maxFit);
     aliveData.push(alivePct);
     diversityData.push(div);
+    speciesData.push(stats.speciesCount);
+    mutationData.push(stats.mutationStrength);
+    heldOutData.push(stats.heldOutFitness);
+    const { curriculum } = simState;
+    stageData.push(curriculum.settings.enabled ? curriculum.racedStage : null);
+    stagnationData.push(stats.stagnation?.strategy ?? null);
 
     if (fitnessData.length > MAX_POINTS) fitnessData.shift();
     if (aliveData.length > MAX_POINTS) aliveData.shift();
     if (diversityData.length > MAX_POINTS) diversityData.shift();
+    if (speciesData.length > MAX_POINTS) speciesData.shift();
+    if (mutationData.length > MAX_POINTS) mutationData.shift();
+    if (heldOutData.length > MAX_POINTS) heldOutData.shift();
+    if (stageData.length > MAX_POINTS) stageData.shift();
+    if (stagnationData.length > MAX_POINTS) stagnationData.shift();
+
+    islands?.islands.forEach((island, i) => {
+        const series = islandFitnessData[i] ?? (islandFitnessData[i] = []);
+        series.push(island.ga.lastGenEndStats?.bestFitness ?? 0);
+        if (series.length > MAX_POINTS) series.shift();
+    });
 
     localStorage.setItem('nnts_chart_fitness', JSON.stringify(fitnessData));
     localStorage.setItem('nnts_chart_alive', JSON.stringify(aliveData));
     localStorage.setItem('nnts_chart_diversity', JSON.stringify(diversityData));
+    localStorage.setItem('nnts_chart_species', JSON.stringify(speciesData));
+    localStorage.setItem('nnts_chart_mutation', JSON.stringify(mutationData));
+    localStorage.setItem('nnts_chart_heldout', JSON.stringify(heldOutData));
+    localStorage.setItem('nnts_chart_stage', JSON.stringify(stageData));
+    localStorage.setItem('nnts_chart_stagnation', JSON.stringify(stagnationData));
+    if (islands) localStorage.setItem('nnts_chart_islands', JSON.stringify(islandFitnessData));
     localStorage.setItem('nnts_chart_lastgen', String(lastGen));
     localStorage.setItem('nnts_chart_peak', String(currentRunPeakFitness));
 }
@@ -204,18 +279,44 @@ export function updateChartPanel() {
     }
 
     const showFitness = (document.getElementById('chart-show-fitness') as HTMLInputElement)?.checked ?? true;
+    const showHeldOut = (document.getElementById('chart-show-heldout') as HTMLInputElement)?.checked ?? true;
     const showAlive = (document.getElementById('chart-show-alive') as HTMLInputElement)?.checked ?? true;
     const showDiversity = (document.getElementById('chart-show-diversity') as HTMLInputElement)?.checked ?? true;
+    const showSpecies = (document.getElementById('chart-show-species') as HTMLInputElement)?.checked ?? true;
+    const showMutation = (document.getElementById('chart-show-mutation') as HTMLInputElement)?.checked ?? true;
+    const showIslands = (document.getElementById('chart-show-islands') as HTMLInputElement)?.checked ?? true;
+    const showStages = (document.getElementById('chart-show-stages') as HTMLInputElement)?.checked ?? true;
+    const showStagnation = (document.getElementById('chart-show-stagnation') as HTMLInputElement)?.checked ?? true;
+
+    if (showStages) drawStages(ctx, W, H);
+    if (showStagnation) drawStagnation(ctx, W, H);
+
+    // Training, held-out and island fitness share one scale so they can be compared directly
+    const fitnessValues = [...fitnessData, ...heldOutData.filter((v): v is number => v !== null)];
+    const lo = Math.min(...fitnessValues);
+    const hi = Math.max(...fitnessValues);
+
+    // The island in view is drawn thicker
+    if (showIslands && fitnessData.length > 0) {
+        const viewIndex = simState.islands?.viewIndex ?? -1;
+        islandFitnessData.forEach((series, i) => {
+            drawLine(ctx, series, ISLAND_COLORS[i % ISLAND_COLORS.length], W, H, true, lo, hi, i === viewIndex ? 2.5 : 1);
+        });
+    }
 
-    drawLine(ctx, fitnessData, '#4ade80', W, H, showFitness);
+    drawLine(ctx, heldOutData, '#f87171', W, H, showHeldOut, lo, hi);
+    drawLine(ctx, fitnessData, '#4ade80', W, H, showFitness, lo, hi);
     drawLine(ctx, aliveData, '#60a5fa', W, H, showAlive, 0, 100);
     drawLine(ctx, diversityData, '#f97316', W, H, showDiversity);
+    drawLine(ctx, speciesData, '#c084fc', W, H, showSpecies, 0);
+    drawLine(ctx, mutationData, '#facc15', W, H, showMutation, 0);
 
     // Axis label
     ctx.fillStyle = '#555';
     ctx.font = '10px Inter,sans-serif';
     ctx.textAlign = 'right';
-    ctx.fillText(`gen ${simState.ga?.generation ?? 0}`, W - 4, H - 4);
+    const islandLabel = simState.islands ? ` · island ${simState.islands.viewIndex + 1}/${simState.islands.islands.length}` : '';
+    ctx.fillText(`gen ${simState.ga?.generation ?? 0}${islandLabel}`, W - 4, H - 4);
 
     // Run history table
     const histDiv = document.getElementById('chart-run-history');
@@ -230,8 +331,11 @@ export function updateChartPanel() {
         const d = new Date(r.timestamp);
         const pad = (n: number) => String(n).padStart(2, '0');
         const dateStr = `${d.getMonth() + 1}/${d.getDate()} ${d.getHours()}:${pad(d.getMinutes())}`;
+        const fitness = r.fitness ?? FITNESS_LABELS['checkpoint-speed'];
         return `<tr>
           <td style="padding:1px 4px;color:#888">#${r.runId}</td>
+          <td style="padding:1px 4px;color:#aaa">${OPTIMIZER_LABELS[r.optimizer ?? 'ga']}</td>
+          <td style="padding:1px 4px;color:#aaa;max-width:90px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap" title="${escapeHtml(fitness)}">${escapeHtml(fitness)}</td>
           <td style="padding:1px 4px">${r.genCount}</td>
           <td style="padding:1px 4px;color:#4ade80">${Math.floor(r.peakFitness).toLocaleString()}</td>
           <td style="padding:1px 4px;color:#60a5fa">${Math.round(r.finalSurvivorPct)}%</td>
@@ -243,6 +347,8 @@ export function updateChartPanel() {
     histDiv.innerHTML = `<table style="width:100%;border-collapse:collapse;line-height:1.4;">
       <thead><tr style="color:#444;border-bottom:1px solid rgba(255,255,255,0.06);">
         <th style="padding:1px 4px;font-weight:normal;text-align:left">Run</th>
+        <th style="padding:1px 4px;font-weight:normal;text-align:left">Opt</th>
+        <th style="padding:1px 4px;font-weight:normal;text-align:left">Fitness</th>
         <th style="padding:1px 4px;font-weight:normal;text-align:left">Gens</th>
         <th style="padding:1px 4px;font-weight:normal;text-align:left">Peak</th>
         <th style="padding:1px 4px;font-weight:normal;text-align:left">Surv</th>
@@ -253,31 +359,91 @@ export function updateChartPanel() {
     </table>`;
 }
 
+/**
+ * Curriculum stages along the top: one band per run of generations on the same stage, shaded
+ * brighter for harder stages and labelled with the stage number, and a dashed line at each change.
+ */
+function drawStages(ctx: CanvasRenderingContext2D, W: number, H: number) {
+    if (stageData.length < 2 || stageData.every(s => s === null)) return;
+    const step = W / (stageData.length - 1);
+    const maxStage = Math.max(1, ...stageData.filter((s): s is number => s !== null));
+    ctx.font = '9px Inter,sans-serif';
+    ctx.textAlign = 'left';
+    let start = 0;
+    for (let i = 1; i <= stageData.length; i++) {
+        if (i < stageData.length && stageData[i] === stageData[start]) continue;
+        const stage = stageData[start];
+        if (stage !== null) {
+            const x0 = Math.max(0, (start - 0.5) * step);
+            const x1 = Math.min(W, (i - 0.5) * step);
+            ctx.fillStyle = `rgba(163,230,53,${0.12 + 0.3 * (stage / maxStage)})`;
+            ctx.fillRect(x0, 0, x1 - x0, 10);
+            if (x1 - x0 > 14) {
+                ctx.fillStyle = '#0d0f14';
+                ctx.fillText(`S${stage + 1}`, x0 + 2, 8);
+            }
+            if (start > 0) {
+                ctx.strokeStyle = 'rgba(163,230,53,0.35)';
+                ctx.setLineDash([3, 3]);
+                ctx.beginPath(); ctx.moveTo(x0, 10); ctx.lineTo(x0, H); ctx.stroke();
+                ctx.setLineDash([]);
+            }
+        }
+        start = i;
+    }
+}
+
+/** A line at each generation the stagnation monitor fired, labelled with the response (H, I, R or N). */
+function drawStagnation(ctx: CanvasRenderingContext2D, W: number, H: number) {
+    if (stagnationData.length < 2) return;
+    const step = W / (stagnationData.length - 1);
+    ctx.font = '9px Inter,sans-serif';
+    ctx.textAlign = 'center';
+    ctx.strokeStyle = 'rgba(244,63,94,0.6)';
+    ctx.fillStyle = '#f43f5e';
+    stagnationData.forEach((strategy, i) => {
+        if (!strategy) return;
+        const x = i * step;
+        ctx.beginPath(); ctx.moveTo(x, 12); ctx.lineTo(x, H); ctx.stroke();
+        ctx.fillText(STAGNATION_MARKS[strategy], Math.min(W - 4, Math.max(4, x)), 21);
+    });
+}
+
 function drawLine(
     ctx: CanvasRenderingContext2D,
-    data: number[],
+    data: (number | null)[], // null leaves a gap
     color: string,
     W: number, H: number,
     visible: boolean,
     minV?: number,
     maxV?: number,
+    lineWidth = 1.5,
 ) {
-    if (!visible || data.length < 2) return;
-    const lo = minV ?? Math.min(...data);
-    const hi = maxV ?? Math.max(...data);
+    const values = data.filter((v): v is number => v !== null);
+    if (!visible || data.length < 2 || values.length === 0) return;
+    const lo = minV ?? Math.min(...values);
+    const hi = maxV ?? Math.max(...values);
     const range = hi - lo || 1;
 
     ctx.beginPath();
     ctx.strokeStyle = color;
-    ctx.lineWidth = 1.5;
+    ctx.lineWidth = lineWidth;
     ctx.shadowColor = color;
     ctx.shadowBlur = 4;
 
+    let penDown = false;
     for (let i = 0; i < data.length; i++) {
+        const v = data[i];
+        if (v === null) { penDown = false; continue; }
         const x = (i / (data.length - 1)) * W;
-        const y = H - ((data[i] - lo) / range) * (H - 4) - 2;
-        i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y);
+        const y = H - ((v - lo) / range) * (H - 4) - 2;
+        penDown ? ctx.lineTo(x, y) : ctx.moveTo(x, y);
+        penDown = true;
     }
     ctx.stroke();
     ctx.shadowBlur = 0;
 }
+
+function escapeHtml(s: string): string {
+    return s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+}
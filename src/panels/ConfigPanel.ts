@@ -2,7 +2,30 @@
 // Live configuration sliders for GA and simulation parameters.
 
 import { simState } from '../SimState';
+import { GeneticAlgorithm, type GASettings, type SelectionObjective } from '../AI';
+import { CmaEs, OpenAiEs } from '../EvolutionStrategies';
+import type { EvolutionMode, Optimizer, OptimizerKind } from '../Optimizer';
+import { startOptimizer, mainTrack, trackSetFor } from '../OptimizerFactory';
+import { type SelectionKind, createSelection } from '../Selection';
+import type { CrossoverKind } from '../Crossover';
+import type { MutationNoise, MutationSchedule, SigmaAdaptation } from '../Mutation';
+import type { MigrationTopology } from '../Islands';
+import type { FitnessAggregate, TrackSampling } from '../TrackSet';
+import { type ObjectiveKey, OBJECTIVES, OBJECTIVE_KEYS } from '../MultiObjective';
+import {
+    type FitnessKind, type FitnessMetrics, type FitnessSettings,
+    FITNESS_LABELS, FITNESS_METRICS, FITNESS_FUNCTIONS, setFitness,
+} from '../Fitness';
+import { DEFAULT_CURRICULUM_STAGES } from '../Curriculum';
+import { type StagnationStrategy, STAGNATION_LABELS } from '../Stagnation';
+import { Track } from '../Track';
+import { Boid } from '../Boid';
+import { sensorsOf } from '../Network';
+import {
+    type SensorConfig, MAX_SENSOR_COUNT, MIN_SENSOR_LENGTH, MAX_SENSOR_LENGTH, resampleLengths, sensorLabels,
+} from '../Sensors';
 import { buildPanel } from './BrainPanel';
+import { finalizeRun, resetChartData, setCurrentRunStartGen } from './ChartPanel';
 
 // Tracks the seed the user has typed but not yet applied (applied on Clear/full restart)
 let pendingSeed: number = simState.simulationSeed;
@@ -17,6 +40,14 @@ export function createConfigPanel(): HTMLElement {
     body.style.overflowY = 'auto';
     body.style.padding = '10px 14px';
 
+    const sensors = sensorsOf(simState.architecture);
+    const fitnessOptions = (Object.keys(FITNESS_LABELS) as FitnessKind[])
+        .map(k => `<option value="${k}">${FITNESS_LABELS[k]}</option>`)
+        .join('');
+    const metricHelp = (Object.keys(FITNESS_METRICS) as (keyof FitnessMetrics)[])
+        .map(k => `<span style="color:#aaa" title="${FITNESS_METRICS[k]}">${k}</span>`)
+        .join(' · ');
+
     body.innerHTML = `
     <div class="cfg-section">
       <div class="cfg-label">Population Size</div>
@@ -29,24 +60,147 @@ export function createConfigPanel(): HTMLElement {
     <div class="cfg-section">
       <div class="cfg-label">Mutation Rate</div>
       <div class="cfg-row">
-        <input type="range" id="cfg-mutation" min="0.01" max="0.5" step="0.01" value="0.1">
-        <span class="cfg-value" id="cfg-mutation-val">0.10</span>
+        <input type="range" id="cfg-mutation" min="0.01" max="0.5" step="0.01" value="${simState.gaSettings.mutationRate}">
+        <span class="cfg-value" id="cfg-mutation-val">${simState.gaSettings.mutationRate.toFixed(2)}</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Mutation Noise</div>
+      <div class="cfg-row-v">
+        <select id="cfg-mut-noise" class="cfg-select">
+          <option value="uniform">Uniform [-σ, σ]</option>
+          <option value="gaussian">Gaussian N(0, σ²)</option>
+        </select>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Sigma σ <span style="color:#555;font-size:0.75rem">initial σ when self-adapting</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-mut-sigma" min="0.01" max="3" step="0.01" value="${simState.mutation.sigma}">
+        <span class="cfg-value" id="cfg-mut-sigma-val">${simState.mutation.sigma.toFixed(2)}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">σ Adaptation <span style="color:#555;font-size:0.75rem">applies to new offspring</span></div>
+      <div class="cfg-row-v">
+        <select id="cfg-mut-adaptation" class="cfg-select">
+          <option value="fixed">Fixed σ</option>
+          <option value="one-fifth">1/5th success rule</option>
+          <option value="log-normal">Log-normal self-adaptation</option>
+        </select>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Elite Copy Mutation Rate</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-mut-elite-rate" min="0.01" max="0.5" step="0.01" value="${simState.mutation.eliteRate}">
+        <span class="cfg-value" id="cfg-mut-elite-rate-val">${simState.mutation.eliteRate.toFixed(2)}</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Mutation Schedule</div>
+      <div class="cfg-row-v">
+        <select id="cfg-mut-schedule" class="cfg-select">
+          <option value="constant">Constant</option>
+          <option value="linear">Linear decay</option>
+          <option value="cosine">Cosine decay</option>
+          <option value="stagnation">Boost on stagnation</option>
+        </select>
+      </div>
+      <div id="cfg-sched-decay">
+        <div class="cfg-label" style="margin-top:6px;">Decay Horizon (gens)</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-mut-horizon" min="10" max="1000" step="10" value="${simState.mutation.horizon}">
+          <span class="cfg-value" id="cfg-mut-horizon-val">${simState.mutation.horizon}</span>
+        </div>
+        <div class="cfg-label" style="margin-top:6px;">Final Rate Multiplier</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-mut-floor" min="0" max="1" step="0.05" value="${simState.mutation.floor}">
+          <span class="cfg-value" id="cfg-mut-floor-val">${simState.mutation.floor.toFixed(2)}</span>
+        </div>
+      </div>
+      <div id="cfg-sched-stagnation">
+        <div class="cfg-label" style="margin-top:6px;">Boost After (gens without new best)</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-mut-boost-after" min="2" max="50" step="1" value="${simState.mutation.boostAfter}">
+          <span class="cfg-value" id="cfg-mut-boost-after-val">${simState.mutation.boostAfter}</span>
+        </div>
+        <div class="cfg-label" style="margin-top:6px;">Boost Factor</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-mut-boost-factor" min="1" max="10" step="0.5" value="${simState.mutation.boostFactor}">
+          <span class="cfg-value" id="cfg-mut-boost-factor-val">${simState.mutation.boostFactor.toFixed(1)}</span>
+        </div>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Parent Selection</div>
+      <div class="cfg-row-v">
+        <select id="cfg-selection" class="cfg-select">
+          <option value="tournament">Tournament</option>
+          <option value="roulette">Roulette (fitness-proportionate)</option>
+          <option value="rank">Linear rank</option>
+          <option value="sus">Stochastic universal sampling</option>
+          <option value="truncation">Truncation (top N)</option>
+        </select>
+      </div>
+      <div id="cfg-sel-tournament">
+        <div class="cfg-label" style="margin-top:6px;">Tournament Size</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-tournament" min="2" max="10" step="1" value="${simState.selection.tournamentSize}">
+          <span class="cfg-value" id="cfg-tournament-val">${simState.selection.tournamentSize}</span>
+        </div>
+      </div>
+      <div id="cfg-sel-rank">
+        <div class="cfg-label" style="margin-top:6px;">Rank Pressure <span style="color:#555;font-size:0.75rem">1 = uniform, 2 = max</span></div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-rank-pressure" min="1" max="2" step="0.05" value="${simState.selection.rankPressure}">
+          <span class="cfg-value" id="cfg-rank-pressure-val">${simState.selection.rankPressure.toFixed(2)}</span>
+        </div>
+      </div>
+      <div id="cfg-sel-truncation">
+        <div class="cfg-label" style="margin-top:6px;">Top Parents (N)</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-truncation" min="2" max="50" step="1" value="${simState.selection.truncationCount}">
+          <span class="cfg-value" id="cfg-truncation-val">${simState.selection.truncationCount}</span>
+        </div>
       </div>
     </div>
 
     <div class="cfg-section">
-      <div class="cfg-label">Tournament Size</div>
+      <div class="cfg-label">Crossover</div>
+      <div class="cfg-row-v">
+        <select id="cfg-crossover" class="cfg-select">
+          <option value="arithmetic">Arithmetic blend</option>
+          <option value="uniform">Uniform gene swap</option>
+          <option value="n-point">N-point (flattened genome)</option>
+          <option value="neuron">Neuron-wise</option>
+          <option value="sbx">Simulated binary (SBX)</option>
+        </select>
+        <div style="font-size:0.75rem;color:#666;">Fixed-topology networks only — NEAT aligns genes by innovation</div>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Crossover Probability <span style="color:#555;font-size:0.75rem">rest are mutated clones</span></div>
       <div class="cfg-row">
-        <input type="range" id="cfg-tournament" min="2" max="10" step="1" value="3">
-        <span class="cfg-value" id="cfg-tournament-val">3</span>
+        <input type="range" id="cfg-crossover-prob" min="0" max="1" step="0.05" value="${simState.crossover.probability}">
+        <span class="cfg-value" id="cfg-crossover-prob-val">${simState.crossover.probability.toFixed(2)}</span>
+      </div>
+      <div id="cfg-xo-n-point">
+        <div class="cfg-label" style="margin-top:6px;">Cut Points</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-crossover-points" min="1" max="10" step="1" value="${simState.crossover.points}">
+          <span class="cfg-value" id="cfg-crossover-points-val">${simState.crossover.points}</span>
+        </div>
+      </div>
+      <div id="cfg-xo-sbx">
+        <div class="cfg-label" style="margin-top:6px;">SBX η <span style="color:#555;font-size:0.75rem">higher = children nearer parents</span></div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-crossover-eta" min="1" max="50" step="1" value="${simState.crossover.sbxEta}">
+          <span class="cfg-value" id="cfg-crossover-eta-val">${simState.crossover.sbxEta}</span>
+        </div>
       </div>
     </div>
 
     <div class="cfg-section">
       <div class="cfg-label">Elite Count</div>
       <div class="cfg-row">
-        <input type="range" id="cfg-elite" min="1" max="10" step="1" value="1">
-        <span class="cfg-value" id="cfg-elite-val">1</span>
+        <input type="range" id="cfg-elite" min="1" max="10" step="1" value="${simState.gaSettings.eliteCount}">
+        <span class="cfg-value" id="cfg-elite-val">${simState.gaSettings.eliteCount}</span>
       </div>
     </div>
 
@@ -58,6 +212,311 @@ export function createConfigPanel(): HTMLElement {
       </div>
     </div>
 
+    <div class="cfg-section">
+      <div class="cfg-label">Optimizer</div>
+      <div class="cfg-row-v">
+        <select id="cfg-optimizer" class="cfg-select">
+          <option value="ga">Genetic algorithm (selection + crossover)</option>
+          <option value="cmaes">CMA-ES</option>
+          <option value="openai-es">OpenAI-ES</option>
+        </select>
+        <div style="font-size:0.75rem;color:#666;">ES optimizers evolve the fixed-topology weights. Changing restarts the run</div>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">ES Step Size σ</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-es-sigma" min="0.01" max="2" step="0.01" value="0.5">
+        <span class="cfg-value" id="cfg-es-sigma-val">0.50</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">OpenAI-ES Learning Rate</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-es-lr" min="0.001" max="0.2" step="0.001" value="0.03">
+        <span class="cfg-value" id="cfg-es-lr-val">0.030</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Islands <span style="color:#555;font-size:0.75rem">GA only · 1 = off</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-island-count" min="1" max="8" step="1" value="${simState.islandSettings.count}">
+        <span class="cfg-value" id="cfg-island-count-val">${simState.islandSettings.count}</span>
+      </div>
+      <div style="display:flex;align-items:center;gap:8px;margin:6px 0;">
+        <input type="checkbox" id="cfg-island-tracks" ${simState.islandSettings.separateTracks ? 'checked' : ''}>
+        <label for="cfg-island-tracks" style="font-size:0.85rem;">Own track per island</label>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">Each island runs a full population. Changing count or tracks restarts the run</div>
+      <div class="cfg-label" style="margin-top:6px;">Migration Topology</div>
+      <div class="cfg-row-v">
+        <select id="cfg-island-topology" class="cfg-select">
+          <option value="ring">Ring</option>
+          <option value="full">Fully connected</option>
+          <option value="random">Random neighbour</option>
+        </select>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Migrate Every (gens)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-island-interval" min="1" max="50" step="1" value="${simState.islandSettings.migrationInterval}">
+        <span class="cfg-value" id="cfg-island-interval-val">${simState.islandSettings.migrationInterval}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Migrants per Island</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-island-migrants" min="1" max="10" step="1" value="${simState.islandSettings.migrantCount}">
+        <span class="cfg-value" id="cfg-island-migrants-val">${simState.islandSettings.migrantCount}</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Fitness Function</div>
+      <div class="cfg-row-v">
+        <select id="cfg-fitness" class="cfg-select">${fitnessOptions}</select>
+      </div>
+      <div id="cfg-fitness-custom">
+        <div class="cfg-label" style="margin-top:6px;">Expression</div>
+        <div class="cfg-row-v">
+          <textarea id="cfg-fitness-expr" rows="2" spellcheck="false"
+                    style="background:#1a1a2e;border:1px solid #333;color:#ddd;border-radius:4px;padding:2px 4px;font-size:0.8rem;font-family:monospace;resize:vertical;">${escapeHtml(simState.fitness.expression)}</textarea>
+          <button id="cfg-btn-fitness-apply">Apply Expression</button>
+        </div>
+        <div id="cfg-fitness-error" style="font-size:0.75rem;color:#f87171;min-height:14px;"></div>
+        <div style="font-size:0.72rem;color:#666;line-height:1.5;">
+          ${metricHelp}<br>
+          <span style="color:#888">+ - * / % ^ · &lt; &gt; == · a ? b : c · ${Object.keys(FITNESS_FUNCTIONS).join(', ')}</span>
+        </div>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">Applies to the races in progress</div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Multi-Track Evaluation</div>
+      <div style="display:flex;align-items:center;gap:8px;margin-bottom:6px;">
+        <input type="checkbox" id="cfg-mt-enabled" ${simState.multiTrack.enabled ? 'checked' : ''}>
+        <label for="cfg-mt-enabled" style="font-size:0.85rem;">Race every generation on several tracks</label>
+      </div>
+      <div class="cfg-label">Training Tracks (K)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-mt-count" min="2" max="8" step="1" value="${simState.multiTrack.trackCount}">
+        <span class="cfg-value" id="cfg-mt-count-val">${simState.multiTrack.trackCount}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Track Sampling</div>
+      <div class="cfg-row-v">
+        <select id="cfg-mt-sampling" class="cfg-select">
+          <option value="fixed">Fixed set</option>
+          <option value="sampled">New tracks every generation</option>
+        </select>
+      </div>
+      <div id="cfg-mt-fixed">
+        <div class="cfg-label" style="margin-top:6px;">Fixed Seeds <span style="color:#555;font-size:0.75rem">comma-separated · blank = random</span></div>
+        <div class="cfg-row-v">
+          <input type="text" id="cfg-mt-seeds" value="${simState.multiTrack.fixedSeeds.join(', ')}" placeholder="e.g. 101, 202, 303"
+                 style="background:#1a1a2e;border:1px solid #333;color:#ddd;border-radius:4px;padding:2px 4px;font-size:0.85rem;">
+        </div>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Held-out Tracks <span style="color:#555;font-size:0.75rem">champion only · 0 = off</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-mt-heldout" min="0" max="5" step="1" value="${simState.multiTrack.heldOutCount}">
+        <span class="cfg-value" id="cfg-mt-heldout-val">${simState.multiTrack.heldOutCount}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Fitness Aggregate</div>
+      <div class="cfg-row-v">
+        <select id="cfg-mt-aggregate" class="cfg-select">
+          <option value="mean">Mean</option>
+          <option value="min">Worst track</option>
+          <option value="percentile">Percentile</option>
+        </select>
+      </div>
+      <div id="cfg-mt-percentile-row">
+        <div class="cfg-label" style="margin-top:6px;">Percentile</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-mt-percentile" min="0" max="100" step="5" value="${simState.multiTrack.percentile}">
+          <span class="cfg-value" id="cfg-mt-percentile-val">${simState.multiTrack.percentile}</span>
+        </div>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">Changing tracks restarts the current generation's races</div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Curriculum</div>
+      <div style="display:flex;align-items:center;gap:8px;margin-bottom:6px;">
+        <input type="checkbox" id="cfg-cur-enabled" ${simState.curriculum.settings.enabled ? 'checked' : ''}>
+        <label for="cfg-cur-enabled" style="font-size:0.85rem;">Start on easy tracks, get harder</label>
+      </div>
+      <div id="cfg-cur-status" style="font-size:0.78rem;color:#aaa;margin-bottom:4px;"></div>
+      <div id="cfg-cur-stages" style="font-size:0.78rem;line-height:1.5;margin-bottom:4px;"></div>
+      <div style="display:flex;gap:6px;margin-bottom:6px;">
+        <button id="cfg-btn-cur-add" style="flex:1;">＋ Current Track</button>
+        <button id="cfg-btn-cur-default" style="flex:1;">Default Ladder</button>
+      </div>
+      <div class="cfg-label">Advance At (lap completion %)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-cur-success" min="5" max="100" step="5" value="${Math.round(simState.curriculum.settings.successRate * 100)}">
+        <span class="cfg-value" id="cfg-cur-success-val">${Math.round(simState.curriculum.settings.successRate * 100)}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">For (gens in a row)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-cur-success-gens" min="1" max="20" step="1" value="${simState.curriculum.settings.successGenerations}">
+        <span class="cfg-value" id="cfg-cur-success-gens-val">${simState.curriculum.settings.successGenerations}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Step Back Below (lap completion %)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-cur-collapse" min="0" max="30" step="1" value="${Math.round(simState.curriculum.settings.collapseRate * 100)}">
+        <span class="cfg-value" id="cfg-cur-collapse-val">${Math.round(simState.curriculum.settings.collapseRate * 100)}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">For (gens in a row)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-cur-collapse-gens" min="2" max="50" step="1" value="${simState.curriculum.settings.collapseGenerations}">
+        <span class="cfg-value" id="cfg-cur-collapse-gens-val">${simState.curriculum.settings.collapseGenerations}</span>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">Changing stage generates a new track with that stage's shape</div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Brain Evolution</div>
+      <div class="cfg-row-v">
+        <select id="cfg-evolution-mode" class="cfg-select">
+          <option value="weights">Fixed topology (🧩 Architecture) — weights only</option>
+          <option value="neat">NEAT — evolve topology</option>
+        </select>
+        <div style="font-size:0.75rem;color:#666;">Changing mode restarts the run</div>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Sensor Rays</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-sensor-count" min="1" max="${MAX_SENSOR_COUNT}" step="1" value="${sensors.count}">
+        <span class="cfg-value" id="cfg-sensor-count-val">${sensors.count}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Field of View (°)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-sensor-fov" min="10" max="360" step="10" value="${sensors.fov}">
+        <span class="cfg-value" id="cfg-sensor-fov-val">${sensors.fov}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Ray Length (px) <span style="color:#555;font-size:0.75rem">all rays</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-sensor-length" min="${MIN_SENSOR_LENGTH}" max="${MAX_SENSOR_LENGTH}" step="10" value="${Math.max(...sensors.lengths)}">
+        <span class="cfg-value" id="cfg-sensor-length-val">${Math.max(...sensors.lengths)}</span>
+      </div>
+      <div id="cfg-sensor-lengths"></div>
+      <div style="font-size:0.75rem;color:#666;">Rays, field of view and lengths change what brains are fed — changing them restarts the run</div>
+      <div class="cfg-label" style="margin-top:6px;">Noise σ (fraction of length)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-sensor-noise" min="0" max="0.3" step="0.01" value="${sensors.noise}">
+        <span class="cfg-value" id="cfg-sensor-noise-val">${sensors.noise.toFixed(2)}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Dropout (% of readings)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-sensor-dropout" min="0" max="50" step="1" value="${Math.round(sensors.dropout * 100)}">
+        <span class="cfg-value" id="cfg-sensor-dropout-val">${Math.round(sensors.dropout * 100)}</span>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">Noise and dropout corrupt what brains read, not what boids crash into · apply live</div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">NEAT Complexity Penalty <span style="color:#555;font-size:0.75rem">per hidden node</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-complexity" min="0" max="200" step="5" value="${simState.gaSettings.complexityPenalty}">
+        <span class="cfg-value" id="cfg-complexity-val">${simState.gaSettings.complexityPenalty}</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Speciation</div>
+      <div style="display:flex;align-items:center;gap:8px;margin-bottom:6px;">
+        <input type="checkbox" id="cfg-speciation"${simState.gaSettings.useSpeciation ? ' checked' : ''}>
+        <label for="cfg-speciation" style="font-size:0.85rem;">Speciate with fitness sharing</label>
+      </div>
+      <div class="cfg-label">Target Species</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-species-target" min="2" max="20" step="1" value="${simState.gaSettings.targetSpeciesCount}">
+        <span class="cfg-value" id="cfg-species-target-val">${simState.gaSettings.targetSpeciesCount}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Species Stagnation Limit (gens)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-species-stale" min="3" max="50" step="1" value="${simState.gaSettings.speciesStagnationLimit}">
+        <span class="cfg-value" id="cfg-species-stale-val">${simState.gaSettings.speciesStagnationLimit}</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Selection Objective</div>
+      <div class="cfg-row-v">
+        <select id="cfg-objective" class="cfg-select">
+          <option value="fitness">Checkpoint fitness</option>
+          <option value="novelty">Novelty search</option>
+          <option value="hybrid">Hybrid novelty + fitness</option>
+          <option value="pareto">NSGA-II multi-objective</option>
+        </select>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Novelty Weight <span style="color:#555;font-size:0.75rem">hybrid only</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-novelty-weight" min="0" max="1" step="0.05" value="${simState.gaSettings.noveltyWeight}">
+        <span class="cfg-value" id="cfg-novelty-weight-val">${simState.gaSettings.noveltyWeight.toFixed(2)}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Novelty Neighbours (k)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-novelty-k" min="3" max="30" step="1" value="${simState.gaSettings.noveltyK}">
+        <span class="cfg-value" id="cfg-novelty-k-val">${simState.gaSettings.noveltyK}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">NSGA-II Objectives <span style="color:#555;font-size:0.75rem">pareto only</span></div>
+      <div style="display:flex;flex-wrap:wrap;gap:4px 10px;margin-bottom:6px;">
+        ${OBJECTIVE_KEYS.map(key => `
+        <label style="display:flex;align-items:center;gap:4px;font-size:0.8rem;">
+          <input type="checkbox" id="cfg-pareto-${key}" data-objective="${key}"${simState.gaSettings.paretoObjectives.includes(key) ? ' checked' : ''}>
+          ${OBJECTIVES[key].label} ${OBJECTIVES[key].maximize ? '↑' : '↓'}
+        </label>`).join('')}
+      </div>
+      <div class="cfg-label">Front Survivors <span style="color:#555;font-size:0.75rem">share kept unchanged</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-pareto-survivors" min="0.1" max="0.9" step="0.05" value="${simState.gaSettings.paretoSurvivorShare}">
+        <span class="cfg-value" id="cfg-pareto-survivors-val">${simState.gaSettings.paretoSurvivorShare.toFixed(2)}</span>
+      </div>
+    </div>
+
+    <div class="cfg-section">
+      <div class="cfg-label">Stagnation Monitor <span style="color:#555;font-size:0.75rem">GA only</span></div>
+      <div style="display:flex;align-items:center;gap:8px;margin-bottom:6px;">
+        <input type="checkbox" id="cfg-stag-enabled" ${simState.stagnation.enabled ? 'checked' : ''}>
+        <label for="cfg-stag-enabled" style="font-size:0.85rem;">Act when progress stalls</label>
+      </div>
+      <div class="cfg-row-v">
+        <select id="cfg-stag-strategy" class="cfg-select">
+          ${(Object.keys(STAGNATION_LABELS) as StagnationStrategy[]).map(k => `<option value="${k}">${STAGNATION_LABELS[k]}</option>`).join('')}
+        </select>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Trigger After (gens without new best)</div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-stag-gens" min="5" max="100" step="5" value="${simState.stagnation.generations}">
+        <span class="cfg-value" id="cfg-stag-gens-val">${simState.stagnation.generations}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Or Diversity Below <span style="color:#555;font-size:0.75rem">0 = off</span></div>
+      <div class="cfg-row">
+        <input type="range" id="cfg-stag-diversity" min="0" max="10" step="0.1" value="${simState.stagnation.diversityThreshold}">
+        <span class="cfg-value" id="cfg-stag-diversity-val">${simState.stagnation.diversityThreshold.toFixed(1)}</span>
+      </div>
+      <div id="cfg-stag-burst">
+        <div class="cfg-label" style="margin-top:6px;">Burst Factor</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-stag-burst-factor" min="1.5" max="20" step="0.5" value="${simState.stagnation.burstFactor}">
+          <span class="cfg-value" id="cfg-stag-burst-factor-val">${simState.stagnation.burstFactor.toFixed(1)}</span>
+        </div>
+      </div>
+      <div id="cfg-stag-duration">
+        <div class="cfg-label" style="margin-top:6px;">Lasts (gens)</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-stag-burst-gens" min="1" max="20" step="1" value="${simState.stagnation.burstGenerations}">
+          <span class="cfg-value" id="cfg-stag-burst-gens-val">${simState.stagnation.burstGenerations}</span>
+        </div>
+      </div>
+      <div id="cfg-stag-immigrants">
+        <div class="cfg-label" style="margin-top:6px;">Immigrants (% of population)</div>
+        <div class="cfg-row">
+          <input type="range" id="cfg-stag-immigrant-share" min="5" max="90" step="5" value="${Math.round(simState.stagnation.immigrantShare * 100)}">
+          <span class="cfg-value" id="cfg-stag-immigrant-share-val">${Math.round(simState.stagnation.immigrantShare * 100)}</span>
+        </div>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">Triggers are logged in the Debug panel and marked on the chart</div>
+    </div>
+
     <div class="cfg-section">
       <div class="cfg-label">Track Options</div>
       <div class="cfg-row-v">
@@ -98,12 +557,41 @@ export function createConfigPanel(): HTMLElement {
   `;
 
     wireSlider(body, 'cfg-pop-size', 'cfg-pop-size-val', (v) => { simState.populationSize = v; });
-    wireSlider(body, 'cfg-mutation', 'cfg-mutation-val', (v) => { if (simState.ga) simState.ga.mutationRate = v; }, 2);
+    wireSlider(body, 'cfg-mutation', 'cfg-mutation-val', (v) => editGASettings({ mutationRate: v }), 2);
+    const mutation = simState.mutation;
+    wireSlider(body, 'cfg-mut-sigma', 'cfg-mut-sigma-val', (v) => { mutation.sigma = v; applyMutation(); }, 2);
+    wireSlider(body, 'cfg-mut-elite-rate', 'cfg-mut-elite-rate-val', (v) => { mutation.eliteRate = v; applyMutation(); }, 2);
+    wireSlider(body, 'cfg-mut-horizon', 'cfg-mut-horizon-val', (v) => { mutation.horizon = v; applyMutation(); });
+    wireSlider(body, 'cfg-mut-floor', 'cfg-mut-floor-val', (v) => { mutation.floor = v; applyMutation(); }, 2);
+    wireSlider(body, 'cfg-mut-boost-after', 'cfg-mut-boost-after-val', (v) => { mutation.boostAfter = v; applyMutation(); });
+    wireSlider(body, 'cfg-mut-boost-factor', 'cfg-mut-boost-factor-val', (v) => { mutation.boostFactor = v; applyMutation(); }, 1);
+
+    const noiseSelect = body.querySelector('#cfg-mut-noise') as HTMLSelectElement;
+    noiseSelect.value = mutation.noise;
+    noiseSelect.addEventListener('change', () => {
+        mutation.noise = noiseSelect.value as MutationNoise;
+        applyMutation();
+    });
+    const adaptationSelect = body.querySelector('#cfg-mut-adaptation') as HTMLSelectElement;
+    adaptationSelect.value = mutation.adaptation;
+    adaptationSelect.addEventListener('change', () => {
+        mutation.adaptation = adaptationSelect.value as SigmaAdaptation;
+        applyMutation();
+    });
+    const scheduleSelect = body.querySelector('#cfg-mut-schedule') as HTMLSelectElement;
+    scheduleSelect.value = mutation.schedule;
+    scheduleSelect.addEventListener('change', () => {
+        mutation.schedule = scheduleSelect.value as MutationSchedule;
+        applyMutation();
+        showScheduleParams(body);
+    });
+    showScheduleParams(body);
+
     wireSlider(body, 'cfg-tournament', 'cfg-tournament-val', (v) => {
-        if (!simState.ga) return;
         // Tournament size must be smaller than population size to avoid infinite loops
         const clamped = Math.min(v, simState.populationSize - 1);
-        simState.ga.tournamentSize = clamped;
+        simState.selection.tournamentSize = clamped;
+        applySelection();
         if (clamped !== v) {
             const slider = body.querySelector('#cfg-tournament') as HTMLInputElement;
             const valEl = body.querySelector('#cfg-tournament-val');
@@ -111,11 +599,49 @@ export function createConfigPanel(): HTMLElement {
             if (valEl) valEl.textContent = String(clamped);
         }
     });
+    wireSlider(body, 'cfg-rank-pressure', 'cfg-rank-pressure-val', (v) => {
+        simState.selection.rankPressure = v;
+        applySelection();
+    }, 2);
+    wireSlider(body, 'cfg-truncation', 'cfg-truncation-val', (v) => {
+        simState.selection.truncationCount = v;
+        applySelection();
+    });
+
+    const selectionSelect = body.querySelector('#cfg-selection') as HTMLSelectElement;
+    selectionSelect.addEventListener('change', () => {
+        simState.selection.kind = selectionSelect.value as SelectionKind;
+        applySelection();
+        syncSelectionControls(body);
+    });
+    syncSelectionControls(body);
+
+    wireSlider(body, 'cfg-crossover-prob', 'cfg-crossover-prob-val', (v) => {
+        simState.crossover.probability = v;
+        applyCrossover();
+    }, 2);
+    wireSlider(body, 'cfg-crossover-points', 'cfg-crossover-points-val', (v) => {
+        simState.crossover.points = v;
+        applyCrossover();
+    });
+    wireSlider(body, 'cfg-crossover-eta', 'cfg-crossover-eta-val', (v) => {
+        simState.crossover.sbxEta = v;
+        applyCrossover();
+    });
+
+    const crossoverSelect = body.querySelector('#cfg-crossover') as HTMLSelectElement;
+    crossoverSelect.value = simState.crossover.kind;
+    crossoverSelect.addEventListener('change', () => {
+        simState.crossover.kind = crossoverSelect.value as CrossoverKind;
+        applyCrossover();
+        showCrossoverParams(body);
+    });
+    showCrossoverParams(body);
+
     wireSlider(body, 'cfg-elite', 'cfg-elite-val', (v) => {
-        if (!simState.ga) return;
         // Elite count must leave room for at least one crossover child
         const clamped = Math.min(v, simState.populationSize - 2);
-        simState.ga.eliteCount = clamped;
+        editGASettings({ eliteCount: clamped });
         if (clamped !== v) {
             const slider = body.querySelector('#cfg-elite') as HTMLInputElement;
             const valEl = body.querySelector('#cfg-elite-val');
@@ -123,7 +649,205 @@ export function createConfigPanel(): HTMLElement {
             if (valEl) valEl.textContent = String(clamped);
         }
     });
-    wireSlider(body, 'cfg-lifespan', 'cfg-lifespan-val', (v) => { if (simState.ga) simState.ga.maxLifespan = v; });
+    wireSlider(body, 'cfg-lifespan', 'cfg-lifespan-val', (v) => withOptimizers(ga => { ga.maxLifespan = v; }));
+    wireSlider(body, 'cfg-complexity', 'cfg-complexity-val', (v) => editGASettings({ complexityPenalty: v }));
+
+    wireSlider(body, 'cfg-species-target', 'cfg-species-target-val', (v) => editGASettings({ targetSpeciesCount: v }));
+    wireSlider(body, 'cfg-species-stale', 'cfg-species-stale-val', (v) => editGASettings({ speciesStagnationLimit: v }));
+
+    wireSlider(body, 'cfg-novelty-weight', 'cfg-novelty-weight-val', (v) => editGASettings({ noveltyWeight: v }), 2);
+    wireSlider(body, 'cfg-novelty-k', 'cfg-novelty-k-val', (v) => editGASettings({ noveltyK: v }));
+
+    wireSlider(body, 'cfg-es-sigma', 'cfg-es-sigma-val', (v) => {
+        if (simState.ga instanceof CmaEs || simState.ga instanceof OpenAiEs) simState.ga.sigma = v;
+    }, 2);
+    wireSlider(body, 'cfg-es-lr', 'cfg-es-lr-val', (v) => {
+        if (simState.ga instanceof OpenAiEs) simState.ga.learningRate = v;
+    }, 3);
+
+    const objectiveSelect = body.querySelector('#cfg-objective') as HTMLSelectElement;
+    if (objectiveSelect) objectiveSelect.value = simState.gaSettings.objective;
+    objectiveSelect?.addEventListener('change', () => {
+        editGASettings({ objective: objectiveSelect.value as SelectionObjective });
+    });
+
+    // At least one objective stays selected — an empty vector would make every boid non-dominated
+    const paretoChecks = Array.from(body.querySelectorAll<HTMLInputElement>('[data-objective]'));
+    for (const check of paretoChecks) {
+        check.addEventListener('change', () => {
+            const keys = paretoChecks.filter(c => c.checked).map(c => c.dataset.objective as ObjectiveKey);
+            if (keys.length === 0) { check.checked = true; return; }
+            editGASettings({ paretoObjectives: keys });
+        });
+    }
+    wireSlider(body, 'cfg-pareto-survivors', 'cfg-pareto-survivors-val', (v) => editGASettings({ paretoSurvivorShare: v }), 2);
+
+    const speciationCheck = body.querySelector('#cfg-speciation') as HTMLInputElement;
+    speciationCheck?.addEventListener('change', () => editGASettings({ useSpeciation: speciationCheck.checked }));
+
+    // Switching brain representation or optimizer can't continue the old population
+    const optimizerSelect = body.querySelector('#cfg-optimizer') as HTMLSelectElement;
+    optimizerSelect.value = simState.optimizerKind;
+    optimizerSelect.addEventListener('change', () => {
+        simState.optimizerKind = optimizerSelect.value as OptimizerKind;
+        restartRun();
+    });
+
+    // Ray geometry changes the brains' inputs, so it takes a new run; noise and dropout are read every frame
+    wireSlider(body, 'cfg-sensor-count', 'cfg-sensor-count-val', (v) => {
+        editSensors({ count: v, lengths: resampleLengths(sensorsOf(simState.architecture).lengths, v) });
+        renderRayLengths(body);
+    });
+    wireSlider(body, 'cfg-sensor-fov', 'cfg-sensor-fov-val', (v) => {
+        editSensors({ fov: v });
+        renderRayLengths(body); // the rays' labels follow their angles
+    });
+    wireSlider(body, 'cfg-sensor-length', 'cfg-sensor-length-val', (v) => {
+        editSensors({ lengths: new Array(sensorsOf(simState.architecture).count).fill(v) });
+        renderRayLengths(body);
+    });
+    for (const key of ['count', 'fov', 'length']) {
+        body.querySelector(`#cfg-sensor-${key}`)?.addEventListener('change', restartRun);
+    }
+    renderRayLengths(body);
+    wireSlider(body, 'cfg-sensor-noise', 'cfg-sensor-noise-val', (v) => editSensors({ noise: v }, true), 2);
+    wireSlider(body, 'cfg-sensor-dropout', 'cfg-sensor-dropout-val', (v) => editSensors({ dropout: v / 100 }, true));
+
+    // Island count and per-island tracks change the population layout; the rest apply live
+    const islands = simState.islandSettings;
+    wireSlider(body, 'cfg-island-count', 'cfg-island-count-val', (v) => { islands.count = v; });
+    body.querySelector('#cfg-island-count')?.addEventListener('change', restartRun);
+    const islandTracksCheck = body.querySelector('#cfg-island-tracks') as HTMLInputElement;
+    islandTracksCheck.addEventListener('change', () => {
+        islands.separateTracks = islandTracksCheck.checked;
+        if (islands.count > 1) restartRun();
+    });
+    wireSlider(body, 'cfg-island-interval', 'cfg-island-interval-val', (v) => { islands.migrationInterval = v; });
+    wireSlider(body, 'cfg-island-migrants', 'cfg-island-migrants-val', (v) => { islands.migrantCount = v; });
+    const topologySelect = body.querySelector('#cfg-island-topology') as HTMLSelectElement;
+    topologySelect.value = islands.topology;
+    topologySelect.addEventListener('change', () => {
+        islands.topology = topologySelect.value as MigrationTopology;
+    });
+
+    // Built-ins switch at once; an expression only replaces the active fitness once it compiles
+    const fitnessSelect = body.querySelector('#cfg-fitness') as HTMLSelectElement;
+    fitnessSelect.value = simState.fitness.kind;
+    fitnessSelect.addEventListener('change', () => {
+        const kind = fitnessSelect.value as FitnessKind;
+        showFitnessParams(body);
+        if (kind === 'custom') {
+            applyFitness({ ...simState.fitness, kind });
+            return;
+        }
+        simState.fitness.kind = kind;
+        applyFitness(simState.fitness);
+    });
+    body.querySelector('#cfg-btn-fitness-apply')?.addEventListener('click', () => {
+        const expression = (body.querySelector('#cfg-fitness-expr') as HTMLTextAreaElement).value.trim();
+        applyFitness({ kind: 'custom', expression });
+    });
+    showFitnessParams(body);
+
+    // Track count, sampling and seeds rebuild the track set; the aggregate applies from the next generation
+    const multiTrack = simState.multiTrack;
+    const mtEnabled = body.querySelector('#cfg-mt-enabled') as HTMLInputElement;
+    mtEnabled.addEventListener('change', () => {
+        multiTrack.enabled = mtEnabled.checked;
+        applyMultiTrack();
+    });
+    wireSlider(body, 'cfg-mt-count', 'cfg-mt-count-val', (v) => { multiTrack.trackCount = v; });
+    body.querySelector('#cfg-mt-count')?.addEventListener('change', applyMultiTrack);
+    wireSlider(body, 'cfg-mt-heldout', 'cfg-mt-heldout-val', (v) => { multiTrack.heldOutCount = v; });
+    body.querySelector('#cfg-mt-heldout')?.addEventListener('change', applyMultiTrack);
+    const samplingSelect = body.querySelector('#cfg-mt-sampling') as HTMLSelectElement;
+    samplingSelect.value = multiTrack.sampling;
+    samplingSelect.addEventListener('change', () => {
+        multiTrack.sampling = samplingSelect.value as TrackSampling;
+        showMultiTrackParams(body);
+        applyMultiTrack();
+    });
+    const seedsInput = body.querySelector('#cfg-mt-seeds') as HTMLInputElement;
+    seedsInput.addEventListener('change', () => {
+        multiTrack.fixedSeeds = seedsInput.value
+            .split(',')
+            .map(s => parseInt(s.trim()))
+            .filter(n => !isNaN(n) && n >= 1);
+        seedsInput.value = multiTrack.fixedSeeds.join(', ');
+        applyMultiTrack();
+    });
+    const aggregateSelect = body.querySelector('#cfg-mt-aggregate') as HTMLSelectElement;
+    aggregateSelect.value = multiTrack.aggregate;
+    aggregateSelect.addEventListener('change', () => {
+        multiTrack.aggregate = aggregateSelect.value as FitnessAggregate;
+        showMultiTrackParams(body);
+    });
+    wireSlider(body, 'cfg-mt-percentile', 'cfg-mt-percentile-val', (v) => { multiTrack.percentile = v; });
+    showMultiTrackParams(body);
+
+    // Turning the curriculum on restarts it from the first stage
+    const curriculum = simState.curriculum;
+    const curEnabled = body.querySelector('#cfg-cur-enabled') as HTMLInputElement;
+    curEnabled.addEventListener('change', () => {
+        curriculum.settings.enabled = curEnabled.checked;
+        if (!curEnabled.checked) { renderCurriculum(body); return; }
+        curriculum.setStage(0);
+        applyCurriculumStage();
+    });
+    wireSlider(body, 'cfg-cur-success', 'cfg-cur-success-val', (v) => { curriculum.settings.successRate = v / 100; });
+    wireSlider(body, 'cfg-cur-success-gens', 'cfg-cur-success-gens-val', (v) => { curriculum.settings.successGenerations = v; });
+    wireSlider(body, 'cfg-cur-collapse', 'cfg-cur-collapse-val', (v) => { curriculum.settings.collapseRate = v / 100; });
+    wireSlider(body, 'cfg-cur-collapse-gens', 'cfg-cur-collapse-gens-val', (v) => { curriculum.settings.collapseGenerations = v; });
+    body.querySelector('#cfg-btn-cur-add')?.addEventListener('click', () => {
+        const track = mainTrack();
+        if (!track) return;
+        const stages = curriculum.settings.stages;
+        stages.push({ name: `Custom ${stages.length + 1}`, params: track.getParams() });
+        renderCurriculum(body);
+    });
+    body.querySelector('#cfg-btn-cur-default')?.addEventListener('click', () => {
+        curriculum.settings.stages = [...DEFAULT_CURRICULUM_STAGES];
+        curriculum.setStage(0);
+        if (curriculum.settings.enabled) applyCurriculumStage();
+        else renderCurriculum(body);
+    });
+    body.querySelector('#cfg-cur-stages')?.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const index = parseInt(target.dataset.stage ?? '');
+        if (isNaN(index)) return;
+        if (target.dataset.action === 'remove') {
+            removeCurriculumStage(index);
+        } else {
+            curriculum.setStage(index);
+            if (curriculum.settings.enabled) applyCurriculumStage();
+        }
+        renderCurriculum(body);
+    });
+    renderCurriculum(body);
+
+    // Every GA's monitor reads simState.stagnation, so edits apply to the running optimizer
+    const stagnation = simState.stagnation;
+    const stagEnabled = body.querySelector('#cfg-stag-enabled') as HTMLInputElement;
+    stagEnabled.addEventListener('change', () => { stagnation.enabled = stagEnabled.checked; });
+    const stagStrategy = body.querySelector('#cfg-stag-strategy') as HTMLSelectElement;
+    stagStrategy.value = stagnation.strategy;
+    stagStrategy.addEventListener('change', () => {
+        stagnation.strategy = stagStrategy.value as StagnationStrategy;
+        showStagnationParams(body);
+    });
+    wireSlider(body, 'cfg-stag-gens', 'cfg-stag-gens-val', (v) => { stagnation.generations = v; });
+    wireSlider(body, 'cfg-stag-diversity', 'cfg-stag-diversity-val', (v) => { stagnation.diversityThreshold = v; }, 1);
+    wireSlider(body, 'cfg-stag-burst-factor', 'cfg-stag-burst-factor-val', (v) => { stagnation.burstFactor = v; }, 1);
+    wireSlider(body, 'cfg-stag-burst-gens', 'cfg-stag-burst-gens-val', (v) => { stagnation.burstGenerations = v; });
+    wireSlider(body, 'cfg-stag-immigrant-share', 'cfg-stag-immigrant-share-val', (v) => { stagnation.immigrantShare = v / 100; });
+    showStagnationParams(body);
+
+    const modeSelect = body.querySelector('#cfg-evolution-mode') as HTMLSelectElement;
+    modeSelect.value = simState.evolutionMode;
+    modeSelect.addEventListener('change', () => {
+        simState.evolutionMode = modeSelect.value as EvolutionMode;
+        restartRun();
+    });
 
     body.querySelector('#cfg-btn-randomize')?.addEventListener('click', () => {
         if (!simState.track || !simState.ga) return;
@@ -186,6 +910,336 @@ export function updateConfigPanel() {
     if (activeSeedEl) activeSeedEl.textContent = String(simState.simulationSeed);
 }
 
+/**
+ * Show simState's optimizer, brain mode and island settings in their controls.
+ * Called after a session load replaces the run.
+ */
+export function syncRunControls(root: ParentNode = document) {
+    const setValue = (id: string, value: string) => {
+        const el = root.querySelector(`#${id}`) as HTMLInputElement | HTMLSelectElement | null;
+        if (el) el.value = value;
+        const valEl = root.querySelector(`#${id}-val`);
+        if (valEl) valEl.textContent = value;
+    };
+    const islands = simState.islandSettings;
+    setValue('cfg-optimizer', simState.optimizerKind);
+    setValue('cfg-evolution-mode', simState.evolutionMode);
+    setValue('cfg-island-count', String(islands.count));
+    setValue('cfg-island-interval', String(islands.migrationInterval));
+    setValue('cfg-island-migrants', String(islands.migrantCount));
+    setValue('cfg-island-topology', islands.topology);
+    const tracksCheck = root.querySelector('#cfg-island-tracks') as HTMLInputElement | null;
+    if (tracksCheck) tracksCheck.checked = islands.separateTracks;
+}
+
+/**
+ * Change the edited architecture's sensors. With `live` (noise and dropout) the running boids
+ * pick the change up too; geometry waits for restartRun.
+ */
+function editSensors(changes: Partial<SensorConfig>, live = false) {
+    simState.architecture.sensors = { ...sensorsOf(simState.architecture), ...changes };
+    if (live) Boid.architecture = { ...Boid.architecture, sensors: { ...sensorsOf(Boid.architecture), ...changes } };
+}
+
+/** Show simState.architecture's sensors in the Sensor controls. Called when a load replaces the architecture. */
+export function syncSensorControls(root: ParentNode = document) {
+    const sensors = sensorsOf(simState.architecture);
+    const setSlider = (id: string, value: number, decimals = 0) => {
+        const slider = root.querySelector(`#${id}`) as HTMLInputElement | null;
+        const valEl = root.querySelector(`#${id}-val`);
+        if (slider) slider.value = String(value);
+        if (valEl) valEl.textContent = value.toFixed(decimals);
+    };
+    setSlider('cfg-sensor-count', sensors.count);
+    setSlider('cfg-sensor-fov', sensors.fov);
+    setSlider('cfg-sensor-length', Math.max(...sensors.lengths));
+    setSlider('cfg-sensor-noise', sensors.noise, 2);
+    setSlider('cfg-sensor-dropout', Math.round(sensors.dropout * 100));
+    renderRayLengths(root);
+}
+
+/** One length slider per ray of simState.architecture's sensors, labelled as the brain's inputs are. */
+function renderRayLengths(root: ParentNode = document) {
+    const list = root.querySelector('#cfg-sensor-lengths') as HTMLElement | null;
+    if (!list) return;
+    const sensors = sensorsOf(simState.architecture);
+    const labels = sensorLabels(sensors);
+    list.innerHTML = sensors.lengths.map((length, i) => `
+      <div class="cfg-row">
+        <span style="width:34px;font-size:0.75rem;color:#888;">${labels[i]}</span>
+        <input type="range" id="cfg-sensor-length-${i}" min="${MIN_SENSOR_LENGTH}" max="${MAX_SENSOR_LENGTH}" step="10" value="${length}">
+        <span class="cfg-value" id="cfg-sensor-length-${i}-val">${length}</span>
+      </div>
+    `).join('');
+    sensors.lengths.forEach((_, i) => {
+        wireSlider(list, `cfg-sensor-length-${i}`, `cfg-sensor-length-${i}-val`, (v) => {
+            const lengths = [...sensorsOf(simState.architecture).lengths];
+            lengths[i] = v;
+            editSensors({ lengths });
+        });
+        list.querySelector(`#cfg-sensor-length-${i}`)?.addEventListener('change', restartRun);
+    });
+}
+
+/** Update simState.gaSettings and hand the result to every running GA population. */
+function editGASettings(patch: Partial<GASettings>) {
+    Object.assign(simState.gaSettings, patch);
+    withGA(ga => ga.applySettings(simState.gaSettings));
+}
+
+/** Rebuild the running GA's selection strategy from simState.selection. */
+function applySelection() {
+    withGA(ga => { ga.selection = createSelection(simState.selection); });
+}
+
+/**
+ * Show simState.selection in the Parent Selection controls, with only the
+ * active strategy's parameters visible. Called after a session load too.
+ */
+export function syncSelectionControls(root: ParentNode = document) {
+    const sel = simState.selection;
+    const selectEl = root.querySelector('#cfg-selection') as HTMLSelectElement | null;
+    if (selectEl) selectEl.value = sel.kind;
+
+    const setSlider = (id: string, value: number, decimals = 0) => {
+        const slider = root.querySelector(`#${id}`) as HTMLInputElement | null;
+        const valEl = root.querySelector(`#${id}-val`);
+        if (slider) slider.value = String(value);
+        if (valEl) valEl.textContent = value.toFixed(decimals);
+    };
+    setSlider('cfg-tournament', sel.tournamentSize);
+    setSlider('cfg-rank-pressure', sel.rankPressure, 2);
+    setSlider('cfg-truncation', sel.truncationCount);
+
+    const groups: [string, SelectionKind][] = [
+        ['cfg-sel-tournament', 'tournament'],
+        ['cfg-sel-rank', 'rank'],
+        ['cfg-sel-truncation', 'truncation'],
+    ];
+    for (const [id, kind] of groups) {
+        const el = root.querySelector(`#${id}`) as HTMLElement | null;
+        if (el) el.style.display = sel.kind === kind ? '' : 'none';
+    }
+}
+
+/** Point the running GA at simState.mutation. */
+function applyMutation() {
+    withGA(ga => { ga.mutationSettings = simState.mutation; });
+}
+
+/** Decay sliders for linear/cosine, boost sliders for stagnation, nothing for constant. */
+function showScheduleParams(root: ParentNode) {
+    const schedule = simState.mutation.schedule;
+    const decay = root.querySelector('#cfg-sched-decay') as HTMLElement | null;
+    const stagnation = root.querySelector('#cfg-sched-stagnation') as HTMLElement | null;
+    if (decay) decay.style.display = schedule === 'linear' || schedule === 'cosine' ? '' : 'none';
+    if (stagnation) stagnation.style.display = schedule === 'stagnation' ? '' : 'none';
+}
+
+/** Burst factor for hypermutation, duration for hypermutation and novelty, share for immigrants. */
+function showStagnationParams(root: ParentNode) {
+    const strategy = simState.stagnation.strategy;
+    const show = (id: string, visible: boolean) => {
+        const el = root.querySelector(`#${id}`) as HTMLElement | null;
+        if (el) el.style.display = visible ? '' : 'none';
+    };
+    show('cfg-stag-burst', strategy === 'hypermutation');
+    show('cfg-stag-duration', strategy === 'hypermutation' || strategy === 'novelty');
+    show('cfg-stag-immigrants', strategy === 'immigrants');
+}
+
+/** Show simState.stagnation in its controls. Called after a session load replaces it. */
+export function syncStagnationControls(root: ParentNode = document) {
+    const s = simState.stagnation;
+    const enabled = root.querySelector('#cfg-stag-enabled') as HTMLInputElement | null;
+    if (enabled) enabled.checked = s.enabled;
+    const strategy = root.querySelector('#cfg-stag-strategy') as HTMLSelectElement | null;
+    if (strategy) strategy.value = s.strategy;
+    const sliders: [string, number, number][] = [
+        ['cfg-stag-gens', s.generations, 0],
+        ['cfg-stag-diversity', s.diversityThreshold, 1],
+        ['cfg-stag-burst-factor', s.burstFactor, 1],
+        ['cfg-stag-burst-gens', s.burstGenerations, 0],
+        ['cfg-stag-immigrant-share', Math.round(s.immigrantShare * 100), 0],
+    ];
+    for (const [id, value, decimals] of sliders) {
+        const slider = root.querySelector(`#${id}`) as HTMLInputElement | null;
+        const valEl = root.querySelector(`#${id}-val`);
+        if (slider) slider.value = String(value);
+        if (valEl) valEl.textContent = value.toFixed(decimals);
+    }
+    showStagnationParams(root);
+}
+
+/** Point the running GA at simState.crossover. */
+function applyCrossover() {
+    withGA(ga => { ga.crossoverSettings = simState.crossover; });
+}
+
+/** Only the selected operator's parameter sliders are shown. */
+function showCrossoverParams(root: ParentNode) {
+    const groups: [string, CrossoverKind][] = [
+        ['cfg-xo-n-point', 'n-point'],
+        ['cfg-xo-sbx', 'sbx'],
+    ];
+    for (const [id, kind] of groups) {
+        const el = root.querySelector(`#${id}`) as HTMLElement | null;
+        if (el) el.style.display = simState.crossover.kind === kind ? '' : 'none';
+    }
+}
+
+/**
+ * Install `settings` as the active fitness and store it in simState. A custom expression that
+ * doesn't compile leaves the previous fitness running and shows the parse error instead.
+ */
+function applyFitness(settings: FitnessSettings) {
+    const errorEl = document.getElementById('cfg-fitness-error');
+    try {
+        setFitness(settings);
+    } catch (err) {
+        if (errorEl) errorEl.textContent = `❌ ${(err as Error).message}`;
+        return;
+    }
+    simState.fitness = { ...settings };
+    if (errorEl) errorEl.textContent = '';
+}
+
+/** The expression editor is only shown for the custom fitness. */
+function showFitnessParams(root: ParentNode) {
+    const select = root.querySelector('#cfg-fitness') as HTMLSelectElement | null;
+    const custom = root.querySelector('#cfg-fitness-custom') as HTMLElement | null;
+    if (custom && select) custom.style.display = select.value === 'custom' ? '' : 'none';
+}
+
+/** Show simState.fitness in the Fitness Function controls. Called after a session load. */
+export function syncFitnessControls(root: ParentNode = document) {
+    const select = root.querySelector('#cfg-fitness') as HTMLSelectElement | null;
+    const expr = root.querySelector('#cfg-fitness-expr') as HTMLTextAreaElement | null;
+    const errorEl = root.querySelector('#cfg-fitness-error');
+    if (select) select.value = simState.fitness.kind;
+    if (expr) expr.value = simState.fitness.expression;
+    if (errorEl) errorEl.textContent = '';
+    showFitnessParams(root);
+}
+
+/** Fixed seeds only for the fixed set, the percentile slider only for the percentile aggregate. */
+function showMultiTrackParams(root: ParentNode) {
+    const fixed = root.querySelector('#cfg-mt-fixed') as HTMLElement | null;
+    const percentile = root.querySelector('#cfg-mt-percentile-row') as HTMLElement | null;
+    if (fixed) fixed.style.display = simState.multiTrack.sampling === 'fixed' ? '' : 'none';
+    if (percentile) percentile.style.display = simState.multiTrack.aggregate === 'percentile' ? '' : 'none';
+}
+
+/** Give every running population a track set built from simState.multiTrack (or none when disabled). */
+function applyMultiTrack() {
+    const { ga, track, islands } = simState;
+    if (!ga || !track) return;
+    if (!islands) {
+        ga.setTrackSet(trackSetFor(track), track);
+        return;
+    }
+    for (const island of islands.islands) {
+        island.ga.setTrackSet(trackSetFor(island.track), island.track);
+        island.done = false;
+    }
+}
+
+/**
+ * Reshape every race track to the curriculum's current stage: each gets a fresh layout with
+ * the stage's parameters, and the populations restart their races on it.
+ */
+export function applyCurriculumStage() {
+    const { track, islands, curriculum } = simState;
+    if (!track) return;
+    for (const t of islands ? islands.tracks() : [track]) {
+        t.setParams(curriculum.current.params);
+        t.randomize(Track.FIXED_SIZE, Track.FIXED_SIZE);
+    }
+    applyMultiTrack();
+    renderCurriculum();
+}
+
+/** Drop a stage, keeping at least one and the current stage pointing at the same entry where possible. */
+function removeCurriculumStage(index: number) {
+    const curriculum = simState.curriculum;
+    const stages = curriculum.settings.stages;
+    if (stages.length <= 1) return;
+    curriculum.settings.stages = stages.filter((_, i) => i !== index);
+    if (index < curriculum.stage || curriculum.stage >= curriculum.settings.stages.length) {
+        curriculum.setStage(curriculum.stage - 1);
+    }
+}
+
+/** Stage list (current one highlighted, click to jump), status line and sliders from simState.curriculum. */
+export function renderCurriculum(root: ParentNode = document) {
+    const curriculum = simState.curriculum;
+    const settings = curriculum.settings;
+    const enabled = root.querySelector('#cfg-cur-enabled') as HTMLInputElement | null;
+    if (enabled) enabled.checked = settings.enabled;
+    const setSlider = (id: string, value: number) => {
+        const slider = root.querySelector(`#${id}`) as HTMLInputElement | null;
+        const valEl = root.querySelector(`#${id}-val`);
+        if (slider) slider.value = String(value);
+        if (valEl) valEl.textContent = String(value);
+    };
+    setSlider('cfg-cur-success', Math.round(settings.successRate * 100));
+    setSlider('cfg-cur-success-gens', settings.successGenerations);
+    setSlider('cfg-cur-collapse', Math.round(settings.collapseRate * 100));
+    setSlider('cfg-cur-collapse-gens', settings.collapseGenerations);
+
+    const status = root.querySelector('#cfg-cur-status');
+    if (status) {
+        status.textContent = settings.enabled
+            ? `Stage ${curriculum.stage + 1}/${settings.stages.length} · ${curriculum.current.name}`
+            + ` · up ${curriculum.successStreak}/${settings.successGenerations}`
+            + ` · down ${curriculum.collapseStreak}/${settings.collapseGenerations}`
+            : 'Off';
+    }
+    const list = root.querySelector('#cfg-cur-stages');
+    if (list) {
+        list.innerHTML = settings.stages.map((stage, i) => {
+            const p = stage.params;
+            const current = i === curriculum.stage;
+            return `<div style="display:flex;gap:6px;align-items:center;color:${current ? '#4ade80' : '#888'};">
+              <span data-stage="${i}" style="flex:1;cursor:pointer;" title="Width ${p.trackWidth} · ${p.numControlPoints} points · variance ${p.radiusVariance} · corners ${p.cornerTightness}">${current ? '▶' : '&nbsp;&nbsp;'} ${i + 1}. ${escapeHtml(stage.name)}</span>
+              <span data-stage="${i}" data-action="remove" style="cursor:pointer;color:#555;" title="Remove stage">✕</span>
+            </div>`;
+        }).join('');
+    }
+}
+
+/** Apply a setting to every population: each island's when islands are on, otherwise the only one. */
+function withOptimizers(fn: (ga: Optimizer) => void) {
+    const { islands, ga } = simState;
+    if (islands) islands.islands.forEach(island => fn(island.ga));
+    else if (ga) fn(ga);
+}
+
+/** Apply a GA-only setting to every population; ignored while an evolution strategy is running. */
+function withGA(fn: (ga: GeneticAlgorithm) => void) {
+    withOptimizers(ga => { if (ga instanceof GeneticAlgorithm) fn(ga); });
+}
+
+/** Finalize the current run and start a fresh one with the selected optimizer and brain mode. */
+function restartRun() {
+    const { ga } = simState;
+    const track = mainTrack();
+    if (!ga || !track) return;
+    finalizeRun(ga);
+    resetChartData();
+    startOptimizer(track, 1);
+    setCurrentRunStartGen(1);
+
+    // Each ES has its own default step size — show the one now in effect
+    const { ga: fresh } = simState;
+    if (fresh instanceof CmaEs || fresh instanceof OpenAiEs) {
+        const slider = document.getElementById('cfg-es-sigma') as HTMLInputElement | null;
+        const valEl = document.getElementById('cfg-es-sigma-val');
+        if (slider) slider.value = String(fresh.sigma);
+        if (valEl) valEl.textContent = fresh.sigma.toFixed(2);
+    }
+}
+
 function wireSlider(
     root: HTMLElement,
     sliderId: string,
@@ -203,18 +1257,23 @@ function wireSlider(
     });
 }
 
+/**
+ * Restart the current race on a changed track. Boids keep their brains; Boid.reset
+ * clears recurrent brains' state, which belonged to the old track.
+ */
 export function resetBoidsForNewTrack() {
-    const { ga, track } = simState;
+    const { ga, track, islands } = simState;
     if (!ga || !track) return;
-    for (const boid of ga.boids) {
-        boid.pos.x = track.startPoint.x;
-        boid.pos.y = track.startPoint.y;
-        boid.heading = track.startAngle;
-        boid.isDead = false;
-        boid.fitness = 0;
-        boid.distanceTraveled = 0;
-        boid.checkpointCount = 0;
-        boid.life = 500;
-    }
-    ga.timer = 0;
+    if (!islands) {
+        ga.setTrackSet(ga.trackSet, track);
+        return;
+    }
+    for (const island of islands.islands) {
+        island.ga.setTrackSet(island.ga.trackSet, island.track);
+        island.done = false;
+    }
+}
+
+function escapeHtml(s: string): string {
+    return s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
 }
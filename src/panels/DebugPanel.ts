@@ -2,6 +2,11 @@
 // Live readouts: FPS, stats, boid I/O, console log capture.
 
 import { simState } from '../SimState';
+import { GeneticAlgorithm } from '../AI';
+import { CmaEs, OpenAiEs } from '../EvolutionStrategies';
+import { OPTIMIZER_LABELS } from '../Optimizer';
+import { SELECTION_LABELS } from '../Selection';
+import { CROSSOVER_LABELS } from '../Crossover';
 import { buildPanel } from './BrainPanel';
 
 const MAX_LOG_LINES = 200;
@@ -25,12 +30,18 @@ export function createDebugPanel(): HTMLElement {
     body.innerHTML = `
     <div class="dbg-stats">
       <div class="dbg-row"><span>FPS</span><span id="dbg-fps">—</span></div>
+      <div class="dbg-row"><span>Optimizer</span><span id="dbg-optimizer">—</span></div>
       <div class="dbg-row"><span>Generation</span><span id="dbg-gen">—</span></div>
       <div class="dbg-row"><span>Frames Left</span><span id="dbg-frames">—</span></div>
       <div class="dbg-row"><span>Alive</span><span id="dbg-alive">—</span></div>
       <div class="dbg-row"><span>Best Boid TTL</span><span id="dbg-best-ttl">—</span></div>
       <div class="dbg-row"><span>Best Fitness</span><span id="dbg-fitness">—</span></div>
+      <div class="dbg-row"><span>Best Progress</span><span id="dbg-progress">—</span></div>
+      <div class="dbg-row"><span>Best Lap Times</span><span id="dbg-lap-times">—</span></div>
       <div class="dbg-row"><span>Diversity</span><span id="dbg-diversity">—</span></div>
+      <div class="dbg-row"><span>Species</span><span id="dbg-species">—</span></div>
+      <div class="dbg-row"><span>Islands</span><span id="dbg-islands">—</span></div>
+      <div class="dbg-row"><span>Eval Tracks</span><span id="dbg-eval-tracks">—</span></div>
     </div>
     <div class="dbg-section-title">Best Boid I/O</div>
     <div class="dbg-stats" id="dbg-io"></div>
@@ -52,7 +63,7 @@ export function createDebugPanel(): HTMLElement {
 export function updateDebugPanel() {
     const panel = document.querySelector('[data-panel-id="debug"]') as HTMLElement | null;
     if (!panel || panel.style.display === 'none') return;
-    const { ga, fps } = simState;
+    const { ga, fps, track } = simState;
     if (!ga) return;
 
     setText('dbg-fps', fps.toFixed(1));
@@ -64,6 +75,43 @@ export function updateDebugPanel() {
 
     const best = ga.getBestActiveBoid();
     setText('dbg-fitness', best ? Math.floor(best.fitness).toString() : '—');
+    const lapLength = track ? ga.raceTrack(track).lapLength : 0;
+    setText('dbg-progress', best && lapLength > 0
+        ? `${Math.floor(best.progress)} px · lap ${(best.progress / lapLength + 1).toFixed(2)}`
+        : '—');
+    setText('dbg-lap-times', best && best.lapTimes.length > 0
+        ? `last ${best.lapTimes[best.lapTimes.length - 1]} · best ${Math.min(...best.lapTimes)} frames`
+        : '—');
+
+    let optimizerText = OPTIMIZER_LABELS[ga.kind];
+    if (ga instanceof CmaEs || ga instanceof OpenAiEs) {
+        optimizerText += ` (σ ${ga.sigma.toFixed(3)})`;
+    } else if (ga instanceof GeneticAlgorithm) {
+        optimizerText += ` · ${SELECTION_LABELS[ga.selection.kind]} · ${CROSSOVER_LABELS[ga.crossoverSettings.kind]}`;
+    }
+    setText('dbg-optimizer', optimizerText);
+    const { islands } = simState;
+    if (islands) {
+        const waiting = islands.islands.filter(i => i.done).length;
+        const interval = islands.settings.migrationInterval;
+        const nextMigration = Math.ceil(islands.generation / interval) * interval;
+        setText('dbg-islands', `#${islands.viewIndex + 1} of ${islands.islands.length}`
+            + (waiting > 0 ? ` · ${waiting} waiting` : '')
+            + ` · migrate after gen ${nextMigration}`);
+    } else {
+        setText('dbg-islands', 'off');
+    }
+    if (ga.trackSet) {
+        const held = ga.lastGenEndStats?.heldOutFitness;
+        setText('dbg-eval-tracks', `track ${ga.episode + 1} of ${ga.trackSet.train.length}`
+            + ` · ${ga.trackSet.settings.aggregate}`
+            + (held != null ? ` · held-out ${Math.floor(held)}` : ''));
+    } else {
+        setText('dbg-eval-tracks', 'single track');
+    }
+    setText('dbg-species', ga instanceof GeneticAlgorithm && ga.useSpeciation
+        ? `${ga.species.length} (δ ${ga.compatibilityThreshold.toFixed(2)})`
+        : 'off');
 
     const ttlEl = document.getElementById('dbg-best-ttl');
     if (ttlEl) {
@@ -89,11 +137,11 @@ export function updateDebugPanel() {
     // Sensor I/O
     const ioContainer = document.getElementById('dbg-io');
     if (ioContainer && best) {
-        const sensorLabels = ['L', 'FL', 'F', 'FR', 'R'];
+        const inLabels = best.inputLabels();
         const outLabels = ['Thr', 'Str'];
         let html = '';
         best.lastInputs.forEach((v, i) => {
-            html += `<div class="dbg-row"><span>In[${sensorLabels[i] || i}]</span><span>${v.toFixed(3)}</span></div>`;
+            html += `<div class="dbg-row"><span>In[${inLabels[i] || i}]</span><span>${v.toFixed(3)}</span></div>`;
         });
         best.lastOutputs.forEach((v, i) => {
             html += `<div class="dbg-row"><span>Out[${outLabels[i] || i}]</span><span>${v.toFixed(3)}</span></div>`;
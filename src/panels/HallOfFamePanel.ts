@@ -0,0 +1,249 @@
+// src/panels/HallOfFamePanel.ts
+// Browse the all-time hall of fame, race members on the current track, export them,
+// and set how the GA draws on it (reseeding on stagnation, members as crossover parents).
+
+import { simState } from '../SimState';
+import { mainTrack } from '../OptimizerFactory';
+import type { HallOfFameEntry } from '../HallOfFame';
+import { type BenchmarkRun, type BenchmarkSuite, runBenchmarkRace } from '../Benchmark';
+import { buildPanel } from './BrainPanel';
+
+// Races on the current track use the benchmark runner with this one-off suite
+const RACE_LAPS = 2;
+const RACE_MAX_FRAMES = 6000;
+
+const selected = new Set<number>(); // entry ids
+let renderedKey = '';               // entry ids last rendered, to skip redundant list rebuilds
+let raceResults: BenchmarkRun[] = [];
+
+export function createHallOfFamePanel(): HTMLElement {
+    const panel = buildPanel('halloffame', '🏆 Hall of Fame', 360, 480, 460, 100);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+
+    const settings = simState.hallOfFame.settings;
+    body.innerHTML = `
+    <div class="cfg-section">
+      <div class="cfg-label">Capacity <span style="color:#555;font-size:0.75rem">per fitness definition</span></div>
+      <div class="cfg-row">
+        <input type="range" id="hof-capacity" min="5" max="100" step="5" value="${settings.capacity}">
+        <span class="cfg-value" id="hof-capacity-val">${settings.capacity}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Members as Crossover Parents (%)</div>
+      <div class="cfg-row">
+        <input type="range" id="hof-parent-rate" min="0" max="50" step="5" value="${Math.round(settings.parentRate * 100)}">
+        <span class="cfg-value" id="hof-parent-rate-val">${Math.round(settings.parentRate * 100)}</span>
+      </div>
+      <div style="display:flex;align-items:center;gap:8px;margin:6px 0;">
+        <input type="checkbox" id="hof-reseed" ${settings.reseedOnStagnation ? 'checked' : ''}>
+        <label for="hof-reseed" style="font-size:0.85rem;">Reseed from the hall on stagnation</label>
+      </div>
+      <div class="cfg-label">Stagnation (gens without new best)</div>
+      <div class="cfg-row">
+        <input type="range" id="hof-stagnation" min="5" max="100" step="5" value="${settings.stagnationGenerations}">
+        <span class="cfg-value" id="hof-stagnation-val">${settings.stagnationGenerations}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Population Reseeded (%)</div>
+      <div class="cfg-row">
+        <input type="range" id="hof-reseed-share" min="5" max="80" step="5" value="${Math.round(settings.reseedShare * 100)}">
+        <span class="cfg-value" id="hof-reseed-share-val">${Math.round(settings.reseedShare * 100)}</span>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">GA only · members must match the evolution mode, architecture and fitness definition</div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Members</div>
+      <div id="hof-list" style="font-size:0.70rem;color:#aaa;max-height:180px;overflow-y:auto;"></div>
+      <div style="display:flex;gap:6px;flex-wrap:wrap;margin-top:6px;">
+        <button id="hof-btn-race">▶ Race on Current Track</button>
+        <button id="hof-btn-export">⬇ Export</button>
+        <button id="hof-btn-remove">✕ Remove</button>
+        <button id="hof-btn-clear" class="sl-btn-danger">Clear</button>
+      </div>
+      <div id="hof-status" style="font-size:0.78rem;color:#888;min-height:18px;margin-top:4px;"></div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Race Results</div>
+      <div id="hof-results" style="font-size:0.70rem;color:#aaa;"></div>
+    </div>
+  `;
+
+    const hof = simState.hallOfFame;
+    wireSlider(body, 'hof-capacity', 'hof-capacity-val', (v) => { hof.setCapacity(v); });
+    wireSlider(body, 'hof-parent-rate', 'hof-parent-rate-val', (v) => { hof.settings.parentRate = v / 100; });
+    wireSlider(body, 'hof-stagnation', 'hof-stagnation-val', (v) => { hof.settings.stagnationGenerations = v; });
+    wireSlider(body, 'hof-reseed-share', 'hof-reseed-share-val', (v) => { hof.settings.reseedShare = v / 100; });
+    const reseedCheck = body.querySelector('#hof-reseed') as HTMLInputElement;
+    reseedCheck.addEventListener('change', () => { hof.settings.reseedOnStagnation = reseedCheck.checked; });
+
+    body.querySelector('#hof-list')?.addEventListener('change', (e) => {
+        const box = e.target as HTMLInputElement;
+        const id = parseInt(box.dataset.id ?? '');
+        if (isNaN(id)) return;
+        if (box.checked) selected.add(id);
+        else selected.delete(id);
+    });
+    body.querySelector('#hof-btn-race')?.addEventListener('click', raceSelected);
+    body.querySelector('#hof-btn-export')?.addEventListener('click', exportSelected);
+    body.querySelector('#hof-btn-remove')?.addEventListener('click', () => {
+        for (const id of selected) hof.remove(id);
+        selected.clear();
+    });
+    body.querySelector('#hof-btn-clear')?.addEventListener('click', () => {
+        if (!confirm('Remove every brain from the hall of fame?')) return;
+        hof.clear();
+        selected.clear();
+    });
+
+    renderResults(body);
+    return panel;
+}
+
+export function updateHallOfFamePanel() {
+    const panel = document.querySelector('[data-panel-id="halloffame"]') as HTMLElement | null;
+    if (!panel || panel.style.display === 'none' || panel.classList.contains('panel--minimized')) return;
+    const entries = simState.hallOfFame.entries;
+    const key = entries.map(e => e.id).join(',');
+    if (key === renderedKey) return;
+    renderedKey = key;
+    for (const id of selected) {
+        if (!entries.some(e => e.id === id)) selected.delete(id);
+    }
+    renderList(entries);
+}
+
+/** Selected members, best first. */
+function selectedEntries(): HallOfFameEntry[] {
+    return simState.hallOfFame.entries.filter(e => selected.has(e.id));
+}
+
+/** Race each selected member alone on the current track; deterministic, so results repeat. */
+function raceSelected() {
+    const track = mainTrack();
+    const entries = selectedEntries();
+    if (!track) return;
+    if (entries.length === 0) { setStatus('Select at least one member.'); return; }
+    const suite: BenchmarkSuite = {
+        id: 'hall-of-fame', version: 1, name: 'Current track',
+        laps: RACE_LAPS, maxFrames: RACE_MAX_FRAMES, tracks: [],
+    };
+    // The race reseeds the PRNG from the entry's seed, which must be > 0
+    const entry = { name: `seed ${track.seed}`, seed: track.seed || 1, params: track.getParams() };
+    raceResults = entries.map(e => runBenchmarkRace(suite, entry, track, { name: entryName(e), brain: e.brain }));
+    setStatus(`✅ Raced ${entries.length} member${entries.length > 1 ? 's' : ''} on the current track`);
+    renderResults();
+}
+
+/** One brain file per selected member, in the Save/Load export shape. */
+function exportSelected() {
+    const entries = selectedEntries();
+    if (entries.length === 0) { setStatus('Select at least one member.'); return; }
+    for (const e of entries) {
+        const data = {
+            generation: e.generation,
+            fitness: e.fitness,
+            trackSeed: e.trackSeed,
+            network: e.brain,
+            exportedAt: new Date().toISOString(),
+        };
+        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `brain-hof${e.id}-gen${e.generation}.json`;
+        document.body.appendChild(a); a.click();
+        document.body.removeChild(a); URL.revokeObjectURL(url);
+    }
+}
+
+function entryName(e: HallOfFameEntry): string {
+    return `#${e.id} gen ${e.generation}`;
+}
+
+function renderList(entries: HallOfFameEntry[]) {
+    const el = document.getElementById('hof-list');
+    if (!el) return;
+    if (entries.length === 0) {
+        el.innerHTML = '<span style="color:#444;">Empty — each generation\'s champion is offered to the hall.</span>';
+        return;
+    }
+    const th = 'style="padding:1px 4px;font-weight:normal;text-align:left"';
+    const rows = entries.map((e, i) => {
+        const d = new Date(e.timestamp);
+        const pad = (n: number) => String(n).padStart(2, '0');
+        const dateStr = `${d.getMonth() + 1}/${d.getDate()} ${d.getHours()}:${pad(d.getMinutes())}`;
+        return `<tr>
+          <td style="padding:1px 4px"><input type="checkbox" data-id="${e.id}" ${selected.has(e.id) ? 'checked' : ''}></td>
+          <td style="padding:1px 4px;color:#888">${i + 1}</td>
+          <td style="padding:1px 4px">${e.generation}</td>
+          <td style="padding:1px 4px;color:#4ade80">${Math.floor(e.fitness).toLocaleString()}</td>
+          <td style="padding:1px 4px;color:#aaa;max-width:90px;overflow:hidden;text-overflow:ellipsis;white-space:nowrap" title="${escapeHtml(e.fitnessDefinition)}">${escapeHtml(e.fitnessDefinition) || '?'}</td>
+          <td style="padding:1px 4px;color:#888">${e.trackSeed || '—'}</td>
+          <td style="padding:1px 4px;color:#555">${dateStr}</td>
+        </tr>`;
+    }).join('');
+    el.innerHTML = `<table style="width:100%;border-collapse:collapse;line-height:1.4;">
+      <thead><tr style="color:#444;border-bottom:1px solid rgba(255,255,255,0.06);">
+        <th ${th}></th><th ${th}>#</th><th ${th}>Gen</th><th ${th}>Fitness</th><th ${th}>Scored by</th><th ${th}>Seed</th><th ${th}>Date</th>
+      </tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+function renderResults(root: ParentNode = document) {
+    const el = root.querySelector('#hof-results');
+    if (!el) return;
+    if (raceResults.length === 0) {
+        el.innerHTML = '<span style="color:#444;">No races yet.</span>';
+        return;
+    }
+    const th = 'style="padding:1px 4px;font-weight:normal;text-align:left"';
+    const rows = raceResults.map(r => {
+        const outcome = r.completed
+            ? '<span style="color:#4ade80">✓</span>'
+            : r.crashed
+                ? `<span style="color:#f87171">crash @cp ${r.crashCheckpoint}</span>`
+                : '<span style="color:#888">stalled</span>';
+        return `<tr>
+          <td style="padding:1px 4px">${r.brain}</td>
+          <td style="padding:1px 4px">${r.laps}</td>
+          <td style="padding:1px 4px">${outcome}</td>
+          <td style="padding:1px 4px;color:#60a5fa">${r.meanSpeed.toFixed(2)}</td>
+          <td style="padding:1px 4px;color:#4ade80">${Math.floor(r.fitness).toLocaleString()}</td>
+        </tr>`;
+    }).join('');
+    el.innerHTML = `
+      <div style="color:#666;margin-bottom:4px;">${raceResults[0].track} · ${RACE_LAPS} laps · ${RACE_MAX_FRAMES} frames max</div>
+      <table style="width:100%;border-collapse:collapse;line-height:1.4;">
+        <thead><tr style="color:#444;border-bottom:1px solid rgba(255,255,255,0.06);">
+          <th ${th}>Brain</th><th ${th}>Laps</th><th ${th}>Result</th><th ${th}>Speed</th><th ${th}>Fitness</th>
+        </tr></thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+}
+
+function escapeHtml(s: string): string {
+    return s.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+}
+
+function setStatus(msg: string) {
+    const el = document.getElementById('hof-status');
+    if (el) el.textContent = msg;
+}
+
+function wireSlider(
+    root: HTMLElement,
+    sliderId: string,
+    valId: string,
+    onChange: (v: number) => void,
+) {
+    const slider = root.querySelector(`#${sliderId}`) as HTMLInputElement | null;
+    const valEl = root.querySelector(`#${valId}`) as HTMLElement | null;
+    if (!slider || !valEl) return;
+    slider.addEventListener('input', () => {
+        const v = parseFloat(slider.value);
+        valEl.textContent = String(v);
+        onChange(v);
+    });
+}
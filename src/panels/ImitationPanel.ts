@@ -0,0 +1,260 @@
+// src/panels/ImitationPanel.ts
+// Drive a boid with the keyboard to record a dataset, save or load it, train a network on it
+// with backprop, and seed the GA with the result.
+
+import { simState } from '../SimState';
+import { startOptimizer, mainTrack } from '../OptimizerFactory';
+import { KeyboardDriver } from '../Keyboard';
+import {
+    type DriveSample, type ImitationSettings, DEFAULT_IMITATION, MAX_DRIVE_SAMPLES,
+    DrivingRecorder, toDataset, isDrivingDataset, trainImitation,
+} from '../Imitation';
+import type { NeuralNetworkJSON } from '../brain-js';
+import { Boid } from '../Boid';
+import { architectureOf, inputsOf, inputsMismatch, savedInputs } from '../Network';
+import type { InputFeature } from '../Inputs';
+import { buildPanel } from './BrainPanel';
+import { finalizeRun, resetChartData, setCurrentRunStartGen } from './ChartPanel';
+import { syncArchitectureControls } from './ArchitecturePanel';
+
+const keyboard = new KeyboardDriver();
+const settings: ImitationSettings = { ...DEFAULT_IMITATION };
+let samples: DriveSample[] = [];
+let sampleInputs: InputFeature[] = []; // features the recorded samples hold
+let trained: NeuralNetworkJSON | null = null; // the last network trained on the dataset
+let training = false;
+let renderedKey = ''; // stats last rendered, to skip redundant updates
+
+export function createImitationPanel(): HTMLElement {
+    const panel = buildPanel('imitation', '🎮 Imitation', 340, 520, 520, 100);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+
+    body.innerHTML = `
+    <div class="sl-section">
+      <div class="sl-title">Record</div>
+      <div style="display:flex;gap:6px;">
+        <button id="im-btn-drive">▶ Drive &amp; Record</button>
+        <button id="im-btn-stop" class="sl-btn-danger">■ Stop</button>
+      </div>
+      <div style="font-size:0.75rem;color:#666;margin-top:4px;">
+        Arrow keys or WASD · a crash puts you back on the start line and drops the moments before it
+      </div>
+      <div class="dbg-stats" id="im-stats" style="font-size:0.75rem;margin-top:6px;"></div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Dataset</div>
+      <div style="display:flex;gap:6px;flex-wrap:wrap;">
+        <button id="im-btn-save">⬇ Save (.json)</button>
+        <button id="im-btn-load">📂 Load</button>
+        <button id="im-btn-clear" class="sl-btn-danger">Clear</button>
+      </div>
+    </div>
+    <div class="cfg-section">
+      <div class="cfg-label">Iterations</div>
+      <div class="cfg-row">
+        <input type="range" id="im-iterations" min="100" max="5000" step="100" value="${settings.iterations}">
+        <span class="cfg-value" id="im-iterations-val">${settings.iterations}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Learning Rate</div>
+      <div class="cfg-row">
+        <input type="range" id="im-learning-rate" min="0.05" max="1" step="0.05" value="${settings.learningRate}">
+        <span class="cfg-value" id="im-learning-rate-val">${settings.learningRate}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Stop Below Error</div>
+      <div class="cfg-row">
+        <input type="range" id="im-error" min="0.001" max="0.05" step="0.001" value="${settings.errorThresh}">
+        <span class="cfg-value" id="im-error-val">${settings.errorThresh}</span>
+      </div>
+      <button id="im-btn-train" style="margin-top:6px;">🧠 Train Network</button>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Seed the GA</div>
+      <div style="display:flex;gap:6px;flex-wrap:wrap;">
+        <button id="im-btn-seed">➕ Into Population</button>
+        <button id="im-btn-new-run">🌱 New Run From It</button>
+      </div>
+      <div style="font-size:0.75rem;color:#666;margin-top:4px;">
+        A new run starts in fixed-topology mode with the brain's architecture and a fifth of the population seeded from it
+      </div>
+      <div id="im-status" style="font-size:0.78rem;color:#888;min-height:18px;margin-top:4px;"></div>
+    </div>
+  `;
+
+    wireSlider(body, 'im-iterations', 'im-iterations-val', (v) => { settings.iterations = v; });
+    wireSlider(body, 'im-learning-rate', 'im-learning-rate-val', (v) => { settings.learningRate = v; });
+    wireSlider(body, 'im-error', 'im-error-val', (v) => { settings.errorThresh = v; });
+
+    body.querySelector('#im-btn-drive')?.addEventListener('click', startDriving);
+    body.querySelector('#im-btn-stop')?.addEventListener('click', stopDriving);
+    body.querySelector('#im-btn-save')?.addEventListener('click', saveDataset);
+    body.querySelector('#im-btn-load')?.addEventListener('click', loadDataset);
+    body.querySelector('#im-btn-clear')?.addEventListener('click', () => {
+        if (samples.length === 0 || !confirm(`Discard all ${samples.length} recorded frames?`)) return;
+        stopDriving();
+        samples = [];
+        setStatus('Dataset cleared.');
+    });
+    body.querySelector('#im-btn-train')?.addEventListener('click', train);
+    body.querySelector('#im-btn-seed')?.addEventListener('click', seedPopulation);
+    body.querySelector('#im-btn-new-run')?.addEventListener('click', seedNewRun);
+    return panel;
+}
+
+export function updateImitationPanel() {
+    const panel = document.querySelector('[data-panel-id="imitation"]') as HTMLElement | null;
+    if (!panel || panel.style.display === 'none' || panel.classList.contains('panel--minimized')) return;
+    const { driving } = simState;
+    const key = `${samples.length}:${driving?.totalLaps}:${driving?.crashes}:${driving?.bestLapTime}`;
+    if (key === renderedKey) return;
+    renderedKey = key;
+    const el = document.getElementById('im-stats');
+    if (!el) return;
+    const row = (label: string, value: string) => `<div class="dbg-row"><span>${label}</span><span>${value}</span></div>`;
+    el.innerHTML = [
+        row('Recorded frames', `${samples.length.toLocaleString()} / ${MAX_DRIVE_SAMPLES.toLocaleString()}`),
+        driving ? row('Laps', String(driving.totalLaps)) : '',
+        driving ? row('Crashes', String(driving.crashes)) : '',
+        driving ? row('Best lap', driving.bestLapTime > 0 ? `${driving.bestLapTime} frames` : '—') : '',
+    ].join('');
+}
+
+/** Put a keyboard-driven boid on the track in view; its frames are added to the dataset. */
+function startDriving() {
+    const { ga, track } = simState;
+    if (!ga || !track || simState.driving) return;
+    if (simState.race) { setStatus('❌ End the race in the Race panel first'); return; }
+    const recorder = new DrivingRecorder(ga.raceTrack(track), samples, () => keyboard.step());
+    // One dataset holds one set of input features
+    const why = samples.length > 0 ? inputsMismatch(sampleInputs, recorder.boid.inputs, 'The dataset holds') : null;
+    if (why) { setStatus(`❌ ${why} — clear the dataset first`); return; }
+    sampleInputs = recorder.boid.inputs;
+    keyboard.attach();
+    simState.driving = recorder;
+    setStatus('Driving — recording every frame.');
+}
+
+function stopDriving() {
+    if (!simState.driving) return;
+    keyboard.detach();
+    simState.driving = null;
+    setStatus(`Stopped · ${samples.length.toLocaleString()} frames recorded.`);
+}
+
+function saveDataset() {
+    if (samples.length === 0) { setStatus('❌ Nothing recorded yet'); return; }
+    const data = toDataset(samples, sampleInputs, simState.driving?.track.seed ?? mainTrack()?.seed ?? 0);
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `driving-${samples.length}-frames.json`;
+    document.body.appendChild(a); a.click();
+    document.body.removeChild(a); URL.revokeObjectURL(url);
+    setStatus(`Saved ${samples.length.toLocaleString()} frames.`);
+}
+
+/** Load a saved dataset in place of the current one. */
+function loadDataset() {
+    const inp = document.createElement('input');
+    inp.type = 'file'; inp.accept = '.json';
+    inp.onchange = async (e) => {
+        const file = (e.target as HTMLInputElement).files?.[0];
+        if (!file) return;
+        try {
+            const data = JSON.parse(await file.text());
+            if (!isDrivingDataset(data)) { setStatus('❌ Not a driving dataset'); return; }
+            const features = inputsMismatch(savedInputs(data), inputsOf(Boid.architecture), 'The dataset holds');
+            if (features) { setStatus(`❌ ${features}`); return; }
+            const inputs = Boid.inputCount();
+            if (data.samples.some(s => s.input.length !== inputs)) {
+                setStatus(`❌ Dataset has ${data.inputCount} inputs per frame, the boids have ${inputs}`);
+                return;
+            }
+            stopDriving();
+            samples = data.samples.slice(0, MAX_DRIVE_SAMPLES);
+            sampleInputs = savedInputs(data);
+            setStatus(`✅ Loaded ${samples.length.toLocaleString()} frames`);
+        } catch (err) {
+            setStatus(`❌ ${(err as Error).message}`);
+        }
+    };
+    inp.click();
+}
+
+async function train() {
+    if (training) return;
+    if (samples.length === 0) { setStatus('❌ Record or load a dataset first'); return; }
+    // The network is built with the current architecture, which has to read what was recorded
+    const why = inputsMismatch(sampleInputs, inputsOf(Boid.architecture), 'The dataset holds');
+    if (why) { setStatus(`❌ ${why}`); return; }
+    training = true;
+    try {
+        const result = await trainImitation(samples, settings, (iterations, error) => {
+            setStatus(`Training… iteration ${iterations}, error ${error.toFixed(4)}`);
+        });
+        trained = result.network;
+        setStatus(`✅ Trained · ${result.iterations} iterations, error ${result.error.toFixed(4)}`);
+    } catch (err) {
+        setStatus(`❌ ${(err as Error).message}`);
+    } finally {
+        training = false;
+    }
+}
+
+/** Put the trained brain into the running population (its first boid). */
+function seedPopulation() {
+    const { ga } = simState;
+    if (!ga) return;
+    if (!trained) { setStatus('❌ Train a network first'); return; }
+    if (ga.evolutionMode === 'neat') { setStatus('❌ A trained network can only join a fixed-topology run'); return; }
+    // Trained with the architecture of its day, which a new run since may have changed
+    const why = Boid.brainMismatch(trained);
+    if (why) { setStatus(`❌ ${why} — use New Run From It`); return; }
+    ga.seedBrain(trained);
+    setStatus('✅ Trained brain added to the population');
+}
+
+/** Start a fresh weights-mode run with the trained brain's architecture, seeded from it as a brain import would. */
+function seedNewRun() {
+    const { ga } = simState;
+    const track = mainTrack();
+    if (!ga || !track) return;
+    if (!trained) { setStatus('❌ Train a network first'); return; }
+    if (!confirm('Start a new run seeded from the trained brain?')) return;
+    stopDriving();
+    finalizeRun(ga);
+    resetChartData();
+    localStorage.setItem('best_boid_brain', JSON.stringify(trained));
+    simState.evolutionMode = 'weights';
+    simState.architecture = architectureOf(trained);
+    syncArchitectureControls();
+    const modeSelect = document.getElementById('cfg-evolution-mode') as HTMLSelectElement | null;
+    if (modeSelect) modeSelect.value = 'weights';
+    startOptimizer(track, 1, 'weights');
+    setCurrentRunStartGen(1);
+    setStatus('✅ New run started from the trained brain');
+}
+
+function setStatus(msg: string) {
+    const el = document.getElementById('im-status');
+    if (el) el.textContent = msg;
+}
+
+function wireSlider(
+    root: HTMLElement,
+    sliderId: string,
+    valId: string,
+    onChange: (v: number) => void,
+) {
+    const slider = root.querySelector(`#${sliderId}`) as HTMLInputElement | null;
+    const valEl = root.querySelector(`#${valId}`) as HTMLElement | null;
+    if (!slider || !valEl) return;
+    slider.addEventListener('input', () => {
+        const v = parseFloat(slider.value);
+        valEl.textContent = String(v);
+        onChange(v);
+    });
+}
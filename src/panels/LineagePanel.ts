@@ -0,0 +1,248 @@
+// src/panels/LineagePanel.ts
+// Family tree of any boid in the population: its recorded ancestors, with unchanged elite copies
+// folded into the genome they copy and mutations that made big fitness jumps highlighted.
+
+import { simState } from '../SimState';
+import { type LineageRecord, type BoidOrigin, ORIGIN_LABELS, lineage } from '../Lineage';
+import { buildPanel } from './BrainPanel';
+
+const MAX_ROWS = 300; // crossover doubles the ancestors per level, so deep trees are cut off
+
+const ORIGIN_COLORS: Record<BoidOrigin, string> = {
+    'random': '#888',
+    'elite': '#4ade80',
+    'mutant': '#facc15',
+    'crossover': '#38bdf8',
+    'immigrant': '#f472b6',
+};
+
+let selectedId = 0;        // genome ID shown; 0 = none yet
+let followChampion = true; // re-select the population's best boid as it changes
+let depth = 8;             // ancestor levels drawn
+let jumpShare = 0.2;       // highlight gains of at least this share over the fitter parent
+let renderedKey = '';      // what the tree was last rendered for, to skip redundant rebuilds
+let optionsKey = '';       // population the boid list was last built from
+
+export function createLineagePanel(): HTMLElement {
+    const panel = buildPanel('lineage', '🧬 Lineage', 360, 500, 500, 120);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+
+    body.innerHTML = `
+    <div class="cfg-section">
+      <div class="cfg-label">Boid</div>
+      <div class="cfg-row-v">
+        <select id="lin-boid" class="cfg-select"></select>
+      </div>
+      <div style="display:flex;align-items:center;gap:8px;margin:6px 0;">
+        <input type="checkbox" id="lin-follow" ${followChampion ? 'checked' : ''}>
+        <label for="lin-follow" style="font-size:0.85rem;">Follow the champion</label>
+      </div>
+      <div class="cfg-label">Depth (ancestor levels)</div>
+      <div class="cfg-row">
+        <input type="range" id="lin-depth" min="2" max="30" step="1" value="${depth}">
+        <span class="cfg-value" id="lin-depth-val">${depth}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">Highlight Jumps Above (% over fitter parent)</div>
+      <div class="cfg-row">
+        <input type="range" id="lin-jump" min="5" max="100" step="5" value="${Math.round(jumpShare * 100)}">
+        <span class="cfg-value" id="lin-jump-val">${Math.round(jumpShare * 100)}</span>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">GA only · the last ${lineage.maxGenerations} generations are kept</div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Ancestry</div>
+      <div class="dbg-stats" id="lin-summary" style="font-size:0.75rem;margin-bottom:6px;"></div>
+      <div id="lin-tree" style="font-size:0.70rem;color:#aaa;max-height:260px;overflow-y:auto;line-height:1.5;"></div>
+      <button id="lin-btn-export" style="margin-top:6px;">⬇ Export Lineage (.json)</button>
+    </div>
+  `;
+
+    const boidSelect = body.querySelector('#lin-boid') as HTMLSelectElement;
+    const followCheck = body.querySelector('#lin-follow') as HTMLInputElement;
+    boidSelect.addEventListener('change', () => {
+        selectedId = parseInt(boidSelect.value) || 0;
+        followChampion = false;
+        followCheck.checked = false;
+    });
+    followCheck.addEventListener('change', () => { followChampion = followCheck.checked; });
+    wireSlider(body, 'lin-depth', 'lin-depth-val', (v) => { depth = v; });
+    wireSlider(body, 'lin-jump', 'lin-jump-val', (v) => { jumpShare = v / 100; });
+
+    // Clicking an ancestor makes it the tree's root
+    body.querySelector('#lin-tree')?.addEventListener('click', (e) => {
+        const row = (e.target as HTMLElement).closest<HTMLElement>('[data-id]');
+        const id = parseInt(row?.dataset.id ?? '');
+        if (isNaN(id)) return;
+        selectedId = id;
+        followChampion = false;
+        followCheck.checked = false;
+    });
+    body.querySelector('#lin-btn-export')?.addEventListener('click', exportLineage);
+    return panel;
+}
+
+export function updateLineagePanel() {
+    const panel = document.querySelector('[data-panel-id="lineage"]') as HTMLElement | null;
+    if (!panel || panel.style.display === 'none' || panel.classList.contains('panel--minimized')) return;
+    const { ga } = simState;
+    if (!ga) return;
+
+    if (followChampion) selectedId = ga.getBestActiveBoid()?.genomeId ?? 0;
+    renderOptions();
+
+    const key = `${selectedId}:${ga.generation}:${depth}:${jumpShare}`;
+    if (key === renderedKey) return;
+    renderedKey = key;
+    const select = document.getElementById('lin-boid') as HTMLSelectElement | null;
+    if (select) select.value = String(selectedId);
+    renderSummary();
+    renderTree();
+}
+
+/** The population in breeding order (elites first), plus the selection if it's an ancestor. */
+function renderOptions() {
+    const select = document.getElementById('lin-boid') as HTMLSelectElement | null;
+    const boids = simState.ga?.boids ?? [];
+    if (!select) return;
+    const key = `${selectedId}:${boids.map(b => b.genomeId).join(',')}`;
+    if (key === optionsKey) return;
+    optionsKey = key;
+    const options = boids
+        .filter(b => b.genomeId > 0)
+        .map(b => `<option value="${b.genomeId}">#${b.genomeId} · ${ORIGIN_LABELS[b.origin]}</option>`);
+    const selected = lineage.get(selectedId);
+    if (selected && !boids.some(b => b.genomeId === selectedId)) {
+        options.unshift(`<option value="${selected.id}">#${selected.id} · ancestor from gen ${selected.generation}</option>`);
+    }
+    select.innerHTML = options.length > 0 ? options.join('') : '<option value="0">No tracked boids</option>';
+    select.value = String(selectedId);
+}
+
+/** Follow unchanged elite copies back to the genome they copy; `kept` counts the copies skipped. */
+function resolveElite(id: number): { record: LineageRecord | undefined; kept: number } {
+    let record = lineage.get(id);
+    let kept = 0;
+    while (record?.origin === 'elite' && record.parents.length === 1) {
+        const parent = lineage.get(record.parents[0]);
+        if (!parent) break;
+        record = parent;
+        kept++;
+    }
+    return { record, kept };
+}
+
+/** Fitness gain over the fitter parent, when it's at least `jumpShare` of that parent's fitness. */
+function bigJump(record: LineageRecord): number | null {
+    const jump = lineage.fitnessJump(record);
+    if (jump === null || jump <= 0 || record.fitness === null) return null;
+    return jump >= jumpShare * Math.max(1, record.fitness - jump) ? jump : null;
+}
+
+function renderSummary() {
+    const el = document.getElementById('lin-summary');
+    if (!el) return;
+    const record = lineage.get(selectedId);
+    if (!record) {
+        el.innerHTML = '<div style="color:#555;">No lineage recorded — start a GA run.</div>';
+        return;
+    }
+    const ancestors = lineage.ancestry(record.id);
+    let biggest: { record: LineageRecord; jump: number } | null = null;
+    for (const r of ancestors) {
+        const jump = bigJump(r);
+        if (jump !== null && (!biggest || jump > biggest.jump)) biggest = { record: r, jump };
+    }
+    const row = (label: string, value: string) => `<div class="dbg-row"><span>${label}</span><span>${value}</span></div>`;
+    el.innerHTML = [
+        row('Genome', `#${record.id}`),
+        row('Origin', ORIGIN_LABELS[record.origin]),
+        row('Born', `gen ${record.generation}`),
+        row('Parents', record.parents.length > 0 ? record.parents.map(p => `#${p}`).join(', ') : '—'),
+        row('Fitness', record.fitness === null ? 'racing' : Math.floor(record.fitness).toLocaleString()),
+        row('Ancestors recorded', String(ancestors.length - 1)),
+        row('Biggest jump', biggest
+            ? `#${biggest.record.id} +${Math.floor(biggest.jump).toLocaleString()} (gen ${biggest.record.generation})`
+            : '—'),
+    ].join('');
+}
+
+/** Indented ancestor tree, newest at the top; a genome reached twice is drawn once. */
+function renderTree() {
+    const el = document.getElementById('lin-tree');
+    if (!el) return;
+    if (!lineage.get(selectedId)) {
+        el.innerHTML = '';
+        return;
+    }
+    const rows: string[] = [];
+    const shown = new Set<number>();
+    const visit = (id: number, level: number) => {
+        if (rows.length >= MAX_ROWS) return;
+        const { record, kept } = resolveElite(id);
+        if (!record) return;
+        const indent = `padding-left:${level * 12}px`;
+        if (shown.has(record.id)) {
+            rows.push(`<div data-id="${record.id}" style="${indent};color:#555;cursor:pointer;">↑ #${record.id} (shown above)</div>`);
+            return;
+        }
+        shown.add(record.id);
+        rows.push(renderRow(record, kept, indent));
+        if (level < depth) for (const parent of record.parents) visit(parent, level + 1);
+    };
+    visit(selectedId, 0);
+    if (rows.length >= MAX_ROWS) rows.push(`<div style="color:#555;">… cut off at ${MAX_ROWS} rows</div>`);
+    el.innerHTML = rows.join('');
+}
+
+function renderRow(record: LineageRecord, kept: number, indent: string): string {
+    const jump = lineage.fitnessJump(record);
+    const highlight = bigJump(record) !== null;
+    const color = ORIGIN_COLORS[record.origin];
+    const fitness = record.fitness === null ? 'racing' : Math.floor(record.fitness).toLocaleString();
+    const delta = jump === null
+        ? ''
+        : ` <span style="color:${jump >= 0 ? '#4ade80' : '#f87171'}">${jump >= 0 ? '+' : ''}${Math.floor(jump).toLocaleString()}</span>`;
+    const elite = kept > 0 ? ` <span style="color:#4ade80">elite ×${kept}</span>` : '';
+    const background = highlight ? 'background:rgba(250,204,21,0.15);' : '';
+    return `<div data-id="${record.id}" style="${indent};${background}cursor:pointer;" title="${ORIGIN_LABELS[record.origin]}">`
+        + `<span style="color:${color}">●</span> #${record.id} <span style="color:#666">gen ${record.generation}</span> `
+        + `${fitness}${delta}${elite}</div>`;
+}
+
+/** Every recorded ancestor of the selected boid, newest first. */
+function exportLineage() {
+    const records = lineage.ancestry(selectedId);
+    if (records.length === 0) return;
+    const data = {
+        genomeId: selectedId,
+        generation: simState.ga?.generation ?? 0,
+        records,
+        exportedAt: new Date().toISOString(),
+    };
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `lineage-${selectedId}-gen${data.generation}.json`;
+    document.body.appendChild(a); a.click();
+    document.body.removeChild(a); URL.revokeObjectURL(url);
+}
+
+function wireSlider(
+    root: HTMLElement,
+    sliderId: string,
+    valId: string,
+    onChange: (v: number) => void,
+) {
+    const slider = root.querySelector(`#${sliderId}`) as HTMLInputElement | null;
+    const valEl = root.querySelector(`#${valId}`) as HTMLElement | null;
+    if (!slider || !valEl) return;
+    slider.addEventListener('input', () => {
+        const v = parseFloat(slider.value);
+        valEl.textContent = String(v);
+        onChange(v);
+    });
+}
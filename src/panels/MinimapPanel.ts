@@ -1,10 +1,14 @@
 // src/panels/MinimapPanel.ts
 // Renders the full world at a fixed scale, independent of camera zoom.
-// Overlays the current viewport as a rectangle (non-square when screen is not square).
+// Overlays the current viewport as a rectangle (non-square when screen is not square)
+// and, while novelty search is active, the final positions stored in the novelty archive.
+// With islands on, a row of tabs picks which island (and track) is shown everywhere.
 
 import { simState } from '../SimState';
 import { buildPanel } from './BrainPanel';
 import { Track } from '../Track';
+import { GeneticAlgorithm } from '../AI';
+import { viewIsland } from '../OptimizerFactory';
 
 const MAP_SIZE = 220;
 const WORLD = Track.FIXED_SIZE; // 1200
@@ -22,6 +26,7 @@ export function createMinimapPanel(): HTMLElement {
     body.style.alignItems = 'center';
     body.style.justifyContent = 'center';
     body.style.padding = '8px';
+    body.style.position = 'relative';
 
     const canvas = document.createElement('canvas');
     canvas.id = 'minimap-canvas';
@@ -30,6 +35,11 @@ export function createMinimapPanel(): HTMLElement {
     canvas.style.cssText = 'border-radius:6px;background:#111;display:block;';
     body.appendChild(canvas);
 
+    const tabs = document.createElement('div');
+    tabs.id = 'minimap-islands';
+    tabs.style.cssText = 'position:absolute;top:12px;left:12px;display:flex;gap:3px;';
+    body.appendChild(tabs);
+
     return panel;
 }
 
@@ -44,13 +54,16 @@ export function updateMinimapPanel() {
     const ctx = mmCanvas.getContext('2d');
     if (!ctx) return;
 
+    updateIslandTabs();
+
     // ── Draw the world at fixed minimap scale ─────────────────────────────
     ctx.fillStyle = '#0a0c10';
     ctx.fillRect(0, 0, MAP_SIZE, MAP_SIZE);
 
     ctx.save();
     ctx.setTransform(MM_SCALE, 0, 0, MM_SCALE, 0, 0);
-    track.draw(ctx);
+    ga.raceTrack(track).draw(ctx);
+    if (ga instanceof GeneticAlgorithm && (ga.objective === 'novelty' || ga.objective === 'hybrid')) drawNoveltyArchive(ctx, ga.novelty.entries);
     const best = ga.getBestActiveBoid();
     for (const boid of ga.boids) {
         boid.draw(ctx, boid === best);
@@ -73,3 +86,35 @@ export function updateMinimapPanel() {
     ctx.lineWidth = 1.5;
     ctx.strokeRect(rx, ry, rw, rh);
 }
+
+/** Archived behaviours as dots at their final position (descriptor[0..1] are normalised x/y). */
+function drawNoveltyArchive(ctx: CanvasRenderingContext2D, entries: number[][]) {
+    ctx.fillStyle = 'rgba(192, 132, 252, 0.7)';
+    for (const e of entries) {
+        ctx.beginPath();
+        ctx.arc(e[0] * WORLD, e[1] * WORLD, 8, 0, Math.PI * 2);
+        ctx.fill();
+    }
+}
+
+/** One tab per island, rebuilt when the island count changes; the island in view is highlighted. */
+function updateIslandTabs() {
+    const tabs = document.getElementById('minimap-islands');
+    if (!tabs) return;
+    const count = simState.islands?.islands.length ?? 0;
+    if (tabs.childElementCount !== count) {
+        tabs.innerHTML = '';
+        for (let i = 0; i < count; i++) {
+            const btn = document.createElement('button');
+            btn.textContent = String(i + 1);
+            btn.title = `View island ${i + 1}`;
+            btn.style.cssText = 'font-size:0.7rem;padding:1px 6px;';
+            btn.addEventListener('click', () => viewIsland(i));
+            tabs.appendChild(btn);
+        }
+    }
+    const viewIndex = simState.islands?.viewIndex ?? -1;
+    Array.from(tabs.children).forEach((btn, i) => {
+        (btn as HTMLElement).style.background = i === viewIndex ? '#6366f1' : '';
+    });
+}
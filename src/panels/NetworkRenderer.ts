@@ -1,44 +1,27 @@
 // src/panels/NetworkRenderer.ts
-// Renders a brain.js neural network onto a 2D canvas context.
+// Renders a feed-forward or recurrent network (or a NEAT genome graph) onto a 2D canvas context.
 // Extracted from AI.ts to keep genetic-algorithm logic separate from visualization.
 
 import type { Boid } from '../Boid';
-import type { NeuralNetworkJSON } from '../brain-js';
+import type { NeatGenome } from '../Neat';
+import { RecurrentNetwork, CELL_LABELS } from '../Network';
+import { clamp01 } from '../utils';
 
-/**
- * Derive the network topology (layer sizes) from the network JSON.
- * brain.js JSON structure: layers[0] is an EMPTY placeholder for input layer.
- * layers[1] is first HIDDEN layer with weights[hiddenNodeIndex][inputNodeIndex].
- */
-function deriveTopology(json: NeuralNetworkJSON): number[] {
-    const topology: number[] = [];
-
-    // Input layer size from first hidden layer's weights (layer 1)
-    if (json.layers[1]?.weights?.[0]) {
-        topology.push(json.layers[1].weights[0].length);
-    }
-
-    // Hidden and output layer sizes from biases (skip layer 0 which is empty)
-    for (let i = 1; i < json.layers.length; i++) {
-        const layer = json.layers[i];
-        if (layer.biases) {
-            topology.push(layer.biases.length);
-        }
-    }
-
-    return topology;
-}
+const OUTPUT_LABELS = ['Thr', 'Str'];
 
 /** Draw the neural network topology, weights, and live activations onto ctx. */
 export function drawNetwork(ctx: CanvasRenderingContext2D, boid: Boid) {
-    const json = boid.network.toJSON();
-    if (!json.layers || json.layers.length === 0) return;
-
+    if (boid.genome) {
+        drawGenome(ctx, boid.genome, boid.inputLabels());
+        return;
+    }
+    const { network } = boid;
+    const inputLabels = boid.inputLabels();
     const w = ctx.canvas.width;
     const h = ctx.canvas.height;
 
-    const topology = deriveTopology(json);
-    if (topology.length === 0) return;
+    const topology = network.sizes;
+    if (topology.length < 2) return;
 
     // Guard against zero/negative canvas size (e.g. ResizeObserver hasn't fired yet)
     if (w < 10 || h < 10) return;
@@ -67,13 +50,15 @@ export function drawNetwork(ctx: CanvasRenderingContext2D, boid: Boid) {
     ctx.fillStyle = '#aaa';
     ctx.font = '11px Arial';
     ctx.textAlign = 'center';
-    const layerLabels = ['Input', 'Hidden 1', 'Hidden 2', 'Output'];
+    const recurrent = network instanceof RecurrentNetwork ? network : null;
     for (let i = 0; i < topology.length; i++) {
         const x = layerWidth * i + layerWidth / 2;
-        ctx.fillText(layerLabels[i] || '', x, 20);
+        const hidden = i > 0 && i < topology.length - 1;
+        const label = i === 0 ? 'Input' : hidden ? `Hidden ${i}` : 'Output';
+        ctx.fillText(recurrent && hidden ? `${label} ↻` : label, x, 20);
         ctx.fillStyle = '#666';
         ctx.font = '9px Arial';
-        ctx.fillText(`(${topology[i]} nodes)`, x, 32);
+        ctx.fillText(recurrent && hidden ? `(${topology[i]} ${CELL_LABELS[recurrent.cell]} state)` : `(${topology[i]} nodes)`, x, 32);
         ctx.fillStyle = '#aaa';
         ctx.font = '11px Arial';
     }
@@ -82,17 +67,13 @@ export function drawNetwork(ctx: CanvasRenderingContext2D, boid: Boid) {
     for (let i = 1; i < topology.length; i++) {
         const numNodes = topology[i];
         const prevNodes = topology[i - 1];
-        const layerData = json.layers[i];
 
         for (let j = 0; j < numNodes; j++) {
             const targetNode = nodePositions[i][j];
             for (let k = 0; k < prevNodes; k++) {
                 const sourceNode = nodePositions[i - 1][k];
 
-                let weight = 0;
-                if (layerData && layerData.weights && layerData.weights[j]) {
-                    weight = layerData.weights[j][k] || 0;
-                }
+                const weight = network.weight(i, j, k);
 
                 const alpha = Math.min(1, Math.abs(weight) / 3);
                 if (alpha > 0.02) {
@@ -109,6 +90,17 @@ export function drawNetwork(ctx: CanvasRenderingContext2D, boid: Boid) {
         }
     }
 
+    // Recurrent layers: each neuron's weights from its layer's previous state, as loops beside the layer
+    if (recurrent) {
+        for (let i = 1; i < topology.length - 1; i++) {
+            for (let j = 0; j < topology[i]; j++) {
+                for (let k = 0; k < topology[i]; k++) {
+                    drawRecurrentLink(ctx, nodePositions[i][k], nodePositions[i][j], nodeRadius, recurrent.recurrentWeight(i, j, k));
+                }
+            }
+        }
+    }
+
     // Draw nodes with activation-based coloring
     for (let i = 0; i < nodePositions.length; i++) {
         for (let j = 0; j < nodePositions[i].length; j++) {
@@ -120,60 +112,166 @@ export function drawNetwork(ctx: CanvasRenderingContext2D, boid: Boid) {
             } else if (i === nodePositions.length - 1 && boid.lastOutputs[j] !== undefined) {
                 activation = boid.lastOutputs[j];
             } else if (i > 0 && i < nodePositions.length - 1) {
-                const hiddenLayerIdx = i - 1;
-                if (boid.lastHiddenActivations[hiddenLayerIdx]?.[j] !== undefined) {
-                    activation = boid.lastHiddenActivations[hiddenLayerIdx][j];
-                }
-            }
-
-            if (activation > 0.6) {
-                ctx.shadowBlur = 20;
-                ctx.shadowColor = `rgba(0, 255, 200, ${activation})`;
-            } else if (activation < 0.4) {
-                ctx.shadowBlur = 10;
-                ctx.shadowColor = `rgba(255, 100, 100, ${1 - activation})`;
-            }
-
-            ctx.beginPath();
-            ctx.arc(pos.x, pos.y, nodeRadius, 0, Math.PI * 2);
-
-            let r, g, b;
-            if (activation < 0.5) {
-                const t = activation * 2;
-                r = Math.floor(50 * (1 - t) + 50 * t);
-                g = Math.floor(100 * (1 - t) + 200 * t);
-                b = Math.floor(200 * (1 - t) + 100 * t);
-            } else {
-                const t = (activation - 0.5) * 2;
-                r = Math.floor(50 * (1 - t) + 255 * t);
-                g = Math.floor(200 * (1 - t) + 200 * t);
-                b = Math.floor(100 * (1 - t) + 50 * t);
+                // Captured during the boid's last decision — a recurrent layer's current state
+                activation = network.activations[i][j];
             }
-            ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
-            ctx.fill();
-
-            ctx.shadowBlur = 0;
 
-            ctx.strokeStyle = '#fff';
-            ctx.lineWidth = 2;
-            ctx.stroke();
-
-            ctx.fillStyle = '#fff';
-            ctx.font = 'bold 8px Arial';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fillText(activation.toFixed(2), pos.x, pos.y);
+            drawNode(ctx, pos.x, pos.y, nodeRadius, activation);
 
             ctx.fillStyle = '#888';
             ctx.font = '8px Arial';
             ctx.textBaseline = 'top';
             if (i === 0) {
-                const sensorLabels = ['L', 'FL', 'F', 'FR', 'R'];
-                ctx.fillText(sensorLabels[j] || `S${j + 1}`, pos.x, pos.y + nodeRadius + 2);
+                ctx.fillText(inputLabels[j] || `I${j + 1}`, pos.x, pos.y + nodeRadius + 2);
             } else if (i === nodePositions.length - 1) {
-                const outputLabels = ['Thr', 'Str'];
-                ctx.fillText(outputLabels[j] || `O${j + 1}`, pos.x, pos.y + nodeRadius + 2);
+                ctx.fillText(OUTPUT_LABELS[j] || `O${j + 1}`, pos.x, pos.y + nodeRadius + 2);
             }
         }
     }
 }
+
+/**
+ * A recurrent weight from neuron `from`'s previous state into `to` in the same layer: a small
+ * loop on the node's right for its own state, otherwise an arc bulging right between the two.
+ */
+function drawRecurrentLink(
+    ctx: CanvasRenderingContext2D,
+    from: { x: number, y: number },
+    to: { x: number, y: number },
+    nodeRadius: number,
+    weight: number,
+) {
+    const alpha = Math.min(1, Math.abs(weight) / 3);
+    if (alpha <= 0.02) return;
+    ctx.beginPath();
+    ctx.lineWidth = 0.5 + Math.abs(weight) * 0.3;
+    ctx.strokeStyle = weight > 0
+        ? `rgba(80, 200, 255, ${alpha})`
+        : `rgba(255, 160, 60, ${alpha})`;
+    if (from === to) {
+        ctx.arc(to.x + nodeRadius * 1.6, to.y, nodeRadius * 0.7, 0, Math.PI * 2);
+    } else {
+        const bulge = nodeRadius * 2 + Math.abs(to.y - from.y) * 0.35;
+        ctx.moveTo(from.x + nodeRadius, from.y);
+        ctx.quadraticCurveTo(from.x + bulge, (from.y + to.y) / 2, to.x + nodeRadius, to.y);
+    }
+    ctx.stroke();
+}
+
+/**
+ * Draw an irregular NEAT graph. Nodes are placed in columns by their longest-path
+ * depth from the inputs; disabled connection genes are not drawn.
+ */
+function drawGenome(ctx: CanvasRenderingContext2D, genome: NeatGenome, inputLabels: string[]) {
+    const w = ctx.canvas.width;
+    const h = ctx.canvas.height;
+    if (w < 10 || h < 10) return;
+
+    const depths = genome.nodeDepths();
+    const columns: number[][] = [];
+    for (const node of genome.nodes) {
+        const d = depths.get(node.id) ?? 0;
+        (columns[d] ??= []).push(node.id);
+    }
+    const filled = columns.filter(c => c && c.length > 0);
+    const tallest = Math.max(...filled.map(c => c.length));
+    const nodeRadius = Math.max(1, Math.min(14, (h - 100) / (tallest * 2.5)));
+    const colWidth = w / filled.length;
+
+    const positions = new Map<number, { x: number, y: number }>();
+    filled.forEach((col, ci) => {
+        const x = colWidth * ci + colWidth / 2;
+        const gap = (h - 80) / (col.length + 1);
+        col.forEach((id, j) => positions.set(id, { x, y: 50 + (j + 1) * gap }));
+    });
+
+    // Header: column labels + genome size
+    ctx.fillStyle = '#aaa';
+    ctx.font = '11px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText('Input', colWidth / 2, 20);
+    ctx.fillText('Output', colWidth * (filled.length - 1) + colWidth / 2, 20);
+    ctx.fillStyle = '#666';
+    ctx.font = '9px Arial';
+    ctx.fillText(
+        `NEAT · ${genome.hiddenCount()} hidden · ${genome.enabledConnectionCount()} conns`,
+        w / 2, 32,
+    );
+
+    for (const c of genome.connections) {
+        if (!c.enabled) continue;
+        const from = positions.get(c.from);
+        const to = positions.get(c.to);
+        if (!from || !to) continue;
+        const alpha = Math.min(1, Math.abs(c.weight) / 3);
+        if (alpha <= 0.02) continue;
+        ctx.beginPath();
+        ctx.lineWidth = 1 + Math.abs(c.weight) * 0.5;
+        ctx.strokeStyle = c.weight > 0
+            ? `rgba(50, 255, 100, ${alpha})`
+            : `rgba(255, 80, 80, ${alpha})`;
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+    }
+
+    for (const node of genome.nodes) {
+        const pos = positions.get(node.id);
+        if (!pos) continue;
+        const activation = genome.lastActivations.get(node.id) ?? 0.5;
+        drawNode(ctx, pos.x, pos.y, nodeRadius, activation);
+
+        ctx.fillStyle = '#888';
+        ctx.font = '8px Arial';
+        ctx.textBaseline = 'top';
+        if (node.kind === 'input') {
+            ctx.fillText(inputLabels[node.id] || `I${node.id + 1}`, pos.x, pos.y + nodeRadius + 2);
+        } else if (node.kind === 'output') {
+            const o = node.id - genome.inputCount;
+            ctx.fillText(OUTPUT_LABELS[o] || `O${o + 1}`, pos.x, pos.y + nodeRadius + 2);
+        }
+    }
+}
+
+/** Activation-coloured node with glow and value label. Colours saturate outside [0, 1] (tanh, ReLU, linear layers). */
+function drawNode(ctx: CanvasRenderingContext2D, x: number, y: number, nodeRadius: number, value: number) {
+    const activation = clamp01(value);
+    if (activation > 0.6) {
+        ctx.shadowBlur = 20;
+        ctx.shadowColor = `rgba(0, 255, 200, ${activation})`;
+    } else if (activation < 0.4) {
+        ctx.shadowBlur = 10;
+        ctx.shadowColor = `rgba(255, 100, 100, ${1 - activation})`;
+    }
+
+    ctx.beginPath();
+    ctx.arc(x, y, nodeRadius, 0, Math.PI * 2);
+
+    let r, g, b;
+    if (activation < 0.5) {
+        const t = activation * 2;
+        r = Math.floor(50 * (1 - t) + 50 * t);
+        g = Math.floor(100 * (1 - t) + 200 * t);
+        b = Math.floor(200 * (1 - t) + 100 * t);
+    } else {
+        const t = (activation - 0.5) * 2;
+        r = Math.floor(50 * (1 - t) + 255 * t);
+        g = Math.floor(200 * (1 - t) + 200 * t);
+        b = Math.floor(100 * (1 - t) + 50 * t);
+    }
+    ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+    ctx.fill();
+
+    ctx.shadowBlur = 0;
+
+    ctx.strokeStyle = '#fff';
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    ctx.fillStyle = '#fff';
+    ctx.font = 'bold 8px Arial';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(value.toFixed(2), x, y);
+}
@@ -0,0 +1,183 @@
+// src/panels/ParetoPanel.ts
+// Pareto-front scatter for the NSGA-II objective: any two objectives of the last finished
+// generation, coloured by front. Click a front member to inspect it and export its brain.
+
+import { simState } from '../SimState';
+import { GeneticAlgorithm } from '../AI';
+import { type ObjectiveKey, type ParetoPoint, OBJECTIVES, OBJECTIVE_KEYS } from '../MultiObjective';
+import { buildPanel } from './BrainPanel';
+
+const RANK_COLORS = ['#4ade80', '#38bdf8', '#a78bfa']; // front 0, 1, 2; later fronts are grey
+const PAD = 28; // px reserved for axis labels
+
+let xKey: ObjectiveKey = 'checkpoints';
+let yKey: ObjectiveKey = 'speed';
+let selected: ParetoPoint | null = null;
+let drawnPoints: ParetoPoint[] | null = null; // the snapshot last drawn, to skip redundant redraws
+
+export function createParetoPanel(): HTMLElement {
+    const panel = buildPanel('pareto', '🎯 Pareto Front', 340, 420, 440, 140);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.display = 'flex';
+    body.style.flexDirection = 'column';
+    body.style.padding = '8px 10px';
+    body.style.gap = '6px';
+
+    const options = OBJECTIVE_KEYS.map(k => `<option value="${k}">${OBJECTIVES[k].label}</option>`).join('');
+    body.innerHTML = `
+    <div style="display:flex;gap:6px;align-items:center;font-size:0.78rem;color:#888;">
+      X <select id="pf-x" class="cfg-select" style="flex:1;">${options}</select>
+      Y <select id="pf-y" class="cfg-select" style="flex:1;">${options}</select>
+    </div>
+    <canvas id="pf-canvas" width="320" height="220" style="width:100%;display:block;cursor:crosshair;"></canvas>
+    <div class="dbg-stats" id="pf-info" style="font-size:0.75rem;"></div>
+    <button id="pf-btn-export">⬇ Export Selected Brain (.json)</button>
+  `;
+
+    const xSelect = body.querySelector('#pf-x') as HTMLSelectElement;
+    const ySelect = body.querySelector('#pf-y') as HTMLSelectElement;
+    xSelect.value = xKey;
+    ySelect.value = yKey;
+    xSelect.addEventListener('change', () => { xKey = xSelect.value as ObjectiveKey; drawnPoints = null; });
+    ySelect.addEventListener('change', () => { yKey = ySelect.value as ObjectiveKey; drawnPoints = null; });
+
+    const canvas = body.querySelector('#pf-canvas') as HTMLCanvasElement;
+    canvas.addEventListener('click', (e) => {
+        const rect = canvas.getBoundingClientRect();
+        const px = (e.clientX - rect.left) * (canvas.width / rect.width);
+        const py = (e.clientY - rect.top) * (canvas.height / rect.height);
+        selected = nearestFrontPoint(canvas, px, py);
+        drawnPoints = null;
+    });
+
+    body.querySelector('#pf-btn-export')?.addEventListener('click', exportSelected);
+    return panel;
+}
+
+export function updateParetoPanel() {
+    const panel = document.querySelector('[data-panel-id="pareto"]') as HTMLElement | null;
+    if (!panel || panel.style.display === 'none' || panel.classList.contains('panel--minimized')) return;
+    const canvas = document.getElementById('pf-canvas') as HTMLCanvasElement | null;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const points = currentPoints();
+    if (points === drawnPoints) return;
+    drawnPoints = points;
+    if (selected && !points.includes(selected)) selected = null;
+
+    const W = canvas.width;
+    const H = canvas.height;
+    ctx.fillStyle = '#0d0f14';
+    ctx.fillRect(0, 0, W, H);
+
+    ctx.fillStyle = '#555';
+    ctx.font = '10px Inter,sans-serif';
+    ctx.textAlign = 'center';
+    ctx.fillText(axisLabel(xKey), (W + PAD) / 2, H - 4);
+    ctx.save();
+    ctx.translate(10, (H - PAD) / 2);
+    ctx.rotate(-Math.PI / 2);
+    ctx.fillText(axisLabel(yKey), 0, 0);
+    ctx.restore();
+
+    if (points.length === 0) {
+        ctx.fillText('Select the NSGA-II objective and finish a generation', (W + PAD) / 2, (H - PAD) / 2);
+        renderInfo(null);
+        return;
+    }
+
+    // Worst fronts first so the front sits on top
+    const project = projection(canvas, points);
+    for (const p of [...points].sort((a, b) => b.rank - a.rank)) {
+        const [x, y] = project(p);
+        ctx.fillStyle = RANK_COLORS[p.rank] ?? '#444';
+        ctx.beginPath();
+        ctx.arc(x, y, p.rank === 0 ? 3.5 : 2.5, 0, Math.PI * 2);
+        ctx.fill();
+    }
+    if (selected) {
+        const [x, y] = project(selected);
+        ctx.strokeStyle = '#fff';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(x, y, 7, 0, Math.PI * 2);
+        ctx.stroke();
+    }
+
+    renderInfo(selected, points);
+}
+
+/** Ranked snapshot of the GA's last generation; empty unless it's running NSGA-II. */
+function currentPoints(): ParetoPoint[] {
+    const { ga } = simState;
+    return ga instanceof GeneticAlgorithm && ga.objective === 'pareto' ? ga.paretoPoints : [];
+}
+
+function axisLabel(key: ObjectiveKey): string {
+    return `${OBJECTIVES[key].label} ${OBJECTIVES[key].maximize ? '↑' : '↓'}`;
+}
+
+/** Maps a point's (xKey, yKey) values into canvas pixels, scaled to the data's range. */
+function projection(canvas: HTMLCanvasElement, points: ParetoPoint[]): (p: ParetoPoint) => [number, number] {
+    const xs = points.map(p => p.objectives[xKey]);
+    const ys = points.map(p => p.objectives[yKey]);
+    const xLo = Math.min(...xs), xRange = Math.max(...xs) - xLo || 1;
+    const yLo = Math.min(...ys), yRange = Math.max(...ys) - yLo || 1;
+    const w = canvas.width - PAD - 8;
+    const h = canvas.height - PAD - 8;
+    return p => [
+        PAD + ((p.objectives[xKey] - xLo) / xRange) * w,
+        8 + h - ((p.objectives[yKey] - yLo) / yRange) * h,
+    ];
+}
+
+function nearestFrontPoint(canvas: HTMLCanvasElement, px: number, py: number): ParetoPoint | null {
+    const points = currentPoints();
+    const project = projection(canvas, points);
+    let best: ParetoPoint | null = null;
+    let bestDist = 12; // px
+    for (const p of points) {
+        if (p.rank !== 0) continue;
+        const [x, y] = project(p);
+        const d = Math.hypot(x - px, y - py);
+        if (d < bestDist) { bestDist = d; best = p; }
+    }
+    return best;
+}
+
+function renderInfo(point: ParetoPoint | null, points: ParetoPoint[] = []) {
+    const el = document.getElementById('pf-info');
+    if (!el) return;
+    const frontSize = points.filter(p => p.rank === 0).length;
+    const header = points.length > 0
+        ? `<div class="dbg-row"><span>Generation</span><span>${points[0].generation} · front ${frontSize}/${points.length}</span></div>`
+        : '';
+    if (!point) {
+        el.innerHTML = header + '<div style="color:#555;padding:2px 0;">Click a green point to select it.</div>';
+        return;
+    }
+    el.innerHTML = header + OBJECTIVE_KEYS.map(k =>
+        `<div class="dbg-row"><span>${OBJECTIVES[k].label}</span><span>${point.objectives[k].toFixed(2)}</span></div>`,
+    ).join('') + `<div class="dbg-row"><span>Fitness</span><span>${Math.floor(point.fitness)}</span></div>`;
+}
+
+/** Same file shape as the Save/Load brain export, plus the objective vector. */
+function exportSelected() {
+    if (!selected?.brain) return;
+    const data = {
+        generation: selected.generation,
+        fitness: selected.fitness,
+        objectives: selected.objectives,
+        network: selected.brain,
+        exportedAt: new Date().toISOString(),
+    };
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `brain-gen${selected.generation}-pareto-${Date.now()}.json`;
+    document.body.appendChild(a); a.click();
+    document.body.removeChild(a); URL.revokeObjectURL(url);
+}
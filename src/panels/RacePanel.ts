@@ -0,0 +1,132 @@
+// src/panels/RacePanel.ts
+// Race the evolved population: start a countdown race against copies of its fittest brains,
+// choose what the camera follows, and see the standings.
+
+import { simState } from '../SimState';
+import { KeyboardDriver } from '../Keyboard';
+import { PlayerRace, formatRaceTime } from '../Race';
+import { buildPanel } from './BrainPanel';
+
+const keyboard = new KeyboardDriver();
+let laps = 3;
+let rivals = 3;
+let renderedKey = ''; // standings last rendered, to skip redundant updates
+
+export function createRacePanel(): HTMLElement {
+    const panel = buildPanel('race', '🏁 Race', 320, 420, 540, 120);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+
+    body.innerHTML = `
+    <div class="cfg-section">
+      <div class="cfg-label">Laps</div>
+      <div class="cfg-row">
+        <input type="range" id="race-laps" min="1" max="5" step="1" value="${laps}">
+        <span class="cfg-value" id="race-laps-val">${laps}</span>
+      </div>
+      <div class="cfg-label" style="margin-top:6px;">AI Rivals</div>
+      <div class="cfg-row">
+        <input type="range" id="race-rivals" min="1" max="5" step="1" value="${rivals}">
+        <span class="cfg-value" id="race-rivals-val">${rivals}</span>
+      </div>
+      <div style="display:flex;align-items:center;gap:8px;margin:6px 0;">
+        <input type="checkbox" id="race-follow" ${simState.cameraFollow === 'player' ? 'checked' : ''}>
+        <label for="race-follow" style="font-size:0.85rem;">Camera follows my car</label>
+      </div>
+      <div style="font-size:0.75rem;color:#666;">
+        Arrow keys or WASD · rivals drive copies of the population's fittest brains · a crash is out of the race
+      </div>
+    </div>
+    <div class="sl-section">
+      <div style="display:flex;gap:6px;">
+        <button id="race-btn-start">🏁 Start Race</button>
+        <button id="race-btn-end" class="sl-btn-danger">✕ End Race</button>
+      </div>
+      <div id="race-status" style="font-size:0.78rem;color:#888;min-height:18px;margin-top:4px;"></div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Standings</div>
+      <div class="dbg-stats" id="race-standings" style="font-size:0.75rem;"></div>
+    </div>
+  `;
+
+    wireSlider(body, 'race-laps', 'race-laps-val', (v) => { laps = v; });
+    wireSlider(body, 'race-rivals', 'race-rivals-val', (v) => { rivals = v; });
+    const followCheck = body.querySelector('#race-follow') as HTMLInputElement;
+    followCheck.addEventListener('change', () => { simState.cameraFollow = followCheck.checked ? 'player' : 'leader'; });
+    body.querySelector('#race-btn-start')?.addEventListener('click', startRace);
+    body.querySelector('#race-btn-end')?.addEventListener('click', endRace);
+    return panel;
+}
+
+export function updateRacePanel() {
+    const { race } = simState;
+    // Stop listening for driving keys once the results are up
+    if (race?.phase === 'finished') keyboard.detach();
+
+    const panel = document.querySelector('[data-panel-id="race"]') as HTMLElement | null;
+    if (!panel || panel.style.display === 'none' || panel.classList.contains('panel--minimized')) return;
+    const el = document.getElementById('race-standings');
+    if (!el) return;
+    if (!race) {
+        if (renderedKey === 'idle') return;
+        renderedKey = 'idle';
+        el.innerHTML = '<div style="color:#555;">No race running.</div>';
+        return;
+    }
+    const standings = race.standings();
+    const key = race.phase + standings.map(r => `:${r.name}/${r.boid.lapTimes.length}/${r.boid.isDead}/${r.finishFrame}`).join('');
+    if (key === renderedKey) return;
+    renderedKey = key;
+    el.innerHTML = standings.map((r, i) => {
+        const state = r.finishFrame !== null
+            ? formatRaceTime(r.finishFrame)
+            : r.boid.isDead
+                ? 'out'
+                : `lap ${Math.min(race.laps, r.boid.lapTimes.length + 1)}/${race.laps}`;
+        const color = r.isPlayer ? '#38bdf8' : '#ddd';
+        return `<div class="dbg-row"><span style="color:${color}">${i + 1}. ${r.name}</span><span>${state}</span></div>`;
+    }).join('');
+}
+
+/** Start a race on the track in view against the population's fittest brains right now. */
+function startRace() {
+    const { ga, track } = simState;
+    if (!ga || !track) return;
+    if (simState.driving) { setStatus('❌ Stop recording in the Imitation panel first'); return; }
+    const fittest = [...ga.boids].sort((a, b) => b.fitness - a.fitness).slice(0, rivals);
+    keyboard.detach();
+    keyboard.attach();
+    simState.race = new PlayerRace(ga.raceTrack(track), laps, fittest.map(b => b.brainJSON()), () => keyboard.step());
+    setStatus(`Get ready — ${laps} lap${laps > 1 ? 's' : ''} against ${fittest.length} AI`);
+}
+
+function endRace() {
+    if (!simState.race) return;
+    keyboard.detach();
+    simState.race = null;
+    setStatus('');
+}
+
+function setStatus(msg: string) {
+    const el = document.getElementById('race-status');
+    if (el) el.textContent = msg;
+}
+
+function wireSlider(
+    root: HTMLElement,
+    sliderId: string,
+    valId: string,
+    onChange: (v: number) => void,
+) {
+    const slider = root.querySelector(`#${sliderId}`) as HTMLInputElement | null;
+    const valEl = root.querySelector(`#${valId}`) as HTMLElement | null;
+    if (!slider || !valEl) return;
+    slider.addEventListener('input', () => {
+        const v = parseFloat(slider.value);
+        valEl.textContent = String(v);
+        onChange(v);
+    });
+}
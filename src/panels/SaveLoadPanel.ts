@@ -2,12 +2,29 @@
 // Export / Import brain JSON and full session JSON.
 
 import { simState } from '../SimState';
-import { GeneticAlgorithm } from '../AI';
+import { startOptimizer, mainTrack } from '../OptimizerFactory';
 import type { NeuralNetworkJSON } from '../brain-js';
+import { isNeatGenomeJSON } from '../Neat';
 import { buildPanel } from './BrainPanel';
 import { resetChartData, finalizeRun, setCurrentRunStartGen, clearRunHistory } from './ChartPanel';
 import { seedRng, random } from '../rng';
-import { applyPendingSeed } from './ConfigPanel';
+import {
+    applyPendingSeed, syncSelectionControls, syncRunControls, syncFitnessControls,
+    syncStagnationControls, renderCurriculum,
+} from './ConfigPanel';
+import { GeneticAlgorithm } from '../AI';
+import { DEFAULT_SELECTION, createSelection } from '../Selection';
+import { type IslandSettings, DEFAULT_ISLANDS } from '../Islands';
+import { DEFAULT_FITNESS, compileFitnessExpression, isFitnessKind, setFitness } from '../Fitness';
+import { DEFAULT_CURRICULUM } from '../Curriculum';
+import { DEFAULT_STAGNATION } from '../Stagnation';
+import { Boid, type BrainJSON } from '../Boid';
+import {
+    type NetworkArchitecture, FeedForwardNetwork, architectureOf, describeArchitecture, isNetworkArchitecture,
+    sameArchitecture, savedInputs, inputsOf, savedSensors,
+} from '../Network';
+import { inputLabels } from '../Inputs';
+import { syncArchitectureControls, startRunWithArchitecture } from './ArchitecturePanel';
 
 export function createSaveLoadPanel(): HTMLElement {
     const panel = buildPanel('saveload', '💾 Save / Load', 280, 310, window.innerWidth - 305, window.innerHeight - 330);
@@ -43,22 +60,20 @@ export function createSaveLoadPanel(): HTMLElement {
     body.querySelector('#sl-btn-load-session')?.addEventListener('click', loadSession);
 
     body.querySelector('#sl-btn-restart')?.addEventListener('click', () => {
-        const { ga, track } = simState;
+        const { ga } = simState;
+        const track = mainTrack();
         if (!ga || !track) return;
         finalizeRun(ga);
         resetChartData();
-        simState.ga = new GeneticAlgorithm(
-            simState.populationSize,
-            track.startPoint.x, track.startPoint.y, track.startAngle,
-        );
-        simState.ga.generation = 1;
+        startOptimizer(track, 1);
         setCurrentRunStartGen(1);
         setStatus('Generation restarted.');
     });
 
     body.querySelector('#sl-btn-load-preset')?.addEventListener('click', () => {
         if (!confirm('Start a completely new simulation seeded from brain1.json?')) return;
-        const { ga, track } = simState;
+        const { ga } = simState;
+        const track = mainTrack();
         if (ga) finalizeRun(ga);
         clearRunHistory();
         resetChartData();
@@ -74,13 +89,16 @@ export function createSaveLoadPanel(): HTMLElement {
                 simState.simulationSeed = actualSeed;
                 const newTrackSeed = Math.floor(random() * 1000000) + 1;
                 track.generateSimpleLoopedTrack(1200, 1200, newTrackSeed);
-                simState.ga = new GeneticAlgorithm(
-                    simState.populationSize,
-                    track.startPoint.x, track.startPoint.y, track.startAngle,
-                );
-                simState.ga.generation = 1;
+                // brain1.json is a fixed-topology network, so the preset always runs in weights mode
+                // and with the architecture it was saved with
+                simState.evolutionMode = 'weights';
+                simState.architecture = architectureOf(data.network as NeuralNetworkJSON);
+                syncArchitectureControls();
+                const modeSelect = document.getElementById('cfg-evolution-mode') as HTMLSelectElement | null;
+                if (modeSelect) modeSelect.value = 'weights';
+                const ga = startOptimizer(track, 1, 'weights');
                 setCurrentRunStartGen(1);
-                simState.ga.boids[0].network.fromJSON(data.network as NeuralNetworkJSON);
+                ga.seedBrain(data.network as NeuralNetworkJSON);
                 localStorage.setItem('best_boid_brain', JSON.stringify(data.network));
                 setStatus('✅ New sim started from brain1.json');
             })
@@ -89,7 +107,8 @@ export function createSaveLoadPanel(): HTMLElement {
 
     body.querySelector('#sl-btn-clear')?.addEventListener('click', () => {
         if (!confirm('Clear all training history? This will reset the brain.')) return;
-        const { ga, track } = simState;
+        const { ga } = simState;
+        const track = mainTrack();
         if (ga) finalizeRun(ga);
         clearRunHistory();
         resetChartData();
@@ -101,11 +120,7 @@ export function createSaveLoadPanel(): HTMLElement {
         simState.simulationSeed = actualSeed;
         const newTrackSeed = Math.floor(random() * 1000000) + 1;
         track.generateSimpleLoopedTrack(1200, 1200, newTrackSeed);
-        simState.ga = new GeneticAlgorithm(
-            simState.populationSize,
-            track.startPoint.x, track.startPoint.y, track.startAngle,
-        );
-        simState.ga.generation = 1;
+        startOptimizer(track, 1);
         setCurrentRunStartGen(1);
         setStatus('History cleared.');
     });
@@ -126,7 +141,7 @@ function exportBrain() {
     const data = {
         generation: ga.generation,
         fitness: best.fitness,
-        network: best.network.toJSON() as NeuralNetworkJSON,
+        network: best.brainJSON(),
         exportedAt: new Date().toISOString(),
     };
     downloadJSON(data, `brain-gen${ga.generation}-fit${Math.floor(best.fitness)}.json`);
@@ -137,13 +152,15 @@ function importBrain() {
     pickFile('.json', async (file) => {
         try {
             const data = JSON.parse(await file.text());
-            if (!data.network?.layers) { setStatus('❌ Invalid brain file'); return; }
+            if (!data.network?.layers && !isNeatGenomeJSON(data.network)) { setStatus('❌ Invalid brain file'); return; }
+            if (!simState.ga) return;
+            if (!brainMatchesMode(data.network)) return;
+            if (!brainMatchesArchitecture(data.network)) return;
             const { ga } = simState;
-            if (!ga) return;
-            ga.boids[0].network.fromJSON(data.network as NeuralNetworkJSON);
+            ga.seedBrain(data.network);
             localStorage.setItem('best_boid_brain', JSON.stringify(data.network));
             if (data.generation) {
-                ga.generation = data.generation;
+                ga.setGeneration(data.generation);
                 localStorage.setItem('current_generation', String(data.generation));
             }
             setStatus(`✅ Brain imported (gen ${data.generation ?? '?'}, fit ${Math.floor(data.fitness ?? 0)})`);
@@ -153,15 +170,37 @@ function importBrain() {
     });
 }
 
+/** Island model in a saved session: settings plus every island's track and whole population. */
+interface SavedIslands {
+    settings: IslandSettings;
+    members: { trackSeed: number; brains: BrainJSON[] }[];
+}
+
 function saveSession() {
-    const { ga, track } = simState;
+    const { ga, islands } = simState;
+    const track = mainTrack();
     if (!ga || !track) return;
     const best = ga.getBestActiveBoid();
+    const savedIslands: SavedIslands | null = islands
+        ? {
+            settings: islands.settings,
+            members: islands.islands.map(i => ({
+                trackSeed: i.track.seed,
+                brains: i.ga.boids.map(b => b.brainJSON()),
+            })),
+        }
+        : null;
     const data = {
         generation: ga.generation,
         trackSeed: track.seed,
         simulationSeed: simState.simulationSeed,
-        bestBrainJSON: best ? best.network.toJSON() : null,
+        bestBrainJSON: best ? best.brainJSON() : null,
+        selection: simState.selection,
+        fitness: simState.fitness,
+        curriculum: { settings: simState.curriculum.settings, stage: simState.curriculum.stage },
+        stagnation: simState.stagnation,
+        architecture: Boid.architecture,
+        islands: savedIslands,
         savedAt: new Date().toISOString(),
     };
     downloadJSON(data, `session-gen${ga.generation}-${Date.now()}.json`);
@@ -172,8 +211,15 @@ function loadSession() {
     pickFile('.json', async (file) => {
         try {
             const data = JSON.parse(await file.text());
-            const { ga } = simState;
+            let { ga } = simState;
             if (!ga) return;
+            // Checked before anything is restored: a saved expression that no longer compiles rejects the load
+            const fitness = data.fitness ? { ...DEFAULT_FITNESS, ...data.fitness } : null;
+            if (fitness) {
+                // A kind this version doesn't know (a newer or hand-edited file) gets the default formula
+                if (!isFitnessKind(fitness.kind)) fitness.kind = DEFAULT_FITNESS.kind;
+                if (fitness.kind === 'custom') compileFitnessExpression(fitness.expression);
+            }
             if (data.simulationSeed) {
                 simState.simulationSeed = data.simulationSeed;
                 seedRng(data.simulationSeed);
@@ -183,13 +229,63 @@ function loadSession() {
                 const seedInput = document.getElementById('cfg-seed-input') as HTMLInputElement | null;
                 if (seedInput) seedInput.value = String(data.simulationSeed);
             }
-            if (data.generation) ga.generation = data.generation;
-            if (data.bestBrainJSON) {
-                ga.boids[0].network.fromJSON(data.bestBrainJSON);
+            // Older sessions don't record the architecture; their best brain has it
+            const architecture = isNetworkArchitecture(data.architecture)
+                ? data.architecture
+                : data.bestBrainJSON && !isNeatGenomeJSON(data.bestBrainJSON) ? architectureOf(data.bestBrainJSON) : null;
+            if (architecture) {
+                simState.architecture = structuredClone(architecture);
+                syncArchitectureControls();
+            }
+            // Restoring islands below starts a new run anyway. Otherwise the population is rebuilt when it
+            // can't hold the session's brains, or when it's an island model the session doesn't have.
+            const savedIslands = !!data.islands?.members?.length;
+            const track = mainTrack();
+            if (!savedIslands && simState.islands) {
+                // Updated in place — the ConfigPanel controls hold on to this object
+                simState.islandSettings.count = 1;
+                syncRunControls();
+            }
+            const rebuild = !savedIslands && (simState.islands !== null
+                || (architecture !== null && !sameArchitecture(architecture, Boid.architecture)));
+            if (track && rebuild) ga = startOptimizer(track, data.generation);
+            if (data.generation) ga.setGeneration(data.generation);
+            if (data.selection) {
+                // Older sessions may lack newer parameters — fall back to the defaults for those
+                simState.selection = { ...DEFAULT_SELECTION, ...data.selection };
+                if (ga instanceof GeneticAlgorithm) ga.selection = createSelection(simState.selection);
+                syncSelectionControls();
+            }
+            if (fitness) {
+                setFitness(fitness);
+                simState.fitness = fitness;
+                syncFitnessControls();
+            }
+            if (data.curriculum?.settings) {
+                // The saved track seeds below are regenerated with the restored stage's shape
+                const { curriculum } = simState;
+                curriculum.settings = { ...DEFAULT_CURRICULUM, ...data.curriculum.settings };
+                curriculum.setStage(data.curriculum.stage ?? 0);
+                if (curriculum.settings.enabled) mainTrack()?.setParams(curriculum.current.params);
+                renderCurriculum();
+            }
+            if (data.stagnation) {
+                // Updated in place — every GA's stagnation monitor holds on to this object
+                Object.assign(simState.stagnation, DEFAULT_STAGNATION, data.stagnation);
+                syncStagnationControls();
+            }
+            if (savedIslands) {
+                restoreIslands(data.islands, data.generation);
+                if (data.bestBrainJSON) localStorage.setItem('best_boid_brain', JSON.stringify(data.bestBrainJSON));
+                setStatus(`✅ Session loaded (gen ${data.generation ?? '?'}, ${data.islands.members.length} islands)`);
+                return;
+            }
+            if (data.bestBrainJSON && brainMatchesMode(data.bestBrainJSON)) {
+                ga.seedBrain(data.bestBrainJSON);
                 localStorage.setItem('best_boid_brain', JSON.stringify(data.bestBrainJSON));
             }
-            if (data.trackSeed && simState.track) {
-                simState.track.generateSimpleLoopedTrack(1200, 1200, data.trackSeed);
+            if (data.trackSeed && track) {
+                track.generateSimpleLoopedTrack(1200, 1200, data.trackSeed);
             }
             setStatus(`✅ Session loaded (gen ${data.generation ?? '?'})`);
         } catch (err) {
@@ -198,6 +294,66 @@ function loadSession() {
     });
 }
 
+/**
+ * Rebuild the island model saved in a session: its settings, every island's track
+ * and every island's population. Switches to the GA and to the saved brain kind.
+ */
+function restoreIslands(saved: SavedIslands, generation?: number) {
+    const track = mainTrack();
+    if (!track) return;
+    simState.optimizerKind = 'ga';
+    simState.evolutionMode = isNeatGenomeJSON(saved.members[0].brains[0]) ? 'neat' : 'weights';
+    // Updated in place — the ConfigPanel controls hold on to this object
+    Object.assign(simState.islandSettings, DEFAULT_ISLANDS, saved.settings, { count: saved.members.length });
+    track.generateSimpleLoopedTrack(1200, 1200, saved.members[0].trackSeed);
+
+    startOptimizer(track, generation);
+    simState.islands?.islands.forEach((island, i) => {
+        const member = saved.members[i];
+        if (island.track !== track) {
+            if (simState.curriculum.settings.enabled) island.track.setParams(simState.curriculum.current.params);
+            island.track.generateSimpleLoopedTrack(1200, 1200, member.trackSeed);
+        }
+        member.brains.forEach((brain, k) => island.ga.boids[k]?.loadBrain(brain));
+    });
+    syncRunControls();
+}
+
+/**
+ * Whether a brain fits the running architecture. If it doesn't, says why and offers to start
+ * a new run with the brain's architecture, returning true once that run has started.
+ */
+function brainMatchesArchitecture(json: BrainJSON): boolean {
+    const why = Boid.brainMismatch(json);
+    if (!why) return true;
+    // The boids fix the outputs; what the brain is fed and its hidden layers can be switched to.
+    // NEAT grows its own hidden layers, so only its inputs and sensors are taken over.
+    const neat = isNeatGenomeJSON(json);
+    const theirs: NetworkArchitecture = neat
+        ? { ...structuredClone(simState.architecture), inputs: savedInputs(json), sensors: savedSensors(json) }
+        : architectureOf(json);
+    const inputs = Boid.inputCount(theirs);
+    const sizes = neat ? [json.inputCount, json.outputCount] : FeedForwardNetwork.sizesOf(json);
+    const switchable = sizes[0] === inputs && sizes[sizes.length - 1] === Boid.OUTPUTS;
+    const described = neat
+        ? `inputs ${inputLabels(inputsOf(theirs), savedSensors(json)).join(', ')}`
+        : describeArchitecture(theirs, inputs, Boid.OUTPUTS);
+    if (switchable && confirm(`${why}.\n\nStart a new run with the brain's architecture (${described})?`)) {
+        startRunWithArchitecture(theirs);
+        return true;
+    }
+    setStatus(`❌ ${why}`);
+    return false;
+}
+
+/** NEAT genomes can only join a NEAT run, fixed-topology networks only a weights run. */
+function brainMatchesMode(json: unknown): boolean {
+    const isNeat = isNeatGenomeJSON(json);
+    if (isNeat === (simState.ga?.evolutionMode === 'neat')) return true;
+    setStatus(`❌ ${isNeat ? 'NEAT genome' : 'Fixed network'} doesn't match the current evolution mode`);
+    return false;
+}
+
 function downloadJSON(data: object, filename: string) {
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
@@ -0,0 +1,298 @@
+// src/panels/SweepPanel.ts
+// Define a grid or random hyperparameter sweep, run it headlessly alongside the live simulation,
+// and compare the runs in a sortable table that exports to CSV.
+
+import { simState } from '../SimState';
+import { mainTrack } from '../OptimizerFactory';
+import {
+    type SweepDefinition, type SweepMode, type SweepParam, type SweepResult, type SweepBase,
+    DEFAULT_SWEEP, SWEEP_PARAMS, SWEEP_PARAM_KEYS, SweepJob, expandSweep, sweepCSV,
+} from '../Sweep';
+import { buildPanel } from './BrainPanel';
+
+const FRAMES_PER_SLICE = 200; // frames simulated between checks of the time budget
+const SLICE_BUDGET_MS = 30;   // simulation time per task before yielding to the page
+
+type SortKey = SweepParam | 'seed' | 'peakFitness' | 'firstLapGeneration' | 'finalDiversity';
+
+const definition: SweepDefinition = {
+    ...DEFAULT_SWEEP,
+    params: { ...DEFAULT_SWEEP.params },
+    seeds: [...DEFAULT_SWEEP.seeds],
+};
+let results: SweepResult[] = [];
+let running = false;
+let stopRequested = false;
+let sortKey: SortKey = 'peakFitness';
+let sortDescending = true;
+let averageSeeds = false; // one row per configuration, measurements averaged over its seeds
+
+export function createSweepPanel(): HTMLElement {
+    const panel = buildPanel('sweep', '🧪 Sweep', 400, 520, 480, 80);
+    panel.style.display = 'none';
+    const body = panel.querySelector('.panel-body') as HTMLElement;
+    body.style.overflowY = 'auto';
+    body.style.padding = '10px 14px';
+
+    const inputStyle = 'background:#1a1a2e;border:1px solid #333;color:#ddd;border-radius:4px;padding:2px 6px;font-size:0.8rem;';
+    const paramRows = SWEEP_PARAM_KEYS.map(key => `
+      <div style="display:flex;align-items:center;gap:6px;margin-bottom:4px;">
+        <label for="sw-param-${key}" style="font-size:0.8rem;width:92px;">${SWEEP_PARAMS[key].label}</label>
+        <input type="text" id="sw-param-${key}" data-param="${key}" value="${definition.params[key].join(', ')}" style="flex:1;${inputStyle}">
+      </div>`).join('');
+
+    body.innerHTML = `
+    <div class="cfg-section">
+      <div class="cfg-label">Search</div>
+      <div class="cfg-row-v">
+        <select id="sw-mode" class="cfg-select">
+          <option value="grid">Grid — every combination of the listed values</option>
+          <option value="random">Random — draw between each parameter's min and max</option>
+        </select>
+      </div>
+      <div id="sw-samples-row" style="display:flex;align-items:center;gap:6px;margin-top:6px;">
+        <label for="sw-samples" style="font-size:0.8rem;width:92px;">Samples</label>
+        <input type="number" id="sw-samples" min="1" max="500" value="${definition.samples}" style="width:70px;${inputStyle}">
+      </div>
+    </div>
+    <div class="cfg-section">
+      <div class="cfg-label">Parameters</div>
+      ${paramRows}
+      <div id="sw-param-hint" style="font-size:0.75rem;color:#666;"></div>
+    </div>
+    <div class="cfg-section">
+      <div style="display:flex;align-items:center;gap:6px;margin-bottom:4px;">
+        <label for="sw-seeds" style="font-size:0.8rem;width:92px;">Seeds</label>
+        <input type="text" id="sw-seeds" value="${definition.seeds.join(', ')}" style="flex:1;${inputStyle}">
+      </div>
+      <div style="display:flex;align-items:center;gap:6px;">
+        <label for="sw-generations" style="font-size:0.8rem;width:92px;">Generations</label>
+        <input type="number" id="sw-generations" min="1" max="1000" value="${definition.generations}" style="width:70px;${inputStyle}">
+      </div>
+      <div style="font-size:0.75rem;color:#666;margin-top:4px;">
+        Runs train fixed-topology brains on the current track's shape and seed, with the current
+        selection, crossover and mutation settings · tournament size only matters with tournament selection
+      </div>
+    </div>
+    <div class="sl-section">
+      <div style="display:flex;gap:6px;">
+        <button id="sw-btn-run">▶ Run Sweep</button>
+        <button id="sw-btn-stop" class="sl-btn-danger">■ Stop</button>
+      </div>
+      <div id="sw-status" style="font-size:0.78rem;color:#888;min-height:18px;margin-top:4px;"></div>
+    </div>
+    <div class="sl-section">
+      <div class="sl-title">Results</div>
+      <div style="display:flex;align-items:center;gap:8px;margin-bottom:4px;">
+        <input type="checkbox" id="sw-average">
+        <label for="sw-average" style="font-size:0.8rem;">Average over seeds</label>
+      </div>
+      <div id="sw-results" style="font-size:0.70rem;color:#aaa;"></div>
+      <button id="sw-btn-csv" style="margin-top:6px;">⬇ CSV</button>
+    </div>
+  `;
+
+    const modeSelect = body.querySelector('#sw-mode') as HTMLSelectElement;
+    modeSelect.value = definition.mode;
+    modeSelect.addEventListener('change', () => {
+        definition.mode = modeSelect.value as SweepMode;
+        showModeParams(body);
+    });
+    showModeParams(body);
+
+    body.querySelector('#sw-btn-run')?.addEventListener('click', () => { runSweep(body); });
+    body.querySelector('#sw-btn-stop')?.addEventListener('click', () => { if (running) stopRequested = true; });
+    body.querySelector('#sw-btn-csv')?.addEventListener('click', () => {
+        if (results.length === 0) return;
+        download(sweepCSV(results), `sweep-${definition.mode}-${Date.now()}.csv`, 'text/csv');
+    });
+    const averageCheck = body.querySelector('#sw-average') as HTMLInputElement;
+    averageCheck.addEventListener('change', () => {
+        averageSeeds = averageCheck.checked;
+        renderResults();
+    });
+
+    // Clicking a column header sorts by it; clicking it again flips the order
+    body.querySelector('#sw-results')?.addEventListener('click', (e) => {
+        const key = (e.target as HTMLElement).dataset.sort as SortKey | undefined;
+        if (!key) return;
+        if (key === sortKey) sortDescending = !sortDescending;
+        else { sortKey = key; sortDescending = true; }
+        renderResults();
+    });
+
+    renderResults(body);
+    return panel;
+}
+
+/** Grid takes a list of values per parameter; random search takes a min and a max. */
+function showModeParams(root: ParentNode) {
+    const samples = root.querySelector('#sw-samples-row') as HTMLElement | null;
+    const hint = root.querySelector('#sw-param-hint');
+    if (samples) samples.style.display = definition.mode === 'random' ? 'flex' : 'none';
+    if (hint) {
+        hint.textContent = definition.mode === 'grid'
+            ? 'Comma-separated values to try · one value keeps a parameter fixed'
+            : 'Min, max to draw from · one value keeps a parameter fixed';
+    }
+}
+
+/** Read the form into `definition`; returns an error message instead if any field is invalid. */
+function readDefinition(root: ParentNode): string | null {
+    const parseList = (text: string) => text.split(/[\s,]+/).filter(Boolean).map(Number);
+    for (const key of SWEEP_PARAM_KEYS) {
+        const input = root.querySelector(`#sw-param-${key}`) as HTMLInputElement;
+        const values = parseList(input.value);
+        const { label, min, max, integer } = SWEEP_PARAMS[key];
+        if (values.length === 0 || values.some(v => !Number.isFinite(v) || v < min || v > max)) {
+            return `${label}: enter numbers between ${min} and ${max}`;
+        }
+        definition.params[key] = integer ? values.map(Math.round) : values;
+    }
+    const seeds = parseList((root.querySelector('#sw-seeds') as HTMLInputElement).value);
+    if (seeds.length === 0 || seeds.some(s => !Number.isInteger(s) || s < 1)) return 'Seeds: enter whole numbers of 1 or more';
+    definition.seeds = seeds;
+    const generations = parseInt((root.querySelector('#sw-generations') as HTMLInputElement).value);
+    if (!(generations >= 1)) return 'Generations: enter 1 or more';
+    definition.generations = generations;
+    const samples = parseInt((root.querySelector('#sw-samples') as HTMLInputElement).value);
+    if (definition.mode === 'random' && !(samples >= 1)) return 'Samples: enter 1 or more';
+    if (samples >= 1) definition.samples = samples;
+    return null;
+}
+
+/**
+ * Train every configuration once per seed, one run at a time. Each task simulates for about
+ * SLICE_BUDGET_MS before yielding so the page and the live simulation keep running.
+ */
+async function runSweep(root: ParentNode) {
+    if (running) return;
+    const track = mainTrack();
+    if (!track) return;
+    const error = readDefinition(root);
+    if (error) { setStatus(`❌ ${error}`); return; }
+
+    // Settings are copied so slider changes during the sweep don't leak into it
+    const base: SweepBase = {
+        selection: { ...simState.selection },
+        crossover: { ...simState.crossover },
+        mutation: { ...simState.mutation },
+        trackParams: track.getParams(),
+        trackSeed: track.seed || 1,
+    };
+    const configs = expandSweep(definition);
+    const total = configs.length * definition.seeds.length;
+    running = true;
+    stopRequested = false;
+    results = [];
+    renderResults();
+    try {
+        let index = 0;
+        for (const config of configs) {
+            for (const seed of definition.seeds) {
+                index++;
+                const job = new SweepJob(config, seed, definition.generations, base);
+                while (!job.done && !stopRequested) {
+                    const start = performance.now();
+                    while (!job.run(FRAMES_PER_SLICE) && performance.now() - start < SLICE_BUDGET_MS) { /* keep simulating */ }
+                    setStatus(`Run ${index}/${total} · gen ${job.generationsRun}/${job.generations}…`);
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+                if (stopRequested) break;
+                results.push(job.result());
+                renderResults();
+            }
+            if (stopRequested) break;
+        }
+        setStatus(stopRequested
+            ? `Stopped after ${results.length}/${total} runs`
+            : `✅ ${total} runs (${configs.length} configurations × ${definition.seeds.length} seeds)`);
+    } catch (err) {
+        setStatus(`❌ ${(err as Error).message}`);
+    } finally {
+        running = false;
+    }
+}
+
+/** Per-run results, or one averaged row per configuration (seed shows how many runs it covers). */
+function displayedRows(): SweepResult[] {
+    if (!averageSeeds) return results;
+    const groups = new Map<string, SweepResult[]>();
+    for (const r of results) {
+        const key = SWEEP_PARAM_KEYS.map(k => r.config[k]).join('|');
+        groups.set(key, [...(groups.get(key) ?? []), r]);
+    }
+    return [...groups.values()].map(runs => {
+        const mean = (f: (r: SweepResult) => number) => runs.reduce((s, r) => s + f(r), 0) / runs.length;
+        const lapped = runs.filter(r => r.firstLapGeneration !== null);
+        return {
+            config: runs[0].config,
+            seed: runs.length,
+            peakFitness: mean(r => r.peakFitness),
+            // Runs that never lapped are left out of the mean; null only if none lapped
+            firstLapGeneration: lapped.length > 0
+                ? lapped.reduce((s, r) => s + r.firstLapGeneration!, 0) / lapped.length
+                : null,
+            finalDiversity: mean(r => r.finalDiversity),
+        };
+    });
+}
+
+function sortValue(r: SweepResult, key: SortKey): number | null {
+    if (key === 'seed' || key === 'peakFitness' || key === 'firstLapGeneration' || key === 'finalDiversity') return r[key];
+    return r.config[key];
+}
+
+function renderResults(root: ParentNode = document) {
+    const el = root.querySelector('#sw-results');
+    if (!el) return;
+    if (results.length === 0) {
+        el.innerHTML = '<span style="color:#444;">No results yet.</span>';
+        return;
+    }
+
+    // Missing values (no lap) sort last whichever way the column is ordered
+    const rows = [...displayedRows()].sort((a, b) => {
+        const va = sortValue(a, sortKey);
+        const vb = sortValue(b, sortKey);
+        if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+        return sortDescending ? vb - va : va - vb;
+    });
+    const columns: [SortKey, string][] = [
+        ...SWEEP_PARAM_KEYS.map((k): [SortKey, string] => [k, SWEEP_PARAMS[k].label]),
+        ['seed', averageSeeds ? 'Runs' : 'Seed'],
+        ['peakFitness', 'Peak'],
+        ['firstLapGeneration', '1st lap'],
+        ['finalDiversity', 'Div'],
+    ];
+    const header = columns.map(([key, label]) => {
+        const arrow = key === sortKey ? (sortDescending ? ' ▼' : ' ▲') : '';
+        return `<th data-sort="${key}" style="padding:1px 4px;font-weight:normal;text-align:left;cursor:pointer;">${label}${arrow}</th>`;
+    }).join('');
+    const td = 'style="padding:1px 4px"';
+    const body = rows.map(r => `<tr>
+      ${SWEEP_PARAM_KEYS.map(k => `<td ${td}>${r.config[k]}</td>`).join('')}
+      <td style="padding:1px 4px;color:#888">${r.seed}</td>
+      <td style="padding:1px 4px;color:#4ade80">${Math.floor(r.peakFitness).toLocaleString()}</td>
+      <td ${td}>${r.firstLapGeneration === null ? '—' : Number(r.firstLapGeneration.toFixed(1))}</td>
+      <td style="padding:1px 4px;color:#f97316">${r.finalDiversity.toFixed(2)}</td>
+    </tr>`).join('');
+    el.innerHTML = `<table style="width:100%;border-collapse:collapse;line-height:1.4;">
+      <thead><tr style="color:#444;border-bottom:1px solid rgba(255,255,255,0.06);">${header}</tr></thead>
+      <tbody>${body}</tbody>
+    </table>`;
+}
+
+function setStatus(msg: string) {
+    const el = document.getElementById('sw-status');
+    if (el) el.textContent = msg;
+}
+
+function download(text: string, filename: string, type: string) {
+    const blob = new Blob([text], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url; a.download = filename;
+    document.body.appendChild(a); a.click();
+    document.body.removeChild(a); URL.revokeObjectURL(url);
+}
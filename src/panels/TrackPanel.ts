@@ -2,6 +2,7 @@
 // Track configuration, visual editor, and save/load.
 
 import { simState } from '../SimState';
+import { type TrackParams, TRACK_PRESETS } from '../Track';
 import { Vector } from '../Vector';
 import { buildPanel } from './BrainPanel';
 import { resetBoidsForNewTrack } from './ConfigPanel';
@@ -119,13 +120,13 @@ export function createTrackPanel(): HTMLElement {
 
     // ── Presets ────────────────────────────────────────────────────────────
     body.querySelector('#trk-preset-oval')?.addEventListener('click', () => {
-        applyPreset(body, { numControlPoints: 8, radiusVariance: 0.05, cornerTightness: 0.05, trackWidth: 150, segmentsPerCurve: 15 });
+        applyPreset(body, TRACK_PRESETS.oval);
     });
     body.querySelector('#trk-preset-tech')?.addEventListener('click', () => {
-        applyPreset(body, { numControlPoints: 16, radiusVariance: 0.45, cornerTightness: 0.35, trackWidth: 100, segmentsPerCurve: 18 });
+        applyPreset(body, TRACK_PRESETS.technical);
     });
     body.querySelector('#trk-preset-f1')?.addEventListener('click', () => {
-        applyPreset(body, { numControlPoints: 14, radiusVariance: 0.55, cornerTightness: 0.25, trackWidth: 110, segmentsPerCurve: 18 });
+        applyPreset(body, TRACK_PRESETS.f1);
     });
 
     // ── Edit mode ──────────────────────────────────────────────────────────
@@ -240,23 +241,11 @@ function wireTrackSlider(
     });
 }
 
-interface PresetValues {
-    numControlPoints: number;
-    radiusVariance: number;
-    cornerTightness: number;
-    trackWidth: number;
-    segmentsPerCurve: number;
-}
-
-function applyPreset(body: HTMLElement, preset: PresetValues) {
+function applyPreset(body: HTMLElement, preset: TrackParams) {
     const { track } = simState;
     if (!track) return;
 
-    track.numControlPoints = preset.numControlPoints;
-    track.radiusVariance   = preset.radiusVariance;
-    track.cornerTightness  = preset.cornerTightness;
-    track.trackWidth       = preset.trackWidth;
-    track.segmentsPerCurve = preset.segmentsPerCurve;
+    track.setParams(preset);
 
     syncSlidersFromTrack(body, track);
 
@@ -266,7 +255,7 @@ function applyPreset(body: HTMLElement, preset: PresetValues) {
     resetBoidsForNewTrack();
 }
 
-function syncSlidersFromTrack(body: HTMLElement, track: { trackWidth: number; numControlPoints: number; segmentsPerCurve: number; radiusVariance: number; cornerTightness: number }) {
+function syncSlidersFromTrack(body: HTMLElement, track: TrackParams) {
     const set = (id: string, valId: string, v: number, dec = 0) => {
         const el  = body.querySelector(`#${id}`)    as HTMLInputElement | null;
         const val = body.querySelector(`#${valId}`) as HTMLElement | null;
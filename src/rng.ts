@@ -25,6 +25,22 @@ export function getActiveSeed(): number {
     return _seed;
 }
 
+/** Position in the PRNG stream, for code that must draw numbers without disturbing the simulation. */
+export interface RngSnapshot {
+    seed: number;
+    state: number;
+}
+
+export function snapshotRng(): RngSnapshot {
+    return { seed: _seed, state: _state };
+}
+
+/** Resume the stream exactly where snapshotRng() left it. */
+export function restoreRng(snapshot: RngSnapshot) {
+    _seed = snapshot.seed;
+    _state = snapshot.state;
+}
+
 /** Mulberry32 PRNG — returns a float in [0, 1). Drop-in for Math.random(). */
 export function random(): number {
     let t = (_state += 0x6D2B79F5);
@@ -32,3 +48,10 @@ export function random(): number {
     t ^= t + Math.imul(t ^ t >>> 7, t | 61);
     return ((t ^ t >>> 14) >>> 0) / 4294967296;
 }
+
+/** Standard normal sample (Box–Muller) drawn from the seeded PRNG. */
+export function randomGaussian(): number {
+    const u = 1 - random(); // (0, 1] — avoids log(0)
+    const v = random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -28,3 +28,8 @@ export function getIntersection(A: Vector, B: Vector, C: Vector, D: Vector): Int
     }
     return null;
 }
+
+/** Clamp `x` into [0, 1]. */
+export function clamp01(x: number): number {
+    return x < 0 ? 0 : x > 1 ? 1 : x;
+}